@@ -3,7 +3,6 @@ import { useTheme } from './context/ThemeContext';
 import { NetWorthDashboard } from './components/NetWorthDashboard';
 import { AccountList } from './components/AccountList';
 import { useEffect, useState } from 'react';
-import { useNetWorthCalculations } from './context/NetWorthContext';
 import { DataManagement } from './components/DataManagement';
 import { Analytics } from './components/Analytics';
 import { KeyboardShortcuts } from './components/KeyboardShortcuts';
@@ -11,31 +10,25 @@ import { useAuth } from './context/AuthContext';
 import AuthGate from './components/AuthGate';
 import AssetAllocationChart from './components/AssetAllocationChart';
 import { NetWorthTrendChart } from './components/NetWorthTrendChart';
+import { ProjectionView } from './components/ProjectionView';
+import { DebtPayoffPlanner } from './components/DebtPayoffPlanner';
 import { UserProfileDropdown } from './components/UserProfileDropdown';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
 
 function AppContent() {
-  const { state, dispatch } = useNetWorth();
+  const { state, recordSnapshot } = useNetWorth();
   const { theme, toggleTheme } = useTheme();
-  const { totalAssets, totalLiabilities, netWorth } = useNetWorthCalculations();
   const [showDataManagement, setShowDataManagement] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const { user, loading } = useAuth();
 
-  // Create snapshot whenever balances change (Conditional on user)
+  // Persist today's snapshot whenever balances change (deduplicated per day by the provider)
   useEffect(() => {
-    if (!user || loading || state.accounts.length === 0) {
+    if (!user || loading || state.loading || state.accounts.length === 0) {
       return;
     }
-    dispatch({
-      type: 'ADD_SNAPSHOT',
-      payload: {
-        date: new Date().toISOString(),
-        totalAssets,
-        totalLiabilities,
-        netWorth,
-      }
-    });
-  }, [state.accounts, dispatch, user, loading, totalAssets, totalLiabilities, netWorth]);
+    recordSnapshot();
+  }, [state.accounts, state.loading, recordSnapshot, user, loading]);
 
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -87,6 +80,7 @@ function AppContent() {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
             <h1 className="text-2xl font-bold text-primary-600">Networthy</h1>
             <div className="flex items-center gap-4">
+              {user && <SyncStatusIndicator />}
               <button
                 onClick={toggleTheme}
                 className="btn-secondary"
@@ -120,9 +114,15 @@ function AppContent() {
              </div>
           </div>
 
-          {/* Third Row: Analytics */}
-          <div>
+          {/* Third Row: Analytics and Debt Payoff */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
             <Analytics />
+            <DebtPayoffPlanner />
+          </div>
+
+          {/* Projection */}
+          <div>
+            <ProjectionView />
           </div>
 
           {/* Fourth Row: Account List */}
@@ -139,7 +139,7 @@ function AppContent() {
         {/* Modal for Data Management */}
         {showDataManagement && (
           <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-50">
-            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-lg w-full m-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-lg w-full m-4 max-h-[90vh] overflow-y-auto">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Data Management</h3>
                 <button
@@ -1,34 +1,20 @@
 import React, { useState, FormEvent, useEffect } from 'react';
 import { Account, AccountType /*, BalanceEntry */ } from '../types'; // Removed BalanceEntry
 import { useNetWorth, getCurrentBalance } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { ACCOUNT_TYPE_ORDER, getAccountTypeLabel } from '../utils/accountTypes';
+import { isLiabilityType } from '../utils/netWorthSeries';
 
 interface AccountFormProps {
   account?: Account | null; // Allow null explicitly
   onClose: () => void;
 }
 
-const accountTypes: AccountType[] = [
-  'checkings',
-  'savings',
-  'cash',
-  'investment',
-  'crypto',
-  'real_estate',
-  'other_assets',
-  'liability',
-];
-
-// Helper to format type names for display
-const formatAccountType = (type: AccountType): string => {
-  return type
-    .split('_')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
 export function AccountForm({ account, onClose }: AccountFormProps) {
   // Use the new async functions from context
   const { addAccount, updateAccountMetadata, addBalanceEntry, error: contextError } = useNetWorth();
+  const { baseCurrency } = useCurrency();
 
   const initialBalance = account ? getCurrentBalance(account) : 0;
 
@@ -40,6 +26,8 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
     balance: initialBalance.toString(),
     category: account?.category || '', // Add category
     tags: account?.tags || [], // Add tags
+    currency: account?.currency || baseCurrency,
+    cashFlow: '',
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false); // Form submission loading state
@@ -56,11 +44,13 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
         balance: currentBal.toString(),
         category: account?.category || '',
         tags: account?.tags || [],
+        currency: account?.currency || baseCurrency,
+        cashFlow: '',
     });
     setFieldErrors({});
     setFormError(null);
     setIsSubmitting(false);
-  }, [account]);
+  }, [account, baseCurrency]);
 
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
@@ -102,6 +92,11 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
           setFieldErrors(prev => ({ ...prev, balance: "Invalid balance number."}) );
           isValid = false; // Set to false if balance is NaN
         }
+        const flowAmount = formData.cashFlow.trim() === '' ? 0 : parseFloat(formData.cashFlow);
+        if (isNaN(flowAmount)) {
+          setFieldErrors(prev => ({ ...prev, cashFlow: "Invalid contribution amount."}) );
+          isValid = false;
+        }
 
         // Use isValid here, not success!
         if (isValid) { 
@@ -112,6 +107,7 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
              name: formData.name || undefined,
              category: formData.category || undefined,
              tags: formData.tags || [],
+             currency: formData.currency,
              order: account.order ?? 0 
           };
 
@@ -119,9 +115,13 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
 
           const previousBalance = getCurrentBalance(account);
           let balanceUpdated = true; // Assume balance update succeeds or isn't needed
-          if (currentBalance !== previousBalance) {
+          // A contribution or withdrawal is saved together with the balance it produced
+          const cashFlow = flowAmount !== 0
+            ? { amount: flowAmount, kind: flowAmount > 0 ? 'contribution' as const : 'withdrawal' as const }
+            : undefined;
+          if (currentBalance !== previousBalance || cashFlow) {
             try {
-                await addBalanceEntry(account.id, currentBalance, new Date().toISOString());
+                await addBalanceEntry(account.id, currentBalance, new Date().toISOString(), cashFlow);
             } catch (balanceError) {
                 console.error("Error adding balance entry during update:", balanceError);
                 // Optionally set a specific error message about balance update failing
@@ -141,6 +141,7 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
           balance: currentBalance, // Pass balance separately
           category: formData.category || undefined,
           tags: formData.tags || [],
+          currency: formData.currency,
           order: 0 // Default order for new accounts
         };
         const newAccount = await addAccount(newAccountData);
@@ -219,9 +220,38 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
           className="input mt-1"
           disabled={isSubmitting}
         >
-          {accountTypes.map((type) => (
-            <option key={type} value={type}>
-              {formatAccountType(type)}
+          <optgroup label="Assets">
+            {ACCOUNT_TYPE_ORDER.filter(type => !isLiabilityType(type)).map((type) => (
+              <option key={type} value={type}>
+                {getAccountTypeLabel(type)}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Liabilities">
+            {ACCOUNT_TYPE_ORDER.filter(isLiabilityType).map((type) => (
+              <option key={type} value={type}>
+                {getAccountTypeLabel(type)}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      {/* Currency */}
+      <div>
+        <label htmlFor="currency" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Currency
+        </label>
+        <select
+          id="currency"
+          value={formData.currency}
+          onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+          className="input mt-1"
+          disabled={isSubmitting}
+        >
+          {SUPPORTED_CURRENCIES.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
             </option>
           ))}
         </select>
@@ -267,14 +297,14 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
         </label>
         <div className="relative mt-1 rounded-md shadow-sm">
           <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-            <span className="text-gray-500 sm:text-sm">$</span>
+            <span className="text-gray-500 sm:text-sm">{formData.currency}</span>
           </div>
           <input
             type="number"
             id="balance"
             value={formData.balance}
             onChange={(e) => setFormData({ ...formData, balance: e.target.value })}
-            className={`input pl-7 pr-12 ${fieldErrors.balance ? 'border-red-500' : ''}`}
+            className={`input pl-14 pr-12 ${fieldErrors.balance ? 'border-red-500' : ''}`}
             step="0.01"
             placeholder="0.00"
             disabled={isSubmitting}
@@ -286,6 +316,36 @@ export function AccountForm({ account, onClose }: AccountFormProps) {
         )}
       </div>
 
+      {/* Contribution / withdrawal (existing accounts only) */}
+      {account && (
+        <div>
+          <label htmlFor="cashFlow" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Contribution / withdrawal since last update
+          </label>
+          <div className="relative mt-1 rounded-md shadow-sm">
+            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+              <span className="text-gray-500 sm:text-sm">{formData.currency}</span>
+            </div>
+            <input
+              type="number"
+              id="cashFlow"
+              value={formData.cashFlow}
+              onChange={(e) => setFormData({ ...formData, cashFlow: e.target.value })}
+              className={`input pl-14 pr-12 ${fieldErrors.cashFlow ? 'border-red-500' : ''}`}
+              step="0.01"
+              placeholder="0.00"
+              disabled={isSubmitting}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Positive for money added, negative for money taken out. Leave empty if none.
+          </p>
+          {fieldErrors.cashFlow && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.cashFlow}</p>
+          )}
+        </div>
+      )}
+
       {/* Form Error Message */}
       {formError && (
           <p className="mt-1 text-sm text-red-600 text-center">Error: {formError}</p>
@@ -4,29 +4,18 @@ import { AccountForm } from './AccountForm';
 import { Account, AccountType } from '../types';
 import { format, parseISO } from 'date-fns';
 import { AccountProgression } from './AccountProgression';
-
-// Helper to format type names for display
-const formatAccountType = (type: AccountType): string => {
-  return type
-    .split('_')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
-// Helper to get account icon
-const getAccountIcon = (type: AccountType): string => {
-  const icons: Record<AccountType, string> = {
-    checkings: '🏦',
-    savings: '💰',
-    cash: '💵',
-    investment: '📈',
-    crypto: '₿',
-    real_estate: '🏠',
-    other_assets: '📦',
-    liability: '💳',
-  };
-  return icons[type];
-};
+import { CashFlowLedger } from './CashFlowLedger';
+import { LoanDetailsPanel } from './LoanDetailsPanel';
+import { ValuationPanel } from './ValuationPanel';
+import { HoldingsPanel } from './HoldingsPanel';
+import { AccountSharingPanel } from './AccountSharingPanel';
+import { BalanceHistoryEditor } from './BalanceHistoryEditor';
+import { MonthlyCheckIn } from './MonthlyCheckIn';
+import { OwnershipFilterToggle } from './OwnershipFilterToggle';
+import { useAuth } from '../context/AuthContext';
+import { canDeleteAccount, canEditAccount, getFilterShare } from '../utils/households';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { getAccountIcon, getAccountTypeLabel, isAmortizingType, isHoldingsType, isValuedType } from '../utils/accountTypes';
 
 // --- Helper function moved from Analytics.tsx ---
 const calculatePercentageChange = (oldValue: number, newValue: number): number => {
@@ -35,16 +24,6 @@ const calculatePercentageChange = (oldValue: number, newValue: number): number =
   return ((newValue - oldValue) / Math.abs(oldValue)) * 100;
 };
 
-// Helper to format currency
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0, 
-    maximumFractionDigits: 2, // Keep cents for account list
-  }).format(value);
-};
-
 // Add this helper function near the top with other helpers
 const highlightMatch = (text: string, query: string) => {
   if (!query) return text;
@@ -57,9 +36,21 @@ const highlightMatch = (text: string, query: string) => {
 };
 
 export function AccountList() {
-  const { state, deleteAccount, addBalanceEntry, loading: contextLoading, error: contextError } = useNetWorth();
+  const {
+    state,
+    visibleAccounts,
+    household,
+    householdRole,
+    ownershipFilter,
+    deleteAccount,
+    addBalanceEntry,
+    loading: contextLoading,
+    error: contextError,
+  } = useNetWorth();
+  const { user } = useAuth();
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isCheckInOpen, setIsCheckInOpen] = useState(false);
   const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
@@ -71,6 +62,8 @@ export function AccountList() {
   // State for inline editing
   const [editingBalanceAccountId, setEditingBalanceAccountId] = useState<string | null>(null);
   const [inlineBalanceValue, setInlineBalanceValue] = useState<string>('');
+  // Optional signed contribution (+) or withdrawal (-) saved with the balance
+  const [inlineFlowValue, setInlineFlowValue] = useState<string>('');
 
   // Add this state for managing dropdown visibility
   const [isSearchFocused, setIsSearchFocused] = useState(false);
@@ -96,10 +89,22 @@ export function AccountList() {
     }
   };
 
+  // Listed accounts may be scaled to an ownership share; editing works on the whole account
+  const getFullAccount = (account: Account) => state.accounts.find(acc => acc.id === account.id) || account;
+
+  const isEditable = (account: Account) => !user || canEditAccount(account, user.id, householdRole);
+
+  // Badge for accounts shared with the household, with the share counted by the current filter
+  const getSharingLabel = (account: Account): string | null => {
+    if (!account.householdId || !user) return null;
+    const share = getFilterShare(account, user.id, ownershipFilter);
+    return share < 1 ? `Shared · ${Math.round(share * 100)}%` : 'Shared';
+  };
+
   const handleEdit = (account: Account) => {
     // Cancel inline editing if trying to open full form
     setEditingBalanceAccountId(null);
-    setSelectedAccount(account);
+    setSelectedAccount(getFullAccount(account));
     setIsFormOpen(true);
   };
 
@@ -110,6 +115,11 @@ export function AccountList() {
     setIsFormOpen(true);
   };
 
+  // The modal keeps a copy of the account; read ledger and history from live state
+  const liveSelectedAccount = selectedAccount
+    ? state.accounts.find(acc => acc.id === selectedAccount.id) || selectedAccount
+    : null;
+
   const closeForm = () => {
     setIsFormOpen(false);
     setSelectedAccount(null);
@@ -117,10 +127,12 @@ export function AccountList() {
 
   // --- Inline Balance Edit Functions ---
   const startInlineEdit = (account: Account) => {
+    if (!isEditable(account)) return;
     // Cancel other inline edits first
     setEditingBalanceAccountId(account.id);
     // Set initial input value without currency symbols/commas
-    setInlineBalanceValue(String(getCurrentBalance(account) || 0)); 
+    setInlineBalanceValue(String(getCurrentBalance(getFullAccount(account)) || 0)); 
+    setInlineFlowValue('');
     // Close full form if open
     setIsFormOpen(false);
     setSelectedAccount(null);
@@ -129,6 +141,7 @@ export function AccountList() {
   const handleCancelInlineEdit = () => {
     setEditingBalanceAccountId(null);
     setInlineBalanceValue('');
+    setInlineFlowValue('');
   };
 
   const handleSaveInlineBalance = async () => {
@@ -141,8 +154,17 @@ export function AccountList() {
       return;
     }
 
+    const flowAmount = inlineFlowValue.trim() === '' ? 0 : parseFloat(inlineFlowValue);
+    if (isNaN(flowAmount)) {
+      console.error("Invalid contribution value");
+      return;
+    }
+    const cashFlow = flowAmount !== 0
+      ? { amount: flowAmount, kind: flowAmount > 0 ? 'contribution' as const : 'withdrawal' as const }
+      : undefined;
+
     try {
-      await addBalanceEntry(editingBalanceAccountId, newBalance, new Date().toISOString());
+      await addBalanceEntry(editingBalanceAccountId, newBalance, new Date().toISOString(), cashFlow);
       handleCancelInlineEdit(); // Close editor on success
     } catch (err) {
       console.error("Failed to add balance entry:", err);
@@ -154,7 +176,7 @@ export function AccountList() {
     const uniqueCategories = new Set<string>();
     const uniqueTypes = new Set<AccountType>();
     
-    state.accounts.forEach(account => {
+    visibleAccounts.forEach(account => {
       if (account.category) uniqueCategories.add(account.category);
       uniqueTypes.add(account.type);
     });
@@ -163,10 +185,10 @@ export function AccountList() {
       categories: Array.from(uniqueCategories).sort(),
       accountTypes: Array.from(uniqueTypes).sort(),
     };
-  }, [state.accounts]);
+  }, [visibleAccounts]);
 
   const filteredAccounts = useMemo(() => {
-    return state.accounts
+    return visibleAccounts
       .filter((account: Account) => {
         const searchTerms = searchQuery.toLowerCase().split(' ');
         const institutionMatch = searchTerms.every(term => 
@@ -189,8 +211,8 @@ export function AccountList() {
           case 'institution':
             return a.institution.localeCompare(b.institution);
           case 'name': {
-            const nameA = a.name || formatAccountType(a.type);
-            const nameB = b.name || formatAccountType(b.type);
+            const nameA = a.name || getAccountTypeLabel(a.type);
+            const nameB = b.name || getAccountTypeLabel(b.type);
             return nameA.localeCompare(nameB);
           }
           case 'category': {
@@ -222,11 +244,11 @@ export function AccountList() {
             return a.institution.localeCompare(b.institution);
         }
       });
-  }, [state.accounts, searchQuery, selectedCategories, selectedTypes, sortBy]);
+  }, [visibleAccounts, searchQuery, selectedCategories, selectedTypes, sortBy]);
 
   // --- Account Performance Calculation (Moved from Analytics.tsx) ---
   const accountPerformance = useMemo(() => {
-    return state.accounts.map(account => {
+    return visibleAccounts.map(account => {
       if (!account.balanceHistory || account.balanceHistory.length === 0) return null;
       
       const sortedHistory = [...account.balanceHistory].sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
@@ -251,7 +273,7 @@ export function AccountList() {
         hasEnoughData: true
       };
     }).filter(Boolean);
-  }, [state.accounts]);
+  }, [visibleAccounts]);
 
   // Add this function to handle search result selection
   const handleSearchResultClick = (account: Account) => {
@@ -262,23 +284,31 @@ export function AccountList() {
   // Add searchResults computation
   const searchResults = useMemo(() => {
     if (!searchQuery || !isSearchFocused) return [];
-    return state.accounts
+    return visibleAccounts
       .filter(account => {
         const institutionMatch = account.institution.toLowerCase().includes(searchQuery.toLowerCase());
         const nameMatch = account.name?.toLowerCase().includes(searchQuery.toLowerCase());
         return institutionMatch || nameMatch;
       })
       .slice(0, 5); // Limit to 5 results
-  }, [state.accounts, searchQuery, isSearchFocused]);
+  }, [visibleAccounts, searchQuery, isSearchFocused]);
 
   return (
     <div className="space-y-6">
       {/* Header Section */}
       <div className="flex flex-wrap justify-between items-center">
         <h2 className="text-2xl font-semibold text-gray-800 dark:text-gray-100">Accounts</h2>
-        <button onClick={handleAddNew} className="btn-primary">
-          + Add Account
-        </button>
+        <div className="flex items-center gap-3">
+          <OwnershipFilterToggle />
+          {state.accounts.length > 0 && (
+            <button onClick={() => setIsCheckInOpen(true)} className="btn-secondary">
+              Monthly Check-in
+            </button>
+          )}
+          <button onClick={handleAddNew} className="btn-primary">
+            + Add Account
+          </button>
+        </div>
       </div>
 
       {/* Search, Sort and Filter Section */}
@@ -390,7 +420,7 @@ export function AccountList() {
                       : 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-200 hover:bg-blue-100 dark:hover:bg-blue-800/30'
                   }`}
                 >
-                  {formatAccountType(type)}
+                  {getAccountTypeLabel(type)}
                   {selectedTypes.includes(type) && (
                     <span className="ml-1 opacity-75">×</span>
                   )}
@@ -450,8 +480,13 @@ export function AccountList() {
                                   </span>
                                 )}
                                 <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                                  {formatAccountType(account.type)}
+                                  {getAccountTypeLabel(account.type)}
                                 </span>
+                                {getSharingLabel(account) && (
+                                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                                    {getSharingLabel(account)}
+                                  </span>
+                                )}
                                 {account.tags && account.tags.length > 0 && account.tags.map(tag => (
                                   <span key={tag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
                                     {tag}
@@ -484,13 +519,22 @@ export function AccountList() {
                                 className="input input-sm w-32 text-right"
                                 autoFocus
                               />
+                              <input
+                                type="number"
+                                value={inlineFlowValue}
+                                onChange={(e) => setInlineFlowValue(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleSaveInlineBalance(); if (e.key === 'Escape') handleCancelInlineEdit(); }}
+                                className="input input-sm w-24 text-right"
+                                placeholder="+/- flow"
+                                title="Contribution (+) or withdrawal (-) since the last update"
+                              />
                               <button onClick={handleSaveInlineBalance} className="text-green-600 hover:text-green-800" aria-label="Save Balance">✓</button>
                               <button onClick={handleCancelInlineEdit} className="text-red-600 hover:text-red-800" aria-label="Cancel Edit">✗</button>
                             </div>
                           ) : (
                             <div onClick={() => startInlineEdit(account)} className="cursor-pointer group">
                               <div className="text-sm font-semibold text-gray-900 dark:text-gray-100 group-hover:text-primary-600">
-                                {formatCurrency(currentBalance)}
+                                {formatCurrency(currentBalance, getAccountCurrency(account), 2)}
                                 <span className="ml-1 opacity-0 group-hover:opacity-100 transition-opacity">✏️</span>
                                </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">as of {balanceDate}</div>
@@ -498,7 +542,9 @@ export function AccountList() {
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                          <button onClick={() => handleEdit(account)} className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400">Update</button>
+                          {isEditable(account) && (
+                            <button onClick={() => handleEdit(account)} className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400">Update</button>
+                          )}
                         </td>
                       </tr>
                     );
@@ -527,11 +573,13 @@ export function AccountList() {
                           <p className="text-sm text-gray-500 dark:text-gray-400">{account.name || account.type}</p>
                         </div>
                       </div>
-                      <div className="flex space-x-2">
-                        <button onClick={() => handleEdit(account)} className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400">
-                          Update
-                        </button>
-                      </div>
+                      {isEditable(account) && (
+                        <div className="flex space-x-2">
+                          <button onClick={() => handleEdit(account)} className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400">
+                            Update
+                          </button>
+                        </div>
+                      )}
                     </div>
 
                     {/* Tags */}
@@ -542,8 +590,13 @@ export function AccountList() {
                         </span>
                       )}
                       <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                        {formatAccountType(account.type)}
+                        {getAccountTypeLabel(account.type)}
                       </span>
+                      {getSharingLabel(account) && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                          {getSharingLabel(account)}
+                        </span>
+                      )}
                       {account.tags && account.tags.length > 0 && account.tags.map(tag => (
                         <span key={tag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
                           {tag}
@@ -580,13 +633,22 @@ export function AccountList() {
                               className="input input-sm w-32 text-right"
                               autoFocus
                             />
+                            <input
+                              type="number"
+                              value={inlineFlowValue}
+                              onChange={(e) => setInlineFlowValue(e.target.value)}
+                              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveInlineBalance(); if (e.key === 'Escape') handleCancelInlineEdit(); }}
+                              className="input input-sm w-24 text-right"
+                              placeholder="+/- flow"
+                              title="Contribution (+) or withdrawal (-) since the last update"
+                            />
                             <button onClick={handleSaveInlineBalance} className="text-green-600 hover:text-green-800" aria-label="Save Balance">✓</button>
                             <button onClick={handleCancelInlineEdit} className="text-red-600 hover:text-red-800" aria-label="Cancel Edit">✗</button>
                           </div>
                         ) : (
                           <div onClick={() => startInlineEdit(account)} className="cursor-pointer group">
                             <div className="text-lg font-semibold text-gray-900 dark:text-gray-100 group-hover:text-primary-600">
-                              {formatCurrency(currentBalance)}
+                              {formatCurrency(currentBalance, getAccountCurrency(account), 2)}
                               <span className="ml-1 opacity-0 group-hover:opacity-100 transition-opacity">✏️</span>
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">as of {balanceDate}</div>
@@ -621,15 +683,32 @@ export function AccountList() {
             {/* Content - Scrollable Area */}
             <div className="flex-1 overflow-y-auto p-4 sm:p-6">
               <AccountForm account={selectedAccount || undefined} onClose={closeForm} />
-              {selectedAccount && (
+              {liveSelectedAccount && (
                 <>
-                  <AccountProgression account={selectedAccount} />
+                  {isEditable(liveSelectedAccount) ? (
+                    <BalanceHistoryEditor key={`history-${liveSelectedAccount.id}`} account={liveSelectedAccount} />
+                  ) : (
+                    <AccountProgression account={liveSelectedAccount} />
+                  )}
+                  {isAmortizingType(liveSelectedAccount.type) && (
+                    <LoanDetailsPanel key={liveSelectedAccount.id} account={liveSelectedAccount} />
+                  )}
+                  {isValuedType(liveSelectedAccount.type) && (
+                    <ValuationPanel key={liveSelectedAccount.id} account={liveSelectedAccount} />
+                  )}
+                  {isHoldingsType(liveSelectedAccount.type) && (
+                    <HoldingsPanel key={liveSelectedAccount.id} account={liveSelectedAccount} />
+                  )}
+                  <CashFlowLedger account={liveSelectedAccount} />
+                  {household.household && user && canDeleteAccount(liveSelectedAccount, user.id) && (
+                    <AccountSharingPanel key={`sharing-${liveSelectedAccount.id}`} account={liveSelectedAccount} />
+                  )}
                 </>
               )}
             </div>
 
             {/* Footer */}
-            {selectedAccount && (
+            {selectedAccount && (!user || canDeleteAccount(selectedAccount, user.id)) && (
               <div className="border-t border-gray-200 dark:border-gray-700 p-4 sm:p-6">
                 <button
                   onClick={() => handleDelete(selectedAccount)}
@@ -643,6 +722,25 @@ export function AccountList() {
         </div>
       )}
 
+      {isCheckInOpen && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-start sm:items-center justify-center p-0 z-50 overflow-y-auto">
+          <div className="bg-white dark:bg-gray-800 rounded-none sm:rounded-xl shadow-xl w-full sm:max-w-2xl min-h-screen sm:min-h-0 sm:m-4 flex flex-col">
+            <div className="flex justify-between items-center p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Monthly Check-in</h3>
+              <button
+                onClick={() => setIsCheckInOpen(false)}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl"
+              >
+                &times;
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 sm:p-6">
+              <MonthlyCheckIn onClose={() => setIsCheckInOpen(false)} />
+            </div>
+          </div>
+        </div>
+      )}
+
       {accountToDelete && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-sm w-full">
@@ -1,6 +1,11 @@
 // import React from 'react'; // Removed
 import { Account, BalanceEntry } from '../types';
 import { format, parseISO } from 'date-fns';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { calculateAccountPerformance } from '../utils/returns';
+import { getAccountCashFlows } from '../utils/cashFlows';
+import { isLiabilityAccount } from '../utils/netWorthSeries';
+import { compareWithSchedule } from '../utils/amortization';
 import {
   ResponsiveContainer,
   LineChart,
@@ -16,25 +21,28 @@ interface AccountProgressionProps {
   account: Account;
 }
 
-// Helper to format currency
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
 export function AccountProgression({ account }: AccountProgressionProps) {
-  // Prepare data for the chart
-  const chartData = account.balanceHistory
+  const currency = getAccountCurrency(account);
+
+  // Prepare data for the chart (copy first: balanceHistory belongs to context state)
+  const chartData = [...account.balanceHistory]
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .map((entry: BalanceEntry) => ({
       date: format(parseISO(entry.date), 'MMM d, yyyy'),
       balance: entry.balance,
+      estimated: !!entry.estimated,
+      scheduled: undefined as number | undefined,
     }));
 
+  // Loans: overlay the balance the amortization schedule expected on each entry date
+  if (account.loanDetails) {
+    compareWithSchedule(account, account.loanDetails).forEach((comparison, index) => {
+      chartData[index].scheduled = comparison.expected;
+    });
+  }
+
+  const performance = calculateAccountPerformance(account, getAccountCashFlows(account));
+
   if (chartData.length < 2) {
     return (
       <div className="text-center py-4 text-gray-500">
@@ -60,26 +68,73 @@ export function AccountProgression({ account }: AccountProgressionProps) {
               height={60}
             />
             <YAxis
-              tickFormatter={(value) => formatCurrency(value)}
+              tickFormatter={(value) => formatCurrency(value, currency)}
               tick={{ fontSize: 12 }}
             />
             <Tooltip
-              formatter={(value: number) => formatCurrency(value)}
-              labelFormatter={(label) => `Date: ${label}`}
+              formatter={(value: number) => formatCurrency(value, currency)}
+              labelFormatter={(label, payload) =>
+                payload?.[0]?.payload?.estimated ? `Date: ${label} (estimated)` : `Date: ${label}`
+              }
             />
             <Legend />
             <Line
               type="monotone"
               dataKey="balance"
               name="Balance"
-              stroke={account.type === 'liability' ? '#ef4444' : '#10b981'}
+              stroke={isLiabilityAccount(account) ? '#ef4444' : '#10b981'}
               strokeWidth={2}
               dot={{ r: 4 }}
               activeDot={{ r: 6 }}
             />
+            {account.loanDetails && (
+              <Line
+                type="monotone"
+                dataKey="scheduled"
+                name="Scheduled"
+                stroke="#6b7280"
+                strokeDasharray="5 5"
+                strokeWidth={2}
+                dot={false}
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
       </div>
+      {performance && (
+        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div title="Growth excluding contributions and withdrawals">
+            <div className="text-gray-500 dark:text-gray-400">Time-weighted</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">{performance.timeWeightedReturn.toFixed(1)}%</div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Annualized</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">{performance.annualizedReturn.toFixed(1)}%</div>
+          </div>
+          <div title="Money-weighted return (XIRR)">
+            <div className="text-gray-500 dark:text-gray-400">Money-weighted</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">
+              {performance.moneyWeightedReturn === null ? 'N/A' : `${performance.moneyWeightedReturn.toFixed(1)}%`}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">CAGR</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">
+              {performance.cagr === null ? 'N/A' : `${performance.cagr.toFixed(1)}%`}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Net contributions</div>
+            <div className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(performance.netContributions, currency)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500 dark:text-gray-400">Market gain</div>
+            <div className={`font-medium ${performance.marketGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(performance.marketGain, currency)}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
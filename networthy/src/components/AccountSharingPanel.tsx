@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import { Account } from '../types';
+import { getMemberLabel, validateOwnership } from '../utils/households';
+
+interface AccountSharingPanelProps {
+  account: Account;
+}
+
+// Percent per member as typed; members left empty hold no share
+type ShareForm = Record<string, string>;
+
+const getInitialShares = (account: Account): ShareForm =>
+  Object.fromEntries((account.ownership || []).map(share => [share.userId, String(share.share)]));
+
+export function AccountSharingPanel({ account }: AccountSharingPanelProps) {
+  const { user } = useAuth();
+  const { household, updateAccountSharing } = useNetWorth();
+
+  const [shared, setShared] = useState(!!account.householdId);
+  const [joint, setJoint] = useState((account.ownership || []).length > 0);
+  const [shares, setShares] = useState<ShareForm>(() => getInitialShares(account));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const currentHousehold = household.household;
+  if (!currentHousehold || !user) return null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const ownership = shared && joint
+      ? household.members
+          .map(member => ({ userId: member.userId, share: parseFloat(shares[member.userId] || '') }))
+          .filter(share => !isNaN(share.share) && share.share !== 0)
+      : [];
+    const validationError = validateOwnership(ownership);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateAccountSharing(account.id, shared ? currentHousehold.id : null, ownership);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to update sharing.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const splitEvenly = () => {
+    const even = Number((100 / household.members.length).toFixed(2));
+    setShares(Object.fromEntries(household.members.map(member => [member.userId, String(even)])));
+  };
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Sharing</h4>
+      <form onSubmit={handleSave} className="space-y-3 text-sm">
+        <div className="flex gap-4">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input type="radio" checked={!shared} onChange={() => setShared(false)} />
+            Personal
+          </label>
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input type="radio" checked={shared} onChange={() => setShared(true)} />
+            Shared with {currentHousehold.name}
+          </label>
+        </div>
+
+        {shared && (
+          <>
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={joint} onChange={(e) => setJoint(e.target.checked)} />
+              Jointly owned
+            </label>
+            {joint ? (
+              <div className="space-y-2">
+                {household.members.map(member => (
+                  <div key={member.userId} className="flex items-center justify-between gap-2">
+                    <label htmlFor={`share-${member.userId}`} className="text-gray-700 dark:text-gray-300 truncate">
+                      {getMemberLabel(household.members, member.userId, user.id)}
+                    </label>
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        id={`share-${member.userId}`}
+                        value={shares[member.userId] || ''}
+                        onChange={(e) => setShares({ ...shares, [member.userId]: e.target.value })}
+                        className="input py-1.5 text-sm w-24 text-right"
+                        step="0.01"
+                        min="0"
+                        max="100"
+                      />
+                      <span className="text-gray-500 dark:text-gray-400">%</span>
+                    </div>
+                  </div>
+                ))}
+                <button type="button" onClick={splitEvenly} className="text-primary-600 hover:text-primary-800 text-xs">
+                  Split evenly
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Visible to the household and counted entirely as yours.
+              </p>
+            )}
+          </>
+        )}
+
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+        <div className="flex justify-end">
+          <button type="submit" className="btn-primary btn-xs" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Sharing'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
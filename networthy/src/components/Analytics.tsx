@@ -1,231 +1,227 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
 import { format, parseISO } from 'date-fns';
+import { Goal } from '../types/Goal';
+import { GoalForm } from './GoalForm';
+import { GoalPathChart } from './GoalPathChart';
+import { calculateNetWorth } from '../utils/netWorthSeries';
+import {
+  GoalStatus,
+  buildGoalPath,
+  calculateGoalPace,
+  describeGoalScope,
+  filterGoalAccounts,
+  getNextMilestone,
+  getProjectionSlipDays,
+  projectDateForAmount,
+  projectGoal,
+} from '../utils/goals';
 
-// Helper to format currency
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
+const STATUS_STYLES: Record<GoalStatus, { label: string; className: string }> = {
+  reached: { label: 'Reached', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  behind: { label: 'Behind', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
 };
 
-// Interface for the goal data used in the form/display
-interface GoalFormData {
-  target_amount: number;
-  target_date: string;
-}
-
 export function Analytics() {
-  const { 
-      state, 
-      setUserGoal, 
-      deleteUserGoal, 
-  } = useNetWorth();
-  
-  const [showGoalForm, setShowGoalForm] = useState(false);
-  const [goalFormData, setGoalFormData] = useState<GoalFormData>({ target_amount: 0, target_date: format(new Date(), 'yyyy-MM-dd') });
-  const [goalFormError, setGoalFormError] = useState<string | null>(null);
-  const [isGoalSubmitting, setIsGoalSubmitting] = useState(false);
+  const { state, visibleAccounts, deleteGoal } = useNetWorth();
+  const { convert, formatCurrency } = useCurrency();
 
-  useEffect(() => {
-    if (state.userGoal) {
-      setGoalFormData({
-        target_amount: state.userGoal.target_amount,
-        target_date: state.userGoal.target_date,
-      });
-    } else {
-        setGoalFormData({ target_amount: 0, target_date: format(new Date(), 'yyyy-MM-dd') });
-    }
-  }, [state.userGoal]);
+  const [showGoalForm, setShowGoalForm] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [deletingGoalId, setDeletingGoalId] = useState<string | null>(null);
 
-  // Calculate current amount for goal display (using latest snapshot)
-  const currentGoalAmount = useMemo(() => {
-      return state.snapshots.length > 0 ? state.snapshots[state.snapshots.length - 1].netWorth : 0;
-  }, [state.snapshots]);
+  // Live totals per goal (the same calculation as useNetWorthCalculations, limited
+  // to the goal's scope), plus projection, pace and the required-vs-actual path
+  const goalProjections = useMemo(() => {
+    return state.goals.map(goal => {
+      const scopedAccounts = filterGoalAccounts(visibleAccounts, goal.scope);
+      const currentAmount = calculateNetWorth(scopedAccounts, convert).netWorth;
+      const pace = calculateGoalPace(goal, visibleAccounts, currentAmount, convert);
+      return {
+        goal,
+        projection: projectGoal(goal, visibleAccounts, currentAmount, convert),
+        pace,
+        path: buildGoalPath(goal, visibleAccounts, pace, currentAmount, convert),
+      };
+    });
+  }, [state.goals, visibleAccounts, convert]);
 
   // --- Goal Form Handlers ---
-  const handleOpenGoalForm = () => {
-      if (state.userGoal) {
-          setGoalFormData({
-              target_amount: state.userGoal.target_amount,
-              target_date: state.userGoal.target_date,
-          });
-      } else {
-           setGoalFormData({ target_amount: 0, target_date: format(new Date(), 'yyyy-MM-dd') });
-      }
-      setGoalFormError(null);
-      setShowGoalForm(true);
+  const handleOpenGoalForm = (goal: Goal | null) => {
+    setEditingGoal(goal);
+    setShowGoalForm(true);
   };
 
-  const handleGoalFormSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setGoalFormError(null);
-    setIsGoalSubmitting(true);
+  const handleCloseGoalForm = () => {
+    setShowGoalForm(false);
+    setEditingGoal(null);
+  };
 
-    if (goalFormData.target_amount <= 0) {
-        setGoalFormError("Target amount must be greater than zero.");
-        setIsGoalSubmitting(false);
-        return;
-    }
+  const handleDeleteGoal = async (goal: Goal) => {
+    if (!confirm(`Are you sure you want to delete "${goal.name}"?`)) return;
 
+    setDeletingGoalId(goal.id);
     try {
-      await setUserGoal(goalFormData);
-      setShowGoalForm(false);
-    } catch (err: any) {
-      console.error("Error setting goal:", err);
-      setGoalFormError(err?.message || "Failed to save goal. Please try again.");
+      await deleteGoal(goal.id);
+    } catch (err) {
+      console.error("Error deleting goal:", err);
+      alert(`Failed to delete goal: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
-      setIsGoalSubmitting(false);
+      setDeletingGoalId(null);
     }
   };
-  
-  const handleDeleteGoal = async () => {
-      if (!confirm("Are you sure you want to delete your goal?")) return;
-      
-      setIsGoalSubmitting(true);
-      setGoalFormError(null);
-      try {
-          await deleteUserGoal();
-          setShowGoalForm(false);
-      } catch (err: any) { 
-           console.error("Error deleting goal:", err);
-           alert(`Failed to delete goal: ${err?.message}`);
-           setGoalFormError(err?.message || "Failed to delete goal.");
-      } finally {
-          setIsGoalSubmitting(false);
-      }
-  };
 
   return (
     <div className="space-y-8">
-      {/* Account Performance */}
-      {/* ... (Account performance table remains the same) ... */}
-
-      {/* --- Goal Tracking (Uses context state.userGoal) --- */}
+      {/* --- Goal Tracking --- */}
       <div className="card">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Goal Tracking</h3>
-           <div className="flex items-center gap-2">
-               {state.userGoal && (
-                   <button
-                     onClick={handleDeleteGoal}
-                     className="btn-danger-outline btn-xs"
-                     disabled={isGoalSubmitting}
-                   >
-                     Delete Goal
-                   </button>
-               )}
-               <button
-                 onClick={handleOpenGoalForm}
-                 className="btn-secondary text-sm"
-                 disabled={isGoalSubmitting}
-               >
-                 {state.userGoal ? 'Edit Goal' : 'Set Goal'}
-               </button>
-           </div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Goals</h3>
+          <button onClick={() => handleOpenGoalForm(null)} className="btn-secondary text-sm">
+            Add Goal
+          </button>
         </div>
-        {state.userGoal ? (
-          <div className="space-y-4">
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600 dark:text-gray-400">Target Amount</span>
-              <span className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(state.userGoal.target_amount)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600 dark:text-gray-400">Target Date</span>
-              <span className="font-medium text-gray-900 dark:text-gray-100">{format(parseISO(state.userGoal.target_date), 'MMM d, yyyy')}</span>
-            </div>
-            <div className="w-full bg-gray-200 rounded-full h-2.5">
-              <div
-                className="bg-primary-500 h-2.5 rounded-full"
-                style={{
-                   width: `${Math.min(100, (currentGoalAmount / state.userGoal.target_amount) * 100)}%` 
-                }}
-              ></div>
-            </div>
-            <div className="text-sm text-gray-600 dark:text-gray-400">
-              {formatCurrency(currentGoalAmount)} of {formatCurrency(state.userGoal.target_amount)} 
-              ({state.userGoal.target_amount > 0 ? ((currentGoalAmount / state.userGoal.target_amount) * 100).toFixed(1) : 0}%)
-            </div>
-          </div>
+        {goalProjections.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-sm">Add a goal to track your progress</p>
         ) : (
-          <p className="text-gray-500 dark:text-gray-400 text-sm">Set a goal to track your progress</p>
+          <div className="space-y-6">
+            {goalProjections.map(({ goal, projection, pace, path }) => {
+              const slipDays = getProjectionSlipDays(goal, projection.projectedDate);
+              const nextMilestone = getNextMilestone(goal.milestones, projection.currentAmount);
+              return (
+                <div key={goal.id} className="space-y-3 border-b dark:border-gray-700 pb-6 last:border-b-0 last:pb-0">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-gray-100">
+                        {goal.name}
+                        <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[pace.status].className}`}>
+                          {STATUS_STYLES[pace.status].label}
+                        </span>
+                      </h4>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{describeGoalScope(goal.scope, visibleAccounts)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleDeleteGoal(goal)}
+                        className="btn-danger-outline btn-xs"
+                        disabled={deletingGoalId === goal.id}
+                      >
+                        Delete
+                      </button>
+                      <button onClick={() => handleOpenGoalForm(goal)} className="btn-secondary btn-xs">
+                        Edit
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Progress bar with milestone markers */}
+                  <div className="relative w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
+                    <div
+                      className="bg-primary-500 h-2.5 rounded-full"
+                      style={{ width: `${projection.progress * 100}%` }}
+                    ></div>
+                    {goal.milestones.map(milestone => (
+                      <div
+                        key={milestone.id}
+                        className={`absolute top-0 h-2.5 w-0.5 ${milestone.amount <= projection.currentAmount ? 'bg-white' : 'bg-gray-500'}`}
+                        style={{ left: `${Math.min(100, (milestone.amount / goal.targetAmount) * 100)}%` }}
+                        title={`${milestone.name}: ${formatCurrency(milestone.amount)}`}
+                      ></div>
+                    ))}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {formatCurrency(projection.currentAmount)} of {formatCurrency(goal.targetAmount)} ({(projection.progress * 100).toFixed(1)}%)
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <div className="text-gray-500 dark:text-gray-400">Target date</div>
+                      <div className="font-medium text-gray-900 dark:text-gray-100">{format(parseISO(goal.targetDate), 'MMM d, yyyy')}</div>
+                    </div>
+                    <div title="Based on the average monthly change over the last 12 months">
+                      <div className="text-gray-500 dark:text-gray-400">Projected</div>
+                      <div className={`font-medium ${
+                        projection.reached || (slipDays !== null && slipDays <= 0) ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {projection.reached
+                          ? 'Reached'
+                          : projection.projectedDate
+                            ? format(projection.projectedDate, 'MMM d, yyyy')
+                            : 'Not at current rate'}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div title="Monthly increase needed from today to reach the target on the target date">
+                      <div className="text-gray-500 dark:text-gray-400">Required / month</div>
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {pace.requiredMonthly === null ? '—' : formatCurrency(pace.requiredMonthly)}
+                      </div>
+                    </div>
+                    <div title={`Average monthly change since ${format(pace.startDate, 'MMM d, yyyy')}`}>
+                      <div className="text-gray-500 dark:text-gray-400">Pace so far / month</div>
+                      <div className={`font-medium ${
+                        pace.actualMonthly === null ? 'text-gray-900 dark:text-gray-100'
+                          : pace.requiredMonthly !== null && pace.actualMonthly < pace.requiredMonthly ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {pace.actualMonthly === null ? 'N/A' : formatCurrency(pace.actualMonthly)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <GoalPathChart data={path} />
+
+                  {goal.milestones.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {goal.milestones.map(milestone => {
+                        const reached = milestone.amount <= projection.currentAmount;
+                        const milestoneDate = reached
+                          ? null
+                          : projectDateForAmount(milestone.amount, projection.currentAmount, projection.monthlyGrowth);
+                        return (
+                          <li key={milestone.id} className="flex justify-between">
+                            <span className={reached ? 'text-green-600' : 'text-gray-700 dark:text-gray-300'}>
+                              {reached ? '✓ ' : ''}{milestone.name} ({formatCurrency(milestone.amount)})
+                              {milestone.id === nextMilestone?.id && <span className="ml-1 text-xs text-primary-600">next</span>}
+                            </span>
+                            <span className="text-gray-500 dark:text-gray-400">
+                              {reached ? 'Reached' : milestoneDate ? format(milestoneDate, 'MMM yyyy') : '—'}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         )}
       </div>
 
-      {/* Goal Setting Modal (Uses goalFormData) */}
+      {/* Goal Modal */}
       {showGoalForm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-md w-full m-4">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-md w-full m-4 max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                {state.userGoal ? 'Edit Net Worth Goal' : 'Set Net Worth Goal'}
+                {editingGoal ? 'Edit Goal' : 'Add Goal'}
               </h3>
               <button
-                onClick={() => setShowGoalForm(false)}
+                onClick={handleCloseGoalForm}
                 className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl"
-                disabled={isGoalSubmitting}
               >
                 &times;
               </button>
             </div>
-            <form className="space-y-4" onSubmit={handleGoalFormSubmit}>
-              <div>
-                <label htmlFor="targetAmount" className="block text-sm font-medium text-gray-700">
-                  Target Amount
-                </label>
-                <input
-                  type="number"
-                  id="targetAmount"
-                  value={goalFormData.target_amount > 0 ? goalFormData.target_amount : ''} 
-                  onChange={(e) => setGoalFormData({ ...goalFormData, target_amount: parseFloat(e.target.value) || 0 })}
-                  className="input mt-1 w-full"
-                  required
-                  min="1"
-                  disabled={isGoalSubmitting}
-                />
-              </div>
-              <div>
-                <label htmlFor="targetDate" className="block text-sm font-medium text-gray-700">
-                  Target Date
-                </label>
-                <input
-                  type="date"
-                  id="targetDate"
-                  value={goalFormData.target_date}
-                  onChange={(e) => setGoalFormData({ ...goalFormData, target_date: e.target.value })}
-                  className="input mt-1 w-full"
-                  required
-                  min={format(new Date(), 'yyyy-MM-dd')} 
-                  disabled={isGoalSubmitting}
-                />
-              </div>
-              {goalFormError && (
-                  <p className="text-sm text-red-600">Error: {goalFormError}</p>
-              )}
-              <div className="flex justify-end space-x-3 pt-2">
-                <button
-                  type="button"
-                  onClick={() => setShowGoalForm(false)}
-                  className="btn-secondary"
-                  disabled={isGoalSubmitting}
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="btn-primary"
-                  disabled={isGoalSubmitting}
-                >
-                  {isGoalSubmitting ? 'Saving...' : (state.userGoal ? 'Update Goal' : 'Set Goal')}
-                </button>
-              </div>
-            </form>
+            <GoalForm goal={editingGoal || undefined} onClose={handleCloseGoalForm} />
           </div>
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
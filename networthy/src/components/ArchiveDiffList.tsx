@@ -0,0 +1,32 @@
+import { ARCHIVE_SECTIONS, ArchiveDiff } from '../utils/dataArchive';
+
+interface ArchiveDiffListProps {
+  diff: ArchiveDiff;
+}
+
+const MAX_LISTED = 5;
+
+const listNames = (names: string[]): string =>
+  names.length > MAX_LISTED ? `${names.slice(0, MAX_LISTED).join(', ')} and ${names.length - MAX_LISTED} more` : names.join(', ');
+
+// Per-section summary of what an import or restore would change
+export function ArchiveDiffList({ diff }: ArchiveDiffListProps) {
+  return (
+    <ul className="space-y-2">
+      {ARCHIVE_SECTIONS.map(section => {
+        const sectionDiff = diff[section.key];
+        return (
+          <li key={section.key}>
+            <div className="font-medium text-gray-900 dark:text-gray-100">
+              {section.label}: {sectionDiff.added.length} added, {sectionDiff.updated.length} updated,{' '}
+              {sectionDiff.removed.length} removed, {sectionDiff.unchanged} unchanged
+            </div>
+            {sectionDiff.added.length > 0 && <div className="text-green-700 dark:text-green-300">+ {listNames(sectionDiff.added)}</div>}
+            {sectionDiff.updated.length > 0 && <div className="text-yellow-700 dark:text-yellow-300">~ {listNames(sectionDiff.updated)}</div>}
+            {sectionDiff.removed.length > 0 && <div className="text-red-600">− {listNames(sectionDiff.removed)}</div>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -8,6 +8,11 @@ import {
 } from 'recharts';
 import { useNetWorth, useNetWorthCalculations, getCurrentBalance } from '../context/NetWorthContext';
 import { Account } from '../types';
+import { useCurrency } from '../context/useCurrency';
+import { getAccountCurrency } from '../utils/currency';
+import { getAccountTypeLabel } from '../utils/accountTypes';
+import { isLiabilityAccount } from '../utils/netWorthSeries';
+import { valueHoldings } from '../utils/holdings';
 
 // Color generation helper
 const stringToHslColor = (str: string, s: number, l: number): string => {
@@ -19,16 +24,6 @@ const stringToHslColor = (str: string, s: number, l: number): string => {
   return `hsl(${h}, ${s}%, ${l}%)`;
 };
 
-// Format currency helper
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
 // Helper to truncate text with ellipsis
 const truncateText = (text: string, maxLength: number): string => {
   if (text.length <= maxLength) return text;
@@ -140,12 +135,12 @@ const renderCustomizedLabel = (props: any) => {
 };
 
 // Type for the grouping key
-type GroupingKey = 'institution' | 'type' | 'category';
+type GroupingKey = 'institution' | 'type' | 'category' | 'holding';
 
 const AssetAllocationChart = () => {
-  const { state } = useNetWorth();
-  const { accounts } = state;
+  const { visibleAccounts: accounts } = useNetWorth();
   const { totalAssets } = useNetWorthCalculations();
+  const { convert, formatCurrency, prices } = useCurrency();
   const [currentGroupBy, setCurrentGroupBy] = useState<GroupingKey>('institution');
   
   // Add mobile detection
@@ -183,36 +178,49 @@ const AssetAllocationChart = () => {
   const pieChartData = useMemo(() => {
     const dataMap = new Map<string, { name: string; value: number }>();
 
+    const addToGroup = (groupKey: string | undefined, value: number) => {
+      // Use a fallback if the key is missing/empty
+      const key = groupKey || 'Uncategorized';
+
+      const existing = dataMap.get(key);
+      if (existing) {
+        existing.value += value;
+      } else {
+        dataMap.set(key, {
+          name: key,
+          value,
+        });
+      }
+    };
+
     accounts.forEach((account: Account) => {
-      const currentBalance = getCurrentBalance(account);
+      const currentBalance = convert(getCurrentBalance(account), getAccountCurrency(account), new Date());
       // Exclude liabilities and zero/negative balance assets for all views
-      if (account.type === 'liability' || currentBalance <= 0) return;
-      
-      let groupKey: string | undefined;
+      if (isLiabilityAccount(account) || currentBalance <= 0) return;
+
       switch (currentGroupBy) {
         case 'institution':
-          groupKey = account.institution;
+          addToGroup(account.institution, currentBalance);
           break;
         case 'type':
-          // Format the type name for display
-          groupKey = account.type.split('_').map((w: string) => w[0].toUpperCase() + w.slice(1)).join(' ');
+          addToGroup(getAccountTypeLabel(account.type), currentBalance);
           break;
         case 'category':
-          groupKey = account.category;
+          addToGroup(account.category, currentBalance);
           break;
-      }
-      
-      // Use a fallback if the key is missing/empty
-      const key = groupKey || 'Uncategorized'; 
-      
-      const existing = dataMap.get(key);
-      if (existing) {
-        existing.value += currentBalance;
-      } else {
-        dataMap.set(key, {
-          name: key,
-          value: currentBalance,
-        });
+        case 'holding': {
+          // Split the balance by each position's share of the holdings' value;
+          // accounts without holdings show up under their type
+          const valuation = valueHoldings(account.holdings || [], prices);
+          if (valuation.value <= 0) {
+            addToGroup(getAccountTypeLabel(account.type), currentBalance);
+            break;
+          }
+          valuation.positions.forEach(position =>
+            addToGroup(position.holding.symbol, currentBalance * (position.value / valuation.value))
+          );
+          break;
+        }
       }
     });
 
@@ -244,7 +252,7 @@ const AssetAllocationChart = () => {
     }
 
     return mainSegments;
-  }, [accounts, currentGroupBy]);
+  }, [accounts, currentGroupBy, convert, prices]);
 
   // Assign colors using the helper function based on the group name
   const dataWithColors = pieChartData.map((entry) => ({
@@ -263,7 +271,7 @@ const AssetAllocationChart = () => {
       <div className="flex justify-between items-center mb-4 shrink-0">
         <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{chartTitle}</h3> 
         <div className="flex space-x-2">
-          {(['institution', 'type', 'category'] as GroupingKey[]).map((grouping) => (
+          {(['institution', 'type', 'category', 'holding'] as GroupingKey[]).map((grouping) => (
             <button
               key={grouping}
               onClick={() => setCurrentGroupBy(grouping)}
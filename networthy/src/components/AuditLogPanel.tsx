@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import {
+  AUDIT_ACTION_LABELS,
+  AuditEntry,
+  RESTORE_WINDOW_DAYS,
+  describeAuditEntry,
+  getRestoreDaysLeft,
+  getUndoBlocker,
+} from '../utils/auditLog';
+import { getErrorMessage } from '../utils/offlineStore';
+
+// Timeline of account changes with one-click undo, and the deleted accounts
+// that can still be restored
+export function AuditLogPanel() {
+  const { user } = useAuth();
+  const { state, fetchAuditLog, undoAuditEntry } = useNetWorth();
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [accountFilter, setAccountFilter] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await fetchAuditLog());
+    } catch (err) {
+      setError(`Failed to load activity: ${getErrorMessage(err)}`);
+    }
+  }, [fetchAuditLog]);
+
+  // Reload when the accounts change, so the entries for that change show up
+  useEffect(() => {
+    refresh();
+  }, [refresh, state.accounts]);
+
+  const accountOptions = useMemo(() => {
+    const labels = new Map<string, string>();
+    entries.forEach(entry => labels.set(entry.accountId, entry.accountLabel));
+    return Array.from(labels.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const visibleEntries = useMemo(
+    () => (accountFilter ? entries.filter(entry => entry.accountId === accountFilter) : entries),
+    [entries, accountFilter]
+  );
+
+  // The latest deletion of each account that is still gone and can be restored
+  const restorable = useMemo(() => {
+    const seen = new Set<string>();
+    return entries.filter(entry => {
+      if (seen.has(entry.accountId)) return false;
+      seen.add(entry.accountId);
+      return !entry.after && !getUndoBlocker(entry, state.accounts.find(acc => acc.id === entry.accountId), entries);
+    });
+  }, [entries, state.accounts]);
+
+  const handleUndo = async (entry: AuditEntry, success: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await undoAuditEntry(entry, entries);
+      setMessage(success);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsWorking(false);
+      await refresh();
+    }
+  };
+
+  const describeActor = (entry: AuditEntry) => (entry.userId === user?.id ? 'You' : entry.actorEmail || 'A household member');
+
+  return (
+    <div className="space-y-4 text-sm">
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {restorable.length > 0 && (
+        <div>
+          <h5 className="font-medium text-gray-800 dark:text-gray-200 mb-2">Recently Deleted</h5>
+          <ul className="space-y-1 border dark:border-gray-700 rounded-md p-3">
+            {restorable.map(entry => (
+              <li key={entry.id} className="flex justify-between items-center gap-2 py-1 border-b dark:border-gray-700 last:border-b-0">
+                <span className="text-gray-800 dark:text-gray-200">
+                  {entry.accountLabel}
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {' '}· deleted {format(new Date(entry.createdAt), 'MMM d')} · {getRestoreDaysLeft(entry.createdAt)} days left
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleUndo(entry, `${entry.accountLabel} restored.`)}
+                  className="btn-secondary btn-xs shrink-0"
+                  disabled={isWorking}
+                >
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-gray-600 dark:text-gray-400">
+          Every change to your accounts. Deleted accounts can be restored for {RESTORE_WINDOW_DAYS} days.
+        </p>
+        {accountOptions.length > 1 && (
+          <select
+            value={accountFilter}
+            onChange={(e) => setAccountFilter(e.target.value)}
+            className="input py-1.5 text-sm w-40 shrink-0"
+            aria-label="Filter activity by account"
+          >
+            <option value="">All accounts</option>
+            {accountOptions.map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No changes recorded yet.</p>
+      ) : (
+        <ol className="space-y-1 max-h-80 overflow-y-auto border dark:border-gray-700 rounded-md p-3">
+          {visibleEntries.map(entry => {
+            const account = state.accounts.find(acc => acc.id === entry.accountId);
+            const undone = entries.some(other => other.undoes === entry.id);
+            const blocker = getUndoBlocker(entry, account, entries);
+            const summary = describeAuditEntry(entry, account);
+            return (
+              <li key={entry.id} className="flex justify-between items-start gap-2 py-1 border-b dark:border-gray-700 last:border-b-0">
+                <span className={undone ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-800 dark:text-gray-200'}>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {format(new Date(entry.createdAt), 'MMM d, HH:mm')} · {describeActor(entry)}
+                  </span>
+                  <br />
+                  <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]} {entry.accountLabel}</span>
+                  {summary && <span className="text-gray-600 dark:text-gray-400"> — {summary}</span>}
+                </span>
+                {undone ? (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">Undone</span>
+                ) : (
+                  <button
+                    onClick={() => handleUndo(entry, 'Change undone.')}
+                    className="text-primary-600 hover:text-primary-800 disabled:text-gray-400 shrink-0"
+                    disabled={isWorking || blocker !== null}
+                    title={blocker || undefined}
+                  >
+                    Undo
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import { createArchive, diffArchiveData, hasArchiveChanges } from '../utils/dataArchive';
+import { BACKUP_REASON_LABELS, BACKUP_RETENTION, LocalBackup, deleteBackup, listBackups, saveBackup } from '../utils/localBackups';
+import { getOwnedData } from '../utils/households';
+import { ArchiveDiffList } from './ArchiveDiffList';
+
+export function BackupPanel() {
+  const { user } = useAuth();
+  const { state: allData, importArchive } = useNetWorth();
+  // Partners' shared accounts are theirs to export and restore
+  const state = useMemo(() => (user ? getOwnedData(allData, user.id) : allData), [allData, user]);
+
+  const [backups, setBackups] = useState<LocalBackup[]>([]);
+  const [selected, setSelected] = useState<LocalBackup | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setBackups(await listBackups(user.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load backups.');
+    }
+  }, [user]);
+
+  // The provider adds backups before destructive changes, so reload when data changes
+  useEffect(() => {
+    refresh();
+  }, [refresh, state.accounts, state.snapshots, state.goals, state.historicalData]);
+
+  // What restoring the selected backup would change
+  const diff = useMemo(() => (selected ? diffArchiveData(state, selected.archive) : null), [selected, state]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await action();
+      setMessage(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsWorking(false);
+      await refresh();
+    }
+  };
+
+  const handleBackupNow = () =>
+    run(async () => {
+      if (!user) throw new Error('User not authenticated');
+      await saveBackup(user.id, createArchive(state), 'manual');
+    }, 'Backup saved.');
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (!confirm(`Restore the backup from ${format(new Date(selected.createdAt), 'MMM d, yyyy HH:mm')}? Current data is backed up first.`)) {
+      return;
+    }
+    run(async () => {
+      await importArchive(selected.archive, 'replace');
+      setSelected(null);
+    }, 'Backup restored.');
+  };
+
+  const handleDelete = (backup: LocalBackup) => {
+    if (!confirm('Delete this backup?')) return;
+    run(async () => {
+      await deleteBackup(backup.id);
+      if (selected?.id === backup.id) setSelected(null);
+    }, 'Backup deleted.');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Copies of your data kept in this browser: one a day, and one before every delete or import. The newest{' '}
+          {BACKUP_RETENTION.latest} are kept, plus one per day for {BACKUP_RETENTION.days} days and one per week for{' '}
+          {BACKUP_RETENTION.weeks} weeks.
+        </p>
+        <button onClick={handleBackupNow} className="btn-secondary btn-xs shrink-0" disabled={isWorking || !user}>
+          Back Up Now
+        </button>
+      </div>
+
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {backups.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No backups yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto border dark:border-gray-700 rounded-md p-3 text-sm">
+          {backups.map(backup => (
+            <li
+              key={backup.id}
+              className={`flex justify-between items-center gap-2 py-1 border-b dark:border-gray-700 last:border-b-0 ${
+                selected?.id === backup.id ? 'bg-primary-50 dark:bg-primary-900/30' : ''
+              }`}
+            >
+              <span className="text-gray-800 dark:text-gray-200">
+                <span className="font-medium">{format(new Date(backup.createdAt), 'MMM d, yyyy HH:mm')}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {' '}
+                  · {backup.label === BACKUP_REASON_LABELS[backup.reason] ? backup.label : `${BACKUP_REASON_LABELS[backup.reason]}: ${backup.label}`}
+                  {' '}· {backup.archive.accounts.length} accounts
+                </span>
+              </span>
+              <span className="flex gap-3 shrink-0">
+                <button
+                  onClick={() => setSelected(selected?.id === backup.id ? null : backup)}
+                  className="text-primary-600 hover:text-primary-800"
+                  disabled={isWorking}
+                >
+                  {selected?.id === backup.id ? 'Hide' : 'Review'}
+                </button>
+                <button
+                  onClick={() => handleDelete(backup)}
+                  className="text-red-600 hover:text-red-800"
+                  disabled={isWorking}
+                  aria-label={`Delete backup from ${backup.createdAt}`}
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && diff && (
+        <div className="border dark:border-gray-700 rounded-md p-3 space-y-3 text-sm">
+          <p className="text-gray-700 dark:text-gray-300">Restoring replaces your current data with this backup:</p>
+          <ArchiveDiffList diff={diff} />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setSelected(null)} className="btn-secondary btn-xs" disabled={isWorking}>
+              Cancel
+            </button>
+            <button onClick={handleRestore} className="btn-primary btn-xs" disabled={isWorking || !hasArchiveChanges(diff)}>
+              {isWorking ? 'Restoring...' : hasArchiveChanges(diff) ? 'Restore' : 'Matches current data'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { Account, BalanceEntry } from '../types';
+import { AccountProgression } from './AccountProgression';
+import { getAccountCurrency } from '../utils/currency';
+import { stableStringify } from '../utils/dataArchive';
+import { rebuildEstimatedHistory } from '../utils/valuation';
+import {
+  BalanceDraft,
+  createBalanceDraft,
+  draftsToHistory,
+  mergePastedBalances,
+  parseBalancePaste,
+  toBalanceDrafts,
+  validateBalanceDrafts,
+} from '../utils/balanceHistory';
+import { getErrorMessage } from '../utils/offlineStore';
+
+interface BalanceHistoryEditorProps {
+  account: Account;
+}
+
+// Histories compared as the editor shows them: manual entries, one per day
+const toHistoryKey = (history: BalanceEntry[]): string => stableStringify(draftsToHistory(toBalanceDrafts(history)));
+
+// Every manual balance entry of an account as an editable table. Changes are
+// drawn in the progression chart as they are typed and saved together.
+export function BalanceHistoryEditor({ account }: BalanceHistoryEditorProps) {
+  const { replaceBalanceHistory } = useNetWorth();
+  const currency = getAccountCurrency(account);
+
+  // The stored history the drafts started from; it is sent with the save so
+  // the server can refuse it if the history has changed since
+  const [startHistory, setStartHistory] = useState<BalanceEntry[]>(() => account.balanceHistory);
+  const [drafts, setDrafts] = useState<BalanceDraft[]>(() => toBalanceDrafts(account.balanceHistory));
+  const [newEntry, setNewEntry] = useState({ date: format(new Date(), 'yyyy-MM-dd'), balance: '' });
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateBalanceDrafts(drafts), [drafts]);
+  const hasErrors = Object.keys(errors).length > 0;
+  const draftHistory = useMemo(() => draftsToHistory(drafts), [drafts]);
+
+  const storedKey = useMemo(() => toHistoryKey(account.balanceHistory), [account.balanceHistory]);
+  const startKey = useMemo(() => toHistoryKey(startHistory), [startHistory]);
+  const isDirty = stableStringify(draftHistory) !== startKey || hasErrors;
+  const isChangedElsewhere = storedKey !== startKey;
+
+  // Follow changes made elsewhere (inline balance updates, imports, undo) while
+  // nothing is being edited; unsaved edits are kept and a reload is offered
+  if (isChangedElsewhere && !isDirty && !isSaving) {
+    setStartHistory(account.balanceHistory);
+    setDrafts(toBalanceDrafts(account.balanceHistory));
+  }
+
+  const previewAccount = useMemo<Account>(
+    () => ({
+      ...account,
+      balanceHistory: account.valuation ? rebuildEstimatedHistory(draftHistory, account.valuation) : draftHistory,
+    }),
+    [account, draftHistory]
+  );
+
+  const updateDraft = (key: string, changes: Partial<Pick<BalanceDraft, 'date' | 'balance'>>) => {
+    setDrafts(current => current.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+    setMessage(null);
+  };
+
+  const removeDraft = (key: string) => {
+    setDrafts(current => current.filter(draft => draft.key !== key));
+    setMessage(null);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newEntry.balance.trim() === '') return;
+    setDrafts(current => [createBalanceDraft(newEntry.date, newEntry.balance), ...current]);
+    setNewEntry({ ...newEntry, balance: '' });
+    setMessage(null);
+  };
+
+  const handlePaste = () => {
+    const pasted = parseBalancePaste(pasteText);
+    if (pasted.entries.length === 0) {
+      setError('No "date, balance" lines found in the pasted text.');
+      return;
+    }
+    const result = mergePastedBalances(drafts, pasted.entries);
+    setDrafts(result.drafts);
+    setPasteText('');
+    setIsPasteOpen(false);
+    setError(null);
+    setMessage(
+      `Pasted ${result.added} new ${result.added === 1 ? 'entry' : 'entries'}` +
+        (result.replaced > 0 ? `, replaced ${result.replaced}` : '') +
+        (pasted.skippedLines > 0 ? `, skipped ${pasted.skippedLines} unreadable ${pasted.skippedLines === 1 ? 'line' : 'lines'}` : '') +
+        '. Save to keep them.'
+    );
+  };
+
+  const handleSave = async () => {
+    if (hasErrors) return;
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await replaceBalanceHistory(account.id, startHistory, draftHistory);
+      setStartHistory(draftHistory);
+      setDrafts(toBalanceDrafts(draftHistory));
+      setMessage('Balance history saved.');
+    } catch (err) {
+      setError(`Failed to save balance history: ${getErrorMessage(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setStartHistory(account.balanceHistory);
+    setDrafts(toBalanceDrafts(account.balanceHistory));
+    setMessage(null);
+    setError(null);
+  };
+
+  return (
+    <div>
+      <AccountProgression account={previewAccount} />
+
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Balance History</h4>
+          <button type="button" onClick={() => setIsPasteOpen(!isPasteOpen)} className="btn-secondary btn-xs">
+            {isPasteOpen ? 'Cancel Paste' : 'Paste Entries'}
+          </button>
+        </div>
+
+        {isPasteOpen && (
+          <div className="mb-3 space-y-2 text-sm">
+            <label htmlFor="balancePaste" className="block text-xs text-gray-500 dark:text-gray-400">
+              One entry per line: date, then balance (copied from a spreadsheet or CSV). Existing dates are replaced.
+            </label>
+            <textarea
+              id="balancePaste"
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              className="input py-1.5 text-sm font-mono"
+              rows={5}
+              placeholder={'2026-01-31\t12500.00\n2026-02-28\t12840.50'}
+            />
+            <button type="button" onClick={handlePaste} className="btn-primary btn-xs" disabled={!pasteText.trim()}>
+              Add Pasted Entries
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-3 gap-2 items-end text-sm">
+          <div>
+            <label htmlFor="historyDate" className="block text-xs text-gray-500 dark:text-gray-400">Date</label>
+            <input
+              type="date"
+              id="historyDate"
+              value={newEntry.date}
+              onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
+              className="input py-1.5 text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="historyBalance" className="block text-xs text-gray-500 dark:text-gray-400">Balance ({currency})</label>
+            <input
+              type="number"
+              id="historyBalance"
+              value={newEntry.balance}
+              onChange={(e) => setNewEntry({ ...newEntry, balance: e.target.value })}
+              className="input py-1.5 text-sm"
+              step="0.01"
+              required
+            />
+          </div>
+          <button type="submit" className="btn-secondary btn-xs">
+            Add Entry
+          </button>
+        </form>
+
+        {drafts.length === 0 ? (
+          <p className="mt-3 text-gray-500 dark:text-gray-400 text-sm">No balance entries yet.</p>
+        ) : (
+          <ul className="mt-3 space-y-1 max-h-64 overflow-y-auto border dark:border-gray-700 rounded-md p-3 text-sm">
+            {drafts.map(draft => (
+              <li key={draft.key} className="py-1 border-b dark:border-gray-700 last:border-b-0">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => updateDraft(draft.key, { date: e.target.value })}
+                    className="input py-1 text-sm"
+                    aria-label="Entry date"
+                  />
+                  <input
+                    type="number"
+                    value={draft.balance}
+                    onChange={(e) => updateDraft(draft.key, { balance: e.target.value })}
+                    className="input py-1 text-sm"
+                    step="0.01"
+                    aria-label={`Balance on ${draft.date}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeDraft(draft.key)}
+                    className="text-red-600 hover:text-red-800 text-sm shrink-0"
+                    aria-label={`Delete balance entry from ${draft.date}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+                {errors[draft.key] && <p className="mt-1 text-xs text-red-600">{errors[draft.key]}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {account.valuation && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Estimated monthly values are not listed; they follow from these entries and the valuation model.
+          </p>
+        )}
+        {isChangedElsewhere && isDirty && (
+          <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
+            This history was changed elsewhere since you started editing.{' '}
+            <button type="button" onClick={handleDiscard} className="underline" disabled={isSaving}>
+              Reload it
+            </button>{' '}
+            to see the latest entries; your unsaved changes will be lost.
+          </p>
+        )}
+        {message && <p className="mt-2 text-sm text-green-700 dark:text-green-300">{message}</p>}
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        {isDirty && (
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" onClick={handleDiscard} className="btn-secondary btn-xs" disabled={isSaving}>
+              Discard
+            </button>
+            <button type="button" onClick={handleSave} className="btn-primary btn-xs" disabled={isSaving || hasErrors}>
+              {isSaving ? 'Saving...' : 'Save History'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
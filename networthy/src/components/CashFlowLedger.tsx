@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { Account, CashFlowKind } from '../types';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+
+interface CashFlowLedgerProps {
+  account: Account;
+}
+
+const KIND_LABELS: Record<CashFlowKind, string> = {
+  contribution: 'Contribution',
+  withdrawal: 'Withdrawal',
+  transfer: 'Transfer',
+};
+
+export function CashFlowLedger({ account }: CashFlowLedgerProps) {
+  const { state, addCashFlow, addTransfer, deleteCashFlow } = useNetWorth();
+  const currency = getAccountCurrency(account);
+
+  const [form, setForm] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    kind: 'contribution' as CashFlowKind,
+    amount: '',
+    direction: 'out' as 'in' | 'out',
+    counterpartId: '',
+    note: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const otherAccounts = useMemo(
+    () => state.accounts.filter(acc => acc.id !== account.id),
+    [state.accounts, account.id]
+  );
+
+  // Newest first for display
+  const sortedFlows = useMemo(
+    () => [...(account.cashFlows || [])].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [account.cashFlows]
+  );
+
+  // Transfers are entered in the sending account's currency
+  const counterpart = otherAccounts.find(acc => acc.id === form.counterpartId);
+  const amountCurrency =
+    form.kind === 'transfer' && form.direction === 'in' && counterpart ? getAccountCurrency(counterpart) : currency;
+
+  const getAccountLabel = (id?: string) => {
+    const match = state.accounts.find(acc => acc.id === id);
+    return match ? match.name || match.institution : 'a deleted account';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const amount = Math.abs(parseFloat(form.amount));
+    if (isNaN(amount) || amount === 0) {
+      setFormError('Amount must be a non-zero number.');
+      return;
+    }
+    const date = parseISO(form.date).toISOString();
+    const note = form.note.trim() || undefined;
+
+    setIsSaving(true);
+    try {
+      if (form.kind === 'transfer') {
+        if (!form.counterpartId) {
+          setFormError('Choose the other account of the transfer.');
+          return;
+        }
+        if (form.direction === 'out') {
+          await addTransfer(account.id, form.counterpartId, amount, date, note);
+        } else {
+          await addTransfer(form.counterpartId, account.id, amount, date, note);
+        }
+      } else {
+        await addCashFlow(account.id, date, {
+          amount: form.kind === 'withdrawal' ? -amount : amount,
+          kind: form.kind,
+          note,
+        });
+      }
+      setForm({ ...form, amount: '', note: '' });
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save cash flow.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (flowId: string, isTransfer: boolean) => {
+    const message = isTransfer
+      ? 'Delete this transfer? It is removed from both accounts.'
+      : 'Delete this cash flow?';
+    if (!confirm(message)) return;
+    try {
+      await deleteCashFlow(account.id, flowId);
+    } catch (err) {
+      console.error('Failed to delete cash flow:', err);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Contributions &amp; Withdrawals</h4>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-3 gap-2 items-end text-sm">
+        <div>
+          <label htmlFor="flowDate" className="block text-xs text-gray-500 dark:text-gray-400">Date</label>
+          <input
+            type="date"
+            id="flowDate"
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+            className="input py-1.5 text-sm"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="flowKind" className="block text-xs text-gray-500 dark:text-gray-400">Type</label>
+          <select
+            id="flowKind"
+            value={form.kind}
+            onChange={(e) => setForm({ ...form, kind: e.target.value as CashFlowKind })}
+            className="input py-1.5 text-sm"
+          >
+            {(Object.keys(KIND_LABELS) as CashFlowKind[]).map(kind => (
+              <option key={kind} value={kind} disabled={kind === 'transfer' && otherAccounts.length === 0}>
+                {KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="flowAmount" className="block text-xs text-gray-500 dark:text-gray-400">Amount ({amountCurrency})</label>
+          <input
+            type="number"
+            id="flowAmount"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            className="input py-1.5 text-sm"
+            step="0.01"
+            min="0"
+            required
+          />
+        </div>
+        {form.kind === 'transfer' && (
+          <>
+            <div>
+              <label htmlFor="flowDirection" className="block text-xs text-gray-500 dark:text-gray-400">Direction</label>
+              <select
+                id="flowDirection"
+                value={form.direction}
+                onChange={(e) => setForm({ ...form, direction: e.target.value as 'in' | 'out' })}
+                className="input py-1.5 text-sm"
+              >
+                <option value="out">To</option>
+                <option value="in">From</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="flowCounterpart" className="block text-xs text-gray-500 dark:text-gray-400">Account</label>
+              <select
+                id="flowCounterpart"
+                value={form.counterpartId}
+                onChange={(e) => setForm({ ...form, counterpartId: e.target.value })}
+                className="input py-1.5 text-sm"
+              >
+                <option value="">Select…</option>
+                {otherAccounts.map(acc => (
+                  <option key={acc.id} value={acc.id}>{acc.name || acc.institution}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+        <div>
+          <label htmlFor="flowNote" className="block text-xs text-gray-500 dark:text-gray-400">Note</label>
+          <input
+            type="text"
+            id="flowNote"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            className="input py-1.5 text-sm"
+          />
+        </div>
+        <button type="submit" className="btn-primary btn-xs" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Add'}
+        </button>
+      </form>
+      {formError && <p className="mt-1 text-sm text-red-600">{formError}</p>}
+
+      {sortedFlows.length === 0 ? (
+        <p className="mt-3 text-gray-500 dark:text-gray-400 text-sm">No contributions or withdrawals recorded yet.</p>
+      ) : (
+        <ul className="mt-3 space-y-1 max-h-48 overflow-y-auto border dark:border-gray-700 rounded-md p-3 text-sm">
+          {sortedFlows.map(flow => (
+            <li
+              key={flow.id}
+              className="flex justify-between items-center py-1 border-b dark:border-gray-700 last:border-b-0"
+            >
+              <span className="text-gray-800 dark:text-gray-200">
+                {format(parseISO(flow.date), 'MMM d, yyyy')}: {KIND_LABELS[flow.kind]}
+                {flow.kind === 'transfer' && ` ${flow.amount < 0 ? 'to' : 'from'} ${getAccountLabel(flow.transferAccountId)}`}
+                {flow.note && <span className="text-gray-500 dark:text-gray-400"> ({flow.note})</span>}
+              </span>
+              <span className="flex items-center gap-3">
+                <span className={flow.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {formatCurrency(flow.amount, currency, 2)}
+                </span>
+                <button
+                  onClick={() => handleDelete(flow.id, flow.kind === 'transfer')}
+                  className="text-red-600 hover:text-red-800 text-sm"
+                  aria-label={`Delete cash flow from ${flow.date}`}
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { CSV_LAYOUTS, CsvLayout, exportAccountsToCSV, exportBalancesToCSV } from '../utils/dataManagement';
+
+interface CsvExportDialogProps {
+  onClose: () => void;
+}
+
+export function CsvExportDialog({ onClose }: CsvExportDialogProps) {
+  const { state } = useNetWorth();
+  const { baseCurrency, convert } = useCurrency();
+
+  const [layout, setLayout] = useState<CsvLayout>('long');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  // Empty means every account
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const sortedAccounts = useMemo(
+    () => [...state.accounts].sort((a, b) => a.institution.localeCompare(b.institution)),
+    [state.accounts]
+  );
+
+  // The last selected account cannot be unticked, since an empty selection means all
+  const toggleAccount = (accountId: string) => {
+    setSelectedIds(ids => {
+      if (!ids.includes(accountId)) return [...ids, accountId];
+      return ids.length > 1 ? ids.filter(id => id !== accountId) : ids;
+    });
+  };
+
+  const rangeError = startDate && endDate && startDate > endDate ? 'The start date must be before the end date.' : null;
+
+  const handleExport = () => {
+    if (rangeError) return;
+    exportBalancesToCSV(state.accounts, {
+      layout,
+      baseCurrency,
+      convert,
+      start: startDate ? parseISO(startDate) : undefined,
+      end: endDate ? parseISO(endDate) : undefined,
+      accountIds: selectedIds,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-lg w-full m-4 max-h-[90vh] flex flex-col">
+      <div className="flex justify-between items-center mb-4 shrink-0">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Export to CSV</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl"
+          aria-label="Close"
+        >
+          &times;
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 space-y-4 text-sm">
+        <fieldset className="space-y-2">
+          <legend className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Layout</legend>
+          {CSV_LAYOUTS.map(option => (
+            <label key={option.value} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="csvLayout"
+                className="mt-1"
+                checked={layout === option.value}
+                onChange={() => setLayout(option.value)}
+              />
+              <span>
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="csvStart" className="block text-xs text-gray-500 dark:text-gray-400">From</label>
+            <input type="date" id="csvStart" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input py-1.5 text-sm" />
+          </div>
+          <div>
+            <label htmlFor="csvEnd" className="block text-xs text-gray-500 dark:text-gray-400">To</label>
+            <input type="date" id="csvEnd" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="input py-1.5 text-sm" />
+          </div>
+        </div>
+        {rangeError && <p className="text-red-600">{rangeError}</p>}
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Accounts ({selectedIds.length === 0 ? 'all' : `${selectedIds.length} selected`})
+            </span>
+            {selectedIds.length > 0 && (
+              <button onClick={() => setSelectedIds([])} className="text-xs text-primary-600 hover:text-primary-800">
+                Select all
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1 max-h-48 overflow-y-auto border dark:border-gray-700 rounded-md p-3">
+            {sortedAccounts.map(account => (
+              <li key={account.id}>
+                <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.length === 0 || selectedIds.includes(account.id)}
+                    onChange={() =>
+                      selectedIds.length === 0
+                        ? setSelectedIds(sortedAccounts.filter(item => item.id !== account.id).map(item => item.id))
+                        : toggleAccount(account.id)
+                    }
+                  />
+                  {account.institution}{account.name ? ` – ${account.name}` : ''}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 shrink-0">
+        <button
+          onClick={() => exportAccountsToCSV(state.accounts, { baseCurrency, convert })}
+          className="text-sm text-primary-600 hover:text-primary-800"
+        >
+          Current balances only
+        </button>
+        <div className="flex space-x-3">
+          <button onClick={onClose} className="btn-secondary">Cancel</button>
+          <button onClick={handleExport} className="btn-primary" disabled={!!rangeError}>Export</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { SUPPORTED_CURRENCIES, getAccountCurrency, getMissingRateCurrencies } from '../utils/currency';
+
+export function CurrencySettings() {
+  const { state } = useNetWorth();
+  const { baseCurrency, setBaseCurrency, rates, upsertRate, deleteRate } = useCurrency();
+
+  const [rateForm, setRateForm] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    from: '',
+    rate: '',
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Currencies held by accounts, excluding the base currency
+  const accountCurrencies = useMemo(() => {
+    const currencies = new Set(state.accounts.map(getAccountCurrency));
+    currencies.delete(baseCurrency);
+    return Array.from(currencies).sort();
+  }, [state.accounts, baseCurrency]);
+
+  const defaultFrom = accountCurrencies[0] || SUPPORTED_CURRENCIES.find(c => c !== baseCurrency) || '';
+
+  const missingRates = useMemo(
+    () => getMissingRateCurrencies(state.accounts, baseCurrency, rates),
+    [state.accounts, baseCurrency, rates]
+  );
+
+  // Newest first for display
+  const sortedRates = useMemo(() => [...rates].sort((a, b) => b.date.localeCompare(a.date)), [rates]);
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const from = rateForm.from || defaultFrom;
+    const rate = parseFloat(rateForm.rate);
+    if (!from || from === baseCurrency) {
+      setFormError('Choose a currency different from the base currency.');
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      setFormError('Rate must be a positive number.');
+      return;
+    }
+
+    upsertRate({ date: rateForm.date, from, to: baseCurrency, rate });
+    setRateForm({ ...rateForm, rate: '' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="baseCurrency" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Base currency
+        </label>
+        <select
+          id="baseCurrency"
+          value={baseCurrency}
+          onChange={(e) => setBaseCurrency(e.target.value)}
+          className="input py-1.5 w-32 text-sm"
+        >
+          {SUPPORTED_CURRENCIES.map((currency) => (
+            <option key={currency} value={currency}>{currency}</option>
+          ))}
+        </select>
+      </div>
+
+      {missingRates.length > 0 && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/30 rounded-md p-2">
+          No exchange rate to {baseCurrency} for {missingRates.join(', ')}. Those balances are counted unconverted.
+        </p>
+      )}
+
+      <form onSubmit={handleAddRate} className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+        <div>
+          <label htmlFor="rateDate" className="block text-xs text-gray-500 dark:text-gray-400">Date</label>
+          <input
+            type="date"
+            id="rateDate"
+            value={rateForm.date}
+            onChange={(e) => setRateForm({ ...rateForm, date: e.target.value })}
+            className="input py-1.5 text-sm"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="rateFrom" className="block text-xs text-gray-500 dark:text-gray-400">1 unit of</label>
+          <select
+            id="rateFrom"
+            value={rateForm.from || defaultFrom}
+            onChange={(e) => setRateForm({ ...rateForm, from: e.target.value })}
+            className="input py-1.5 text-sm"
+          >
+            {SUPPORTED_CURRENCIES.filter(c => c !== baseCurrency).map((currency) => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="rateValue" className="block text-xs text-gray-500 dark:text-gray-400">= {baseCurrency}</label>
+          <input
+            type="number"
+            id="rateValue"
+            value={rateForm.rate}
+            onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+            className="input py-1.5 text-sm"
+            step="any"
+            min="0"
+            required
+          />
+        </div>
+        <button type="submit" className="btn-primary btn-xs">Save Rate</button>
+      </form>
+      {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+      {sortedRates.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No exchange rates stored yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto border dark:border-gray-700 rounded-md p-3 text-sm">
+          {sortedRates.map((rate) => (
+            <li
+              key={`${rate.date}-${rate.from}-${rate.to}`}
+              className="flex justify-between items-center py-1 border-b dark:border-gray-700 last:border-b-0"
+            >
+              <span className="text-gray-800 dark:text-gray-200">
+                {format(parseISO(rate.date), 'MMM d, yyyy')}: 1 {rate.from} = {rate.rate} {rate.to}
+              </span>
+              <button
+                onClick={() => deleteRate(rate)}
+                className="text-red-600 hover:text-red-800 text-sm"
+                aria-label={`Delete ${rate.from} rate from ${rate.date}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
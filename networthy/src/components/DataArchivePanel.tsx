@@ -0,0 +1,128 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import {
+  ARCHIVE_SECTIONS,
+  ArchiveImportMode,
+  DataArchive,
+  applyArchive,
+  createArchive,
+  diffArchiveData,
+  downloadArchive,
+  hasArchiveChanges,
+  parseArchive,
+} from '../utils/dataArchive';
+import { getOwnedData } from '../utils/households';
+import { ArchiveDiffList } from './ArchiveDiffList';
+
+export function DataArchivePanel() {
+  const { user } = useAuth();
+  const { state: allData, importArchive } = useNetWorth();
+  // Partners' shared accounts are theirs to export and restore
+  const state = useMemo(() => (user ? getOwnedData(allData, user.id) : allData), [allData, user]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [archive, setArchive] = useState<DataArchive | null>(null);
+  const [mode, setMode] = useState<ArchiveImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Dry run of the pending import against the current data
+  const diff = useMemo(
+    () => (archive ? diffArchiveData(state, applyArchive(state, archive, mode)) : null),
+    [archive, mode, state]
+  );
+
+  const handleExport = () => {
+    downloadArchive(createArchive(state));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setError(null);
+    setArchive(null);
+    try {
+      setArchive(parseArchive(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the export.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive || !diff) return;
+    const removed = ARCHIVE_SECTIONS.reduce((sum, section) => sum + diff[section.key].removed.length, 0);
+    if (removed > 0 && !confirm(`Replacing will delete ${removed} record${removed === 1 ? '' : 's'} not in the export. Continue?`)) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      await importArchive(archive, mode);
+      setArchive(null);
+      setMessage('Import complete.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the export.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          A JSON file with every account, balance, transaction, goal and snapshot. Use it as an archive or to move to another
+          project.
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={handleExport} className="btn-secondary btn-xs">
+            Export JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="btn-secondary btn-xs" disabled={isImporting}>
+            Import JSON
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {archive && diff && (
+        <div className="border dark:border-gray-700 rounded-md p-3 space-y-3 text-sm">
+          <p className="text-gray-700 dark:text-gray-300">
+            Export from {format(new Date(archive.exportedAt), 'MMM d, yyyy HH:mm')} (version {archive.version}).
+          </p>
+          <div className="flex gap-4 text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="archiveMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+              Merge into current data
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="archiveMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              Replace current data
+            </label>
+          </div>
+
+          <ArchiveDiffList diff={diff} />
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setArchive(null)} className="btn-secondary btn-xs" disabled={isImporting}>
+              Cancel
+            </button>
+            <button onClick={handleImport} className="btn-primary btn-xs" disabled={isImporting || !hasArchiveChanges(diff)}>
+              {isImporting ? 'Importing...' : hasArchiveChanges(diff) ? 'Import' : 'Nothing to import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
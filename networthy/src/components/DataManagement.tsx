@@ -1,16 +1,31 @@
 // import React from 'react'; // Removed
 import { useState } from 'react'; // Keep useState
 import { useNetWorth } from '../context/NetWorthContext';
-import { exportAccountsToExcel, exportAccountsToCSV } from '../utils/dataManagement';
+import { exportAccountsToExcel } from '../utils/dataManagement';
 import { HistoricalDataList } from './HistoricalDataList';
 import { HistoricalDataEntry } from './HistoricalDataEntry';
 import { HistoricalDataPoint } from '../context/NetWorthContext';
+import { ImportWizard } from './ImportWizard';
+import { StatementImport } from './StatementImport';
+import { CsvExportDialog } from './CsvExportDialog';
+import { SnapshotList } from './SnapshotList';
+import { CurrencySettings } from './CurrencySettings';
+import { PriceSettings } from './PriceSettings';
+import { DataArchivePanel } from './DataArchivePanel';
+import { BackupPanel } from './BackupPanel';
+import { HouseholdSettings } from './HouseholdSettings';
+import { AuditLogPanel } from './AuditLogPanel';
+import { useCurrency } from '../context/useCurrency';
 
 export function DataManagement() {
   const { state } = useNetWorth();
+  const { baseCurrency, convert } = useCurrency();
   
   const [showHistoricalForm, setShowHistoricalForm] = useState(false);
   const [editingDataPoint, setEditingDataPoint] = useState<HistoricalDataPoint | null>(null);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
 
   const handleAddHistoricalClick = () => {
     setEditingDataPoint(null);
@@ -33,7 +48,7 @@ export function DataManagement() {
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <button
-          onClick={() => exportAccountsToExcel(state.accounts)}
+          onClick={() => exportAccountsToExcel(state.accounts, { baseCurrency, convert })}
           className="btn-secondary flex items-center justify-center gap-2"
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -43,7 +58,7 @@ export function DataManagement() {
         </button>
 
         <button
-          onClick={() => exportAccountsToCSV(state.accounts)}
+          onClick={() => setShowCsvExport(true)}
           className="btn-secondary flex items-center justify-center gap-2"
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -51,6 +66,46 @@ export function DataManagement() {
           </svg>
           Export to CSV
         </button>
+
+        <button
+          onClick={() => setShowImportWizard(true)}
+          className="btn-primary flex items-center justify-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 16V10m0 0l-3 3m3-3l3 3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          Import from Spreadsheet
+        </button>
+
+        <button
+          onClick={() => setShowStatementImport(true)}
+          className="btn-primary flex items-center justify-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+          </svg>
+          Import Bank Statement
+        </button>
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Household</h4>
+        <HouseholdSettings />
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Full Export</h4>
+        <DataArchivePanel />
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Backups</h4>
+        <BackupPanel />
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Activity</h4>
+        <AuditLogPanel />
       </div>
 
       <div className="border-t dark:border-gray-700 pt-6">
@@ -66,6 +121,39 @@ export function DataManagement() {
         <HistoricalDataList onEdit={handleEditHistoricalClick} />
       </div>
 
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Currencies</h4>
+        <CurrencySettings />
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Prices</h4>
+        <PriceSettings />
+      </div>
+
+      <div className="border-t dark:border-gray-700 pt-6">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Net Worth Snapshots</h4>
+        <SnapshotList />
+      </div>
+
+      {showImportWizard && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-[70]">
+          <ImportWizard onClose={() => setShowImportWizard(false)} />
+        </div>
+      )}
+
+      {showCsvExport && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-[70]">
+          <CsvExportDialog onClose={() => setShowCsvExport(false)} />
+        </div>
+      )}
+
+      {showStatementImport && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-[70]">
+          <StatementImport onClose={() => setShowStatementImport(false)} />
+        </div>
+      )}
+
       {showHistoricalForm && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center p-4 z-[70]">
           <HistoricalDataEntry 
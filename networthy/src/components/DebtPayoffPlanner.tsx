@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { useNetWorth, getCurrentBalance } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { Account } from '../types';
+import { getAccountCurrency } from '../utils/currency';
+import { isLiabilityAccount } from '../utils/netWorthSeries';
+import { getLoanPayment } from '../utils/amortization';
+import { DebtInput, PAYOFF_STRATEGIES, PayoffStrategy, orderDebts, simulatePayoff } from '../utils/debtPayoff';
+
+const SETTINGS_STORAGE_KEY = 'networthy_debt_planner_settings';
+
+interface DebtTerms {
+  annualRate: number;
+  minimumPayment: number;
+}
+
+interface PlannerSettings {
+  monthlyBudget: number | null; // null: exactly the sum of the minimums
+  strategy: PayoffStrategy;
+  customOrder: string[]; // account ids
+  terms: Record<string, DebtTerms>; // per account, overrides the defaults
+}
+
+const DEFAULT_SETTINGS: PlannerSettings = {
+  monthlyBudget: null,
+  strategy: 'avalanche',
+  customOrder: [],
+  terms: {},
+};
+
+const loadSettings = (): PlannerSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<PlannerSettings>;
+    return { ...DEFAULT_SETTINGS, ...parsed, terms: { ...(parsed.terms || {}) } };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Loans with amortization terms already know their rate and payment; anything
+// else starts at 0% with a 2% of balance minimum until the user fills it in
+const getDefaultTerms = (account: Account, balance: number): DebtTerms =>
+  account.loanDetails
+    ? { annualRate: account.loanDetails.annualRate, minimumPayment: Math.round(getLoanPayment(account.loanDetails)) }
+    : { annualRate: 0, minimumPayment: Math.max(25, Math.round(balance * 0.02)) };
+
+const SERIES_COLORS = ['#ef4444', '#f97316', '#eab308', '#8b5cf6', '#3b82f6', '#ec4899', '#14b8a6', '#6b7280'];
+
+export function DebtPayoffPlanner() {
+  const { state } = useNetWorth();
+  const { convert, formatCurrency } = useCurrency();
+  const [settings, setSettings] = useState<PlannerSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Current liability balances in the base currency, with the user's terms
+  const debts = useMemo<DebtInput[]>(() => {
+    const now = new Date();
+    return state.accounts
+      .filter(isLiabilityAccount)
+      .map(account => {
+        const balance = convert(Math.abs(getCurrentBalance(account)), getAccountCurrency(account), now);
+        const terms = settings.terms[account.id] || getDefaultTerms(account, balance);
+        return {
+          accountId: account.id,
+          name: account.name ? `${account.institution} - ${account.name}` : account.institution,
+          balance,
+          annualRate: terms.annualRate,
+          minimumPayment: terms.minimumPayment,
+        };
+      })
+      .filter(debt => debt.balance > 0);
+  }, [state.accounts, settings.terms, convert]);
+
+  const totalMinimums = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+  const monthlyBudget = settings.monthlyBudget ?? totalMinimums;
+
+  const plans = useMemo(
+    () => PAYOFF_STRATEGIES.map(({ id }) => simulatePayoff(debts, monthlyBudget, id, settings.customOrder)),
+    [debts, monthlyBudget, settings.customOrder]
+  );
+  const selectedPlan = plans.find(plan => plan.strategy === settings.strategy) || plans[0];
+  const bestInterest = Math.min(...plans.filter(plan => plan.months !== null).map(plan => plan.totalInterest));
+
+  // Rows follow the order the selected strategy pays them off in
+  const orderedDebts = orderDebts(debts, settings.strategy, settings.customOrder);
+
+  const updateTerms = (debt: DebtInput, changes: Partial<DebtTerms>) =>
+    setSettings(prev => ({
+      ...prev,
+      terms: {
+        ...prev.terms,
+        [debt.accountId]: { annualRate: debt.annualRate, minimumPayment: debt.minimumPayment, ...changes },
+      },
+    }));
+
+  // Moving a row switches to the custom strategy, starting from the order on screen
+  const moveDebt = (index: number, direction: -1 | 1) => {
+    const order = orderedDebts.map(debt => debt.accountId);
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setSettings(prev => ({ ...prev, strategy: 'custom', customOrder: order }));
+  };
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Debt Payoff</h3>
+        {debts.length > 0 && (
+          <button onClick={() => setSettings(DEFAULT_SETTINGS)} className="btn-secondary btn-xs">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {debts.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No outstanding debts. Nothing to plan.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 items-end">
+            <div>
+              <label htmlFor="debtBudget" className="block text-xs text-gray-500 dark:text-gray-400">Monthly budget</label>
+              <input
+                type="number"
+                id="debtBudget"
+                value={monthlyBudget}
+                onChange={(e) => setSettings({ ...settings, monthlyBudget: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="input py-1.5 text-sm"
+                min="0"
+                step="any"
+              />
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 pb-2">
+              Minimums: {formatCurrency(totalMinimums)}
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                <th className="py-1">Debt</th>
+                <th className="py-1 text-right">Balance</th>
+                <th className="py-1">APR %</th>
+                <th className="py-1">Minimum</th>
+                <th className="py-1 text-right">Paid off</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orderedDebts.map((debt, index) => {
+                const result = selectedPlan.debts.find(item => item.accountId === debt.accountId);
+                return (
+                  <tr key={debt.accountId} className="text-gray-800 dark:text-gray-200 border-t dark:border-gray-700">
+                    <td className="py-1 pr-2">{debt.name}</td>
+                    <td className="py-1 pr-2 text-right">{formatCurrency(debt.balance)}</td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        value={debt.annualRate}
+                        onChange={(e) => updateTerms(debt, { annualRate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="input py-1 text-sm w-20"
+                        step="any"
+                        min="0"
+                        aria-label={`${debt.name} APR`}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        value={debt.minimumPayment}
+                        onChange={(e) => updateTerms(debt, { minimumPayment: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="input py-1 text-sm w-24"
+                        step="any"
+                        min="0"
+                        aria-label={`${debt.name} minimum payment`}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      {result?.payoffDate ? format(result.payoffDate, 'MMM yyyy') : '—'}
+                    </td>
+                    <td className="py-1 pl-2 whitespace-nowrap">
+                      <button
+                        onClick={() => moveDebt(index, -1)}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 px-1"
+                        disabled={index === 0}
+                        aria-label={`Pay ${debt.name} earlier`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveDebt(index, 1)}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 px-1"
+                        disabled={index === orderedDebts.length - 1}
+                        aria-label={`Pay ${debt.name} later`}
+                      >
+                        ↓
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            {plans.map(plan => {
+              const strategy = PAYOFF_STRATEGIES.find(item => item.id === plan.strategy)!;
+              const selected = plan.strategy === settings.strategy;
+              return (
+                <button
+                  key={plan.strategy}
+                  onClick={() => setSettings({ ...settings, strategy: plan.strategy })}
+                  className={`text-left rounded-md border p-2 ${
+                    selected ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20' : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                  title={strategy.description}
+                >
+                  <div className="font-medium text-gray-900 dark:text-gray-100">{strategy.label}</div>
+                  {!plan.feasible ? (
+                    <div className="text-xs text-red-600">Budget below minimums</div>
+                  ) : plan.debtFreeDate === null ? (
+                    <div className="text-xs text-red-600">Never paid off</div>
+                  ) : (
+                    <>
+                      <div className="text-xs text-gray-600 dark:text-gray-400">Debt-free {format(plan.debtFreeDate, 'MMM yyyy')}</div>
+                      <div className={`text-xs ${plan.totalInterest <= bestInterest + 0.5 ? 'text-green-600' : 'text-gray-600 dark:text-gray-400'}`}>
+                        {formatCurrency(plan.totalInterest)} interest
+                      </div>
+                    </>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {selectedPlan.debtFreeDate !== null && selectedPlan.timeline.length > 1 && (
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={selectedPlan.timeline}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date) => format(parseISO(date), 'MMM yy')}
+                    tick={{ fontSize: 11 }}
+                    minTickGap={24}
+                  />
+                  <YAxis tickFormatter={(value) => formatCurrency(value)} tick={{ fontSize: 11 }} width={70} />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(value)}
+                    labelFormatter={(label) => format(parseISO(label), 'MMM yyyy')}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {selectedPlan.debts.map((debt, index) => (
+                    <Area
+                      key={debt.accountId}
+                      type="monotone"
+                      dataKey={debt.accountId}
+                      name={debt.name}
+                      stackId="debts"
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      fillOpacity={0.4}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { addYears, format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { Goal, GoalMilestone, GoalScope } from '../types/Goal';
+
+interface GoalFormProps {
+  goal?: Goal;
+  onClose: () => void;
+}
+
+type ScopeKind = GoalScope['kind'];
+
+export function GoalForm({ goal, onClose }: GoalFormProps) {
+  const { state, saveGoal } = useNetWorth();
+  const { baseCurrency } = useCurrency();
+
+  const [name, setName] = useState(goal?.name || '');
+  const [targetAmount, setTargetAmount] = useState(goal ? String(goal.targetAmount) : '');
+  const [targetDate, setTargetDate] = useState(goal?.targetDate || format(addYears(new Date(), 1), 'yyyy-MM-dd'));
+  const [scopeKind, setScopeKind] = useState<ScopeKind>(goal?.scope.kind || 'all');
+  const [accountIds, setAccountIds] = useState<string[]>(goal?.scope.kind === 'accounts' ? goal.scope.accountIds : []);
+  const [tags, setTags] = useState<string[]>(goal?.scope.kind === 'tags' ? goal.scope.tags : []);
+  const [milestones, setMilestones] = useState<GoalMilestone[]>(goal?.milestones || []);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const availableTags = useMemo(
+    () => Array.from(new Set(state.accounts.flatMap(account => account.tags || []))).sort(),
+    [state.accounts]
+  );
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const updateMilestone = (id: string, changes: Partial<GoalMilestone>) =>
+    setMilestones(milestones.map(milestone => (milestone.id === id ? { ...milestone, ...changes } : milestone)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const amount = parseFloat(targetAmount);
+    if (!name.trim()) {
+      setFormError('Give the goal a name.');
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      setFormError('Target amount must be greater than zero.');
+      return;
+    }
+
+    let scope: GoalScope = { kind: 'all' };
+    if (scopeKind === 'accounts') {
+      if (accountIds.length === 0) {
+        setFormError('Choose at least one account.');
+        return;
+      }
+      scope = { kind: 'accounts', accountIds };
+    } else if (scopeKind === 'tags') {
+      if (tags.length === 0) {
+        setFormError('Choose at least one tag.');
+        return;
+      }
+      scope = { kind: 'tags', tags };
+    }
+
+    const cleanedMilestones = milestones.filter(milestone => milestone.name.trim() || milestone.amount > 0);
+    if (cleanedMilestones.some(milestone => !(milestone.amount > 0) || milestone.amount > amount)) {
+      setFormError('Milestone amounts must be positive and not above the target.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await saveGoal({
+        id: goal?.id,
+        name: name.trim(),
+        targetAmount: amount,
+        targetDate,
+        scope,
+        milestones: cleanedMilestones.map(milestone => ({ ...milestone, name: milestone.name.trim() || 'Milestone' })),
+      });
+      onClose();
+    } catch (err) {
+      console.error("Error saving goal:", err);
+      setFormError(err instanceof Error ? err.message : 'Failed to save goal. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div>
+        <label htmlFor="goalName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Name <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          id="goalName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="input mt-1 w-full"
+          placeholder="e.g. Emergency fund"
+          required
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="goalTargetAmount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Target ({baseCurrency})
+          </label>
+          <input
+            type="number"
+            id="goalTargetAmount"
+            value={targetAmount}
+            onChange={(e) => setTargetAmount(e.target.value)}
+            className="input mt-1 w-full"
+            required
+            min="1"
+            disabled={isSubmitting}
+          />
+        </div>
+        <div>
+          <label htmlFor="goalTargetDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Target Date
+          </label>
+          <input
+            type="date"
+            id="goalTargetDate"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            className="input mt-1 w-full"
+            required
+            disabled={isSubmitting}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="goalScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Counts towards this goal
+        </label>
+        <select
+          id="goalScope"
+          value={scopeKind}
+          onChange={(e) => setScopeKind(e.target.value as ScopeKind)}
+          className="input mt-1 w-full"
+          disabled={isSubmitting}
+        >
+          <option value="all">Total net worth</option>
+          <option value="accounts">Chosen accounts</option>
+          <option value="tags" disabled={availableTags.length === 0}>Accounts with tags</option>
+        </select>
+        {scopeKind === 'accounts' && (
+          <div className="mt-2 max-h-40 overflow-y-auto border dark:border-gray-700 rounded-md p-2 space-y-1 text-sm">
+            {state.accounts.map(account => (
+              <label key={account.id} className="flex items-center gap-2 text-gray-800 dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={accountIds.includes(account.id)}
+                  onChange={() => setAccountIds(toggle(accountIds, account.id))}
+                  disabled={isSubmitting}
+                />
+                {account.name || account.institution}
+              </label>
+            ))}
+          </div>
+        )}
+        {scopeKind === 'tags' && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {availableTags.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => setTags(toggle(tags, tag))}
+                className={`px-2 py-1 text-xs rounded-full ${
+                  tags.includes(tag)
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                }`}
+                disabled={isSubmitting}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center">
+          <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Milestones</span>
+          <button
+            type="button"
+            onClick={() => setMilestones([...milestones, { id: uuidv4(), name: '', amount: 0 }])}
+            className="btn-secondary btn-xs"
+            disabled={isSubmitting}
+          >
+            Add Milestone
+          </button>
+        </div>
+        {milestones.length === 0 ? (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Optional checkpoints on the way to the target.</p>
+        ) : (
+          <div className="mt-2 space-y-2">
+            {milestones.map(milestone => (
+              <div key={milestone.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={milestone.name}
+                  onChange={(e) => updateMilestone(milestone.id, { name: e.target.value })}
+                  className="input py-1.5 text-sm flex-1"
+                  placeholder="Name"
+                  aria-label="Milestone name"
+                  disabled={isSubmitting}
+                />
+                <input
+                  type="number"
+                  value={milestone.amount > 0 ? milestone.amount : ''}
+                  onChange={(e) => updateMilestone(milestone.id, { amount: parseFloat(e.target.value) || 0 })}
+                  className="input py-1.5 text-sm w-32"
+                  placeholder="Amount"
+                  aria-label="Milestone amount"
+                  min="1"
+                  disabled={isSubmitting}
+                />
+                <button
+                  type="button"
+                  onClick={() => setMilestones(milestones.filter(item => item.id !== milestone.id))}
+                  className="text-red-600 hover:text-red-800 text-sm"
+                  aria-label="Remove milestone"
+                  disabled={isSubmitting}
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {formError && (
+        <p className="text-sm text-red-600">Error: {formError}</p>
+      )}
+      <div className="flex justify-end space-x-3 pt-2">
+        <button type="button" onClick={onClose} className="btn-secondary" disabled={isSubmitting}>
+          Cancel
+        </button>
+        <button type="submit" className="btn-primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : (goal ? 'Update Goal' : 'Add Goal')}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,47 @@
+import { format, parseISO } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { useCurrency } from '../context/useCurrency';
+import { GoalPathPoint } from '../utils/goals';
+
+interface GoalPathChartProps {
+  data: GoalPathPoint[];
+}
+
+export function GoalPathChart({ data }: GoalPathChartProps) {
+  const { formatCurrency } = useCurrency();
+
+  if (data.length < 2) return null;
+
+  return (
+    <div className="h-40">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(date) => format(parseISO(date), 'MMM yy')}
+            tick={{ fontSize: 11 }}
+            minTickGap={24}
+          />
+          <YAxis tickFormatter={(value) => formatCurrency(value)} tick={{ fontSize: 11 }} width={70} />
+          <Tooltip
+            formatter={(value: number) => formatCurrency(value)}
+            labelFormatter={(label) => format(parseISO(label), 'MMM d, yyyy')}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line type="linear" dataKey="required" name="Required" stroke="#9CA3AF" strokeDasharray="5 5" dot={false} />
+          <Line type="monotone" dataKey="actual" name="Actual" stroke="#10b981" strokeWidth={2} dot={false} connectNulls={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNetWorth } from '../context/NetWorthContext';
 import { HistoricalDataPoint } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
 
 interface HistoricalDataEntryProps {
   onClose: () => void;
@@ -9,6 +10,7 @@ interface HistoricalDataEntryProps {
 
 export function HistoricalDataEntry({ onClose, dataPointToEdit }: HistoricalDataEntryProps) {
   const { upsertHistoricalData } = useNetWorth();
+  const { baseCurrency } = useCurrency();
   const [year, setYear] = useState<number | ''>('');
   const [netWorth, setNetWorth] = useState<number | ''>('');
   const [error, setError] = useState<string>('');
@@ -95,14 +97,14 @@ export function HistoricalDataEntry({ onClose, dataPointToEdit }: HistoricalData
           <div>
             <label htmlFor="netWorth" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Total Net Worth</label>
             <div className="relative">
-               <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">$</span>
+               <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">{baseCurrency}</span>
                <input
                  type="number"
                  id="netWorth"
                  value={netWorth}
                  onChange={(e) => setNetWorth(e.target.value === '' ? '' : parseFloat(e.target.value))}
                  placeholder="Enter total net worth for that year"
-                 className="input w-full pl-7"
+                 className="input w-full pl-14"
                  step="0.01"
                  required
                  disabled={isSubmitting}
@@ -1,5 +1,6 @@
 import { useState } from 'react'; // Import useState explicitly
 import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
 import { HistoricalDataPoint } from '../context/NetWorthContext'; // Import the type
 
 interface HistoricalDataListProps {
@@ -8,6 +9,7 @@ interface HistoricalDataListProps {
 
 export function HistoricalDataList({ onEdit }: HistoricalDataListProps) {
   const { state, deleteHistoricalData, loading, error } = useNetWorth();
+  const { formatCurrency } = useCurrency();
   const [dataPointToDelete, setDataPointToDelete] = useState<HistoricalDataPoint | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
@@ -35,10 +37,6 @@ export function HistoricalDataList({ onEdit }: HistoricalDataListProps) {
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return value.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
-  };
-
   return (
     <div className="mt-6">
       <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-3">Existing Historical Data</h4>
@@ -51,7 +49,7 @@ export function HistoricalDataList({ onEdit }: HistoricalDataListProps) {
           {state.historicalData.map((dp) => (
             <li key={dp.year} className="flex justify-between items-center py-1 border-b dark:border-gray-700 last:border-b-0">
               <span className="text-gray-800 dark:text-gray-200">
-                {dp.year}: {formatCurrency(dp.net_worth)}
+                {dp.year}: {formatCurrency(dp.net_worth, 2)}
               </span>
               <div className="space-x-2">
                 <button 
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { Account, Holding } from '../types';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { normalizeSymbol, valueHoldings } from '../utils/holdings';
+
+interface HoldingsPanelProps {
+  account: Account;
+}
+
+const EMPTY_FORM = { symbol: '', quantity: '', costBasis: '' };
+
+export function HoldingsPanel({ account }: HoldingsPanelProps) {
+  const { updateHoldings } = useNetWorth();
+  const { prices } = useCurrency();
+  const currency = getAccountCurrency(account);
+  const holdings = useMemo(() => account.holdings || [], [account.holdings]);
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const valuation = useMemo(() => valueHoldings(holdings, prices), [holdings, prices]);
+
+  const save = async (updated: Holding[]) => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await updateHoldings(account.id, updated);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save holdings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Adding a symbol that is already held tops up the existing position
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = normalizeSymbol(form.symbol);
+    const quantity = parseFloat(form.quantity);
+    const costBasis = parseFloat(form.costBasis) || 0;
+    if (!symbol) {
+      setFormError('Enter a symbol.');
+      return;
+    }
+    if (!(quantity > 0)) {
+      setFormError('Quantity must be greater than zero.');
+      return;
+    }
+
+    const existing = holdings.find(holding => holding.symbol === symbol);
+    const updated = existing
+      ? holdings.map(holding =>
+          holding.id === existing.id
+            ? { ...holding, quantity: holding.quantity + quantity, costBasis: holding.costBasis + costBasis }
+            : holding
+        )
+      : [...holdings, { id: uuidv4(), symbol, quantity, costBasis }];
+    await save(updated);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleRemove = async (holding: Holding) => {
+    if (!confirm(`Remove ${holding.symbol} from this account?`)) return;
+    await save(holdings.filter(item => item.id !== holding.id));
+  };
+
+  const money = (value: number) => formatCurrency(value, currency, 2);
+  const gainClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Holdings</h4>
+      {holdings.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          No holdings. The balance is entered manually; add positions to value it from the price table instead.
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-sm mb-2">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 text-right">
+                <th className="py-1 text-left">Symbol</th>
+                <th className="py-1">Quantity</th>
+                <th className="py-1">Price</th>
+                <th className="py-1">Value</th>
+                <th className="py-1">Gain/Loss</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuation.positions.map(position => (
+                <tr key={position.holding.id} className="text-right text-gray-800 dark:text-gray-200 border-t dark:border-gray-700">
+                  <td className="py-1 text-left font-medium">{position.holding.symbol}</td>
+                  <td className="py-1">{position.holding.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })}</td>
+                  <td className="py-1" title={position.priceDate ? `Price from ${position.priceDate}` : 'No price; valued at cost'}>
+                    {position.price === null ? '—' : money(position.price)}
+                  </td>
+                  <td className="py-1">{money(position.value)}</td>
+                  <td className={`py-1 ${position.unrealizedGain === null ? '' : gainClass(position.unrealizedGain)}`}>
+                    {position.unrealizedGain === null ? '—' : money(position.unrealizedGain)}
+                  </td>
+                  <td className="py-1 pl-2">
+                    <button
+                      onClick={() => handleRemove(position.holding)}
+                      className="text-red-600 hover:text-red-800 text-sm"
+                      disabled={isSaving}
+                      aria-label={`Remove ${position.holding.symbol}`}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="grid grid-cols-3 gap-3 text-sm mb-3">
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Market value</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{money(valuation.value)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Cost basis</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{money(valuation.costBasis)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Unrealized gain</div>
+              <div className={`font-medium ${gainClass(valuation.unrealizedGain)}`}>{money(valuation.unrealizedGain)}</div>
+            </div>
+          </div>
+          {valuation.missingSymbols.length > 0 && (
+            <p className="text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/30 rounded-md p-2 mb-3">
+              No price for {valuation.missingSymbols.join(', ')}. Those positions are valued at cost until prices are imported.
+            </p>
+          )}
+        </>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end text-sm">
+        <div>
+          <label htmlFor="holdingSymbol" className="block text-xs text-gray-500 dark:text-gray-400">Symbol</label>
+          <input type="text" id="holdingSymbol" value={form.symbol} onChange={(e) => setForm({ ...form, symbol: e.target.value })} className="input py-1.5 text-sm uppercase" required />
+        </div>
+        <div>
+          <label htmlFor="holdingQuantity" className="block text-xs text-gray-500 dark:text-gray-400">Quantity</label>
+          <input type="number" id="holdingQuantity" value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} className="input py-1.5 text-sm" step="any" min="0" required />
+        </div>
+        <div>
+          <label htmlFor="holdingCost" className="block text-xs text-gray-500 dark:text-gray-400">Total cost ({currency})</label>
+          <input type="number" id="holdingCost" value={form.costBasis} onChange={(e) => setForm({ ...form, costBasis: e.target.value })} className="input py-1.5 text-sm" step="0.01" min="0" />
+        </div>
+        <button type="submit" className="btn-primary btn-xs" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Add Holding'}
+        </button>
+      </form>
+      {formError && <p className="mt-2 text-sm text-red-600">{formError}</p>}
+    </div>
+  );
+}
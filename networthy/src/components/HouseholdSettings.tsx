@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import { HouseholdInvite } from '../types/Household';
+import { getErrorMessage } from '../utils/offlineStore';
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+// Create a household, invite a partner and manage who can see or change shared
+// accounts. Each account is shared from its own edit dialog.
+export function HouseholdSettings() {
+  const { user } = useAuth();
+  const {
+    household,
+    householdRole,
+    createHousehold,
+    inviteToHousehold,
+    revokeHouseholdInvite,
+    acceptHouseholdInvite,
+    declineHouseholdInvite,
+    updateMemberRole,
+    removeHouseholdMember,
+    deleteHousehold,
+  } = useNetWorth();
+
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdInvite['role']>('editor');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await action();
+      setMessage(success);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    run(async () => {
+      await createHousehold(name.trim());
+      setName('');
+    }, 'Household created.');
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    run(async () => {
+      await inviteToHousehold(inviteEmail, inviteRole);
+      setInviteEmail('');
+    }, `Invite saved. ${inviteEmail.trim()} will see it after signing in with that email.`);
+  };
+
+  const handleLeave = () => {
+    if (!user || !confirm('Leave this household? Your shared accounts become personal again.')) return;
+    run(() => removeHouseholdMember(user.id), 'You left the household.');
+  };
+
+  const handleDelete = () => {
+    if (!confirm('Delete this household? Every shared account becomes personal again.')) return;
+    run(deleteHousehold, 'Household deleted.');
+  };
+
+  const isOwner = householdRole === 'owner';
+
+  return (
+    <div className="space-y-4 text-sm">
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {household.receivedInvites.length > 0 && (
+        <ul className="space-y-2">
+          {household.receivedInvites.map(invite => (
+            <li key={invite.id} className="flex justify-between items-center gap-2 border dark:border-gray-700 rounded-md p-3">
+              <span className="text-gray-800 dark:text-gray-200">
+                Invited to <span className="font-medium">{invite.householdName}</span> as {ROLE_LABELS[invite.role].toLowerCase()}
+              </span>
+              <span className="flex gap-2 shrink-0">
+                <button onClick={() => run(() => declineHouseholdInvite(invite.id), 'Invite declined.')} className="btn-secondary btn-xs" disabled={isWorking}>
+                  Decline
+                </button>
+                <button
+                  onClick={() => run(() => acceptHouseholdInvite(invite.id), `You joined ${invite.householdName}.`)}
+                  className="btn-primary btn-xs"
+                  disabled={isWorking || !!household.household}
+                  title={household.household ? 'Leave your current household first' : undefined}
+                >
+                  Accept
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!household.household ? (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <p className="text-gray-600 dark:text-gray-400">
+            Share accounts with a partner: create a household, invite them by email, then mark accounts as shared.
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <label htmlFor="householdName" className="block text-xs text-gray-500 dark:text-gray-400">Household name</label>
+              <input id="householdName" type="text" value={name} onChange={(e) => setName(e.target.value)} className="input py-1.5 text-sm" placeholder="e.g. Our Household" required />
+            </div>
+            <button type="submit" className="btn-primary btn-xs" disabled={isWorking || !user}>
+              Create Household
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <div className="flex justify-between items-center gap-2">
+            <span className="font-medium text-gray-900 dark:text-gray-100">{household.household.name}</span>
+            {isOwner ? (
+              <button onClick={handleDelete} className="btn-danger-outline btn-xs" disabled={isWorking}>
+                Delete Household
+              </button>
+            ) : (
+              <button onClick={handleLeave} className="btn-secondary btn-xs" disabled={isWorking}>
+                Leave
+              </button>
+            )}
+          </div>
+
+          <ul className="space-y-1 border dark:border-gray-700 rounded-md p-3">
+            {household.members.map(member => (
+              <li key={member.userId} className="flex justify-between items-center gap-2 py-1 border-b dark:border-gray-700 last:border-b-0">
+                <span className="text-gray-800 dark:text-gray-200 truncate">
+                  {member.email}
+                  {member.userId === user?.id && <span className="text-gray-500 dark:text-gray-400"> (you)</span>}
+                </span>
+                {isOwner && member.role !== 'owner' ? (
+                  <span className="flex items-center gap-3 shrink-0">
+                    <select
+                      value={member.role}
+                      onChange={(e) => run(() => updateMemberRole(member.userId, e.target.value as HouseholdInvite['role']), 'Role updated.')}
+                      className="input py-1 text-xs w-24"
+                      disabled={isWorking}
+                      aria-label={`Role for ${member.email}`}
+                    >
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                    <button
+                      onClick={() => confirm(`Remove ${member.email} from the household?`) && run(() => removeHouseholdMember(member.userId), 'Member removed.')}
+                      className="text-red-600 hover:text-red-800"
+                      disabled={isWorking}
+                    >
+                      Remove
+                    </button>
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{ROLE_LABELS[member.role]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <>
+              <form onSubmit={handleInvite} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label htmlFor="inviteEmail" className="block text-xs text-gray-500 dark:text-gray-400">Invite by email</label>
+                  <input id="inviteEmail" type="email" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} className="input py-1.5 text-sm" required />
+                </div>
+                <div>
+                  <label htmlFor="inviteRole" className="block text-xs text-gray-500 dark:text-gray-400">Role</label>
+                  <select id="inviteRole" value={inviteRole} onChange={(e) => setInviteRole(e.target.value as HouseholdInvite['role'])} className="input py-1.5 text-sm">
+                    <option value="editor">Editor</option>
+                    <option value="viewer">Viewer</option>
+                  </select>
+                </div>
+                <button type="submit" className="btn-primary btn-xs" disabled={isWorking}>
+                  Invite
+                </button>
+              </form>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Editors can update balances and details of shared accounts; viewers can only see them.
+              </p>
+
+              {household.invites.length > 0 && (
+                <ul className="space-y-1">
+                  {household.invites.map(invite => (
+                    <li key={invite.id} className="flex justify-between items-center gap-2 text-gray-600 dark:text-gray-400">
+                      <span className="truncate">
+                        {invite.email} · {ROLE_LABELS[invite.role]} · pending
+                      </span>
+                      <button onClick={() => run(() => revokeHouseholdInvite(invite.id), 'Invite revoked.')} className="text-red-600 hover:text-red-800" disabled={isWorking}>
+                        Revoke
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { parseExcelData, ParsedAccountData } from '../utils/excelParser';
+import { getAccountTypeLabel } from '../utils/accountTypes';
+import {
+  getSharedTargets,
+  groupParsedAccounts,
+  suggestImportTargets,
+  ImportGroup,
+  ImportTarget,
+} from '../utils/importMatching';
+import { getErrorMessage } from '../utils/offlineStore';
+
+interface ImportWizardProps {
+  onClose: () => void;
+}
+
+type WizardStep = 'upload' | 'preview' | 'match' | 'commit';
+
+interface CommitResult {
+  group: ImportGroup;
+  status: 'created' | 'merged' | 'skipped' | 'failed';
+  message?: string;
+}
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'match', label: 'Match' },
+  { id: 'commit', label: 'Import' },
+];
+
+const targetToValue = (target: ImportTarget | undefined): string => {
+  if (!target || target.kind === 'new') return 'new';
+  if (target.kind === 'skip') return 'skip';
+  return target.accountId;
+};
+
+const valueToTarget = (value: string): ImportTarget => {
+  if (value === 'new') return { kind: 'new' };
+  if (value === 'skip') return { kind: 'skip' };
+  return { kind: 'existing', accountId: value };
+};
+
+export function ImportWizard({ onClose }: ImportWizardProps) {
+  const { state, addAccount, addBalanceEntries } = useNetWorth();
+  const { baseCurrency, formatCurrency } = useCurrency();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState<string>('');
+  const [parsedRows, setParsedRows] = useState<ParsedAccountData[]>([]);
+  const [activeSheet, setActiveSheet] = useState<string>('');
+  const [targets, setTargets] = useState<Record<string, ImportTarget>>({});
+  const [isParsing, setIsParsing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [results, setResults] = useState<CommitResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const rowsBySheet = useMemo(() => {
+    const sheets = new Map<string, ParsedAccountData[]>();
+    parsedRows.forEach(row => {
+      if (!sheets.has(row.originalSheet)) sheets.set(row.originalSheet, []);
+      sheets.get(row.originalSheet)!.push(row);
+    });
+    return sheets;
+  }, [parsedRows]);
+
+  const groups = useMemo(() => groupParsedAccounts(parsedRows), [parsedRows]);
+
+  const sharedTargets = useMemo(() => getSharedTargets(targets), [targets]);
+
+  const sortedAccounts = useMemo(
+    () => [...state.accounts].sort((a, b) => a.institution.localeCompare(b.institution)),
+    [state.accounts]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setIsParsing(true);
+    try {
+      const rows = await parseExcelData(file);
+      if (rows.length === 0) {
+        setError('No accounts were found in this file. Check that each sheet has a balance column.');
+        return;
+      }
+      setFileName(file.name);
+      setParsedRows(rows);
+      setActiveSheet(rows[0].originalSheet);
+      setTargets(suggestImportTargets(groupParsedAccounts(rows), state.accounts));
+      setStep('preview');
+    } catch (err) {
+      console.error("Error parsing spreadsheet:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsParsing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+    setError(null);
+    setStep('commit');
+
+    const commitResults: CommitResult[] = [];
+    const mergeGroups: { group: ImportGroup; accountId: string }[] = [];
+    for (const group of groups) {
+      const target = targets[group.key] ?? { kind: 'new' };
+      if (target.kind === 'existing') {
+        mergeGroups.push({ group, accountId: target.accountId });
+        continue;
+      }
+      try {
+        if (target.kind === 'skip') {
+          commitResults.push({ group, status: 'skipped' });
+        } else {
+          const latestEntry = group.balanceHistory[group.balanceHistory.length - 1];
+          const newAccount = await addAccount({
+            institution: group.institution,
+            type: group.type,
+            balance: latestEntry?.balance ?? 0,
+            balanceHistory: group.balanceHistory,
+            tags: [],
+            currency: baseCurrency,
+            order: state.accounts.length + commitResults.length,
+          });
+          if (!newAccount) throw new Error('Account could not be created.');
+          commitResults.push({ group, status: 'created' });
+        }
+      } catch (err) {
+        console.error(`Error importing ${group.institution}:`, err);
+        commitResults.push({
+          group,
+          status: 'failed',
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+      setResults([...commitResults]);
+    }
+
+    // Balances for existing accounts are written in one atomic batch: either
+    // every merged group lands or none does
+    if (mergeGroups.length > 0) {
+      try {
+        await addBalanceEntries(
+          mergeGroups.flatMap(({ group, accountId }) =>
+            group.balanceHistory.map(entry => ({ accountId, balance: entry.balance, date: entry.date }))
+          ),
+          'Imported balances'
+        );
+        mergeGroups.forEach(({ group }) => commitResults.push({ group, status: 'merged' }));
+      } catch (err) {
+        console.error("Error importing balances:", err);
+        const message = getErrorMessage(err);
+        mergeGroups.forEach(({ group }) => commitResults.push({ group, status: 'failed', message }));
+      }
+      setResults([...commitResults]);
+    }
+
+    setIsCommitting(false);
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+  const summary = {
+    created: groups.filter(g => targets[g.key]?.kind === 'new').length,
+    merged: groups.filter(g => targets[g.key]?.kind === 'existing').length,
+    skipped: groups.filter(g => targets[g.key]?.kind === 'skip').length,
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-3xl w-full m-4 max-h-[90vh] flex flex-col">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4 shrink-0">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Import Spreadsheet</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl"
+          aria-label="Close"
+          disabled={isCommitting}
+        >
+          &times;
+        </button>
+      </div>
+
+      {/* Step Indicator */}
+      <ol className="flex items-center gap-2 mb-6 text-sm shrink-0">
+        {STEPS.map((s, index) => (
+          <li key={s.id} className="flex items-center gap-2">
+            <span
+              className={`w-6 h-6 flex items-center justify-center rounded-full text-xs font-semibold ${
+                index <= stepIndex
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {index + 1}
+            </span>
+            <span className={index === stepIndex ? 'font-medium text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'}>
+              {s.label}
+            </span>
+            {index < STEPS.length - 1 && <span className="text-gray-300 dark:text-gray-600">›</span>}
+          </li>
+        ))}
+      </ol>
+
+      {/* Step Content - Scrollable Area */}
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Upload an Excel workbook with one sheet per year (e.g. "Inversiones2024"). Each sheet needs a balance
+              column; institution and type columns are detected automatically.
+            </p>
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 cursor-pointer hover:border-primary-500">
+              <span className="text-3xl mb-2">📄</span>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-200">
+                {isParsing ? 'Reading file...' : 'Choose a .xlsx, .xls or .csv file'}
+              </span>
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                className="hidden"
+                onChange={handleFileChange}
+                disabled={isParsing}
+              />
+            </label>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Found {parsedRows.length} rows in {rowsBySheet.size} sheets of <span className="font-medium">{fileName}</span>.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {Array.from(rowsBySheet.keys()).map(sheet => (
+                <button
+                  key={sheet}
+                  onClick={() => setActiveSheet(sheet)}
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    activeSheet === sheet
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {sheet} ({rowsBySheet.get(sheet)?.length ?? 0})
+                </button>
+              ))}
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Institution</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Type</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {(rowsBySheet.get(activeSheet) || []).map((row, index) => (
+                  <tr key={`${row.institution}-${index}`}>
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-100">{row.institution}</td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{getAccountTypeLabel(row.type)}</td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                      {row.balanceHistory[0] ? format(parseISO(row.balanceHistory[0].date), 'MMM d, yyyy') : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900 dark:text-gray-100">
+                      {formatCurrency(row.balanceHistory[0]?.balance ?? 0, 2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {step === 'match' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Rows with the same institution and type were combined. Choose whether each one updates an existing
+              account's history or becomes a new account.
+            </p>
+            {groups.map(group => {
+              const target = targets[group.key];
+              return (
+                <div key={group.key} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{group.institution}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {getAccountTypeLabel(group.type)} · {group.balanceHistory.length} dated{' '}
+                        {group.balanceHistory.length === 1 ? 'entry' : 'entries'} from {group.rows.map(r => r.originalSheet).join(', ')}
+                      </div>
+                    </div>
+                    <select
+                      value={targetToValue(target)}
+                      onChange={(e) => setTargets(prev => ({ ...prev, [group.key]: valueToTarget(e.target.value) }))}
+                      className="input py-1.5 text-sm sm:w-64"
+                    >
+                      <option value="new">Create new account</option>
+                      <option value="skip">Skip</option>
+                      {sortedAccounts.length > 0 && (
+                        <optgroup label="Merge into existing">
+                          {sortedAccounts.map(account => (
+                            <option key={account.id} value={account.id}>
+                              {account.institution}{account.name ? ` – ${account.name}` : ''} ({getAccountTypeLabel(account.type)})
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </div>
+                  {target?.kind === 'existing' && sharedTargets.has(target.accountId) && (
+                    <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-300">
+                      Another group also merges into this account. Their entries share dates, so one would overwrite the
+                      other.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === 'commit' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {isCommitting
+                ? `Importing ${results.length + 1} of ${groups.length}...`
+                : `Import finished: ${results.filter(r => r.status === 'created').length} created, ${
+                    results.filter(r => r.status === 'merged').length
+                  } merged, ${results.filter(r => r.status === 'skipped').length} skipped, ${
+                    results.filter(r => r.status === 'failed').length
+                  } failed.`}
+            </p>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {results.map(result => (
+                <li key={result.group.key} className="flex justify-between py-2">
+                  <span className="text-gray-900 dark:text-gray-100">{result.group.institution}</span>
+                  <span
+                    className={
+                      result.status === 'failed'
+                        ? 'text-red-600'
+                        : result.status === 'skipped'
+                          ? 'text-gray-500'
+                          : 'text-green-600'
+                    }
+                    title={result.message}
+                  >
+                    {result.status}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">Error: {error}</p>}
+      </div>
+
+      {/* Footer */}
+      <div className="flex justify-between items-center pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 shrink-0">
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {step === 'match' && `${summary.created} new · ${summary.merged} merged · ${summary.skipped} skipped`}
+        </div>
+        <div className="flex space-x-3">
+          {step === 'preview' && (
+            <>
+              <button onClick={() => setStep('upload')} className="btn-secondary">Back</button>
+              <button onClick={() => setStep('match')} className="btn-primary">Next</button>
+            </>
+          )}
+          {step === 'match' && (
+            <>
+              <button onClick={() => setStep('preview')} className="btn-secondary">Back</button>
+              <button
+                onClick={handleCommit}
+                className="btn-primary"
+                disabled={summary.created + summary.merged === 0}
+              >
+                Import
+              </button>
+            </>
+          )}
+          {step === 'commit' && (
+            <button onClick={onClose} className="btn-primary" disabled={isCommitting}>
+              {isCommitting ? 'Importing...' : 'Done'}
+            </button>
+          )}
+          {step === 'upload' && (
+            <button onClick={onClose} className="btn-secondary" disabled={isParsing}>Cancel</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
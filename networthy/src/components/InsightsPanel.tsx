@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { FinancialInsight } from '../types';
+import { DEFAULT_INSIGHT_SETTINGS, INSIGHT_RULES, InsightRuleId, InsightSettings, generateInsights } from '../utils/insights';
+
+const SETTINGS_STORAGE_KEY = 'networthy_insight_settings';
+
+const loadSettings = (): InsightSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_INSIGHT_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<InsightSettings>;
+    return {
+      ...DEFAULT_INSIGHT_SETTINGS,
+      ...parsed,
+      enabled: { ...DEFAULT_INSIGHT_SETTINGS.enabled, ...(parsed.enabled || {}) },
+    };
+  } catch {
+    return DEFAULT_INSIGHT_SETTINGS;
+  }
+};
+
+const INSIGHT_STYLES: Record<FinancialInsight['type'], { icon: string; className: string }> = {
+  warning: { icon: '⚠️', className: 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200' },
+  suggestion: { icon: '💡', className: 'bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200' },
+  achievement: { icon: '🏆', className: 'bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200' },
+};
+
+export function InsightsPanel() {
+  const { visibleAccounts } = useNetWorth();
+  const { convert, formatCurrency } = useCurrency();
+  const [settings, setSettings] = useState<InsightSettings>(loadSettings);
+  const [showRules, setShowRules] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const insights = useMemo(
+    () => generateInsights({ accounts: visibleAccounts, settings, convert, formatAmount: formatCurrency, now: new Date() }),
+    [visibleAccounts, settings, convert, formatCurrency]
+  );
+
+  const toggleRule = (id: InsightRuleId) =>
+    setSettings(prev => ({ ...prev, enabled: { ...prev.enabled, [id]: !prev.enabled[id] } }));
+
+  if (visibleAccounts.length === 0) return null;
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Insights</h3>
+        <button onClick={() => setShowRules(!showRules)} className="btn-secondary btn-xs">
+          {showRules ? 'Hide Rules' : 'Rules'}
+        </button>
+      </div>
+
+      {showRules && (
+        <div className="mb-4 space-y-2 border dark:border-gray-700 rounded-md p-3 text-sm">
+          {INSIGHT_RULES.map(rule => (
+            <label key={rule.id} className="flex items-start gap-2 text-gray-800 dark:text-gray-200">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={settings.enabled[rule.id]}
+                onChange={() => toggleRule(rule.id)}
+              />
+              <span>
+                <span className="font-medium">{rule.label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{rule.description}</span>
+              </span>
+            </label>
+          ))}
+          <div className="grid grid-cols-2 gap-2 pt-2">
+            <div>
+              <label htmlFor="insightStaleDays" className="block text-xs text-gray-500 dark:text-gray-400">Stale after (days)</label>
+              <input
+                type="number"
+                id="insightStaleDays"
+                value={settings.staleDays}
+                onChange={(e) => setSettings({ ...settings, staleDays: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className="input py-1.5 text-sm"
+                min="1"
+              />
+            </div>
+            <div>
+              <label htmlFor="insightConcentration" className="block text-xs text-gray-500 dark:text-gray-400">Concentration above (%)</label>
+              <input
+                type="number"
+                id="insightConcentration"
+                value={settings.concentrationPercent}
+                onChange={(e) => setSettings({ ...settings, concentrationPercent: Math.min(100, Math.max(1, parseFloat(e.target.value) || 1)) })}
+                className="input py-1.5 text-sm"
+                min="1"
+                max="100"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {insights.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">Nothing to flag right now.</p>
+      ) : (
+        <ul className="space-y-2">
+          {insights.map(insight => (
+            <li key={insight.id} className={`flex gap-2 rounded-md p-2 text-sm ${INSIGHT_STYLES[insight.type].className}`}>
+              <span aria-hidden="true">{INSIGHT_STYLES[insight.type].icon}</span>
+              <span>{insight.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
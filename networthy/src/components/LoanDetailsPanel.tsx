@@ -0,0 +1,279 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth, getLatestBalanceEntry } from '../context/NetWorthContext';
+import { Account, LoanDetails } from '../types';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import {
+  buildAmortizationSchedule,
+  getExpectedBalanceAt,
+  getInterestPaidToDate,
+  getLoanBalanceToday,
+  getLoanPayment,
+  projectPayoff,
+} from '../utils/amortization';
+
+interface LoanDetailsPanelProps {
+  account: Account;
+}
+
+interface LoanFormState {
+  principal: string;
+  annualRate: string;
+  termYears: string;
+  startDate: string;
+}
+
+// Prefill from the oldest balance entry: usually the amount borrowed on day one
+const getInitialForm = (account: Account): LoanFormState => {
+  const details = account.loanDetails;
+  if (details) {
+    return {
+      principal: String(details.principal),
+      annualRate: String(details.annualRate),
+      termYears: String(details.termMonths / 12),
+      startDate: details.startDate,
+    };
+  }
+  const oldest = [...(account.balanceHistory || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+  return {
+    principal: oldest ? String(oldest.balance) : '',
+    annualRate: '',
+    termYears: '30',
+    startDate: oldest ? format(parseISO(oldest.date), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
+  };
+};
+
+export function LoanDetailsPanel({ account }: LoanDetailsPanelProps) {
+  const { updateLoanDetails } = useNetWorth();
+  const currency = getAccountCurrency(account);
+  const details = account.loanDetails || null;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<LoanFormState>(() => getInitialForm(account));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [extraPayment, setExtraPayment] = useState('');
+
+  const summary = useMemo(() => {
+    if (!details) return null;
+    const now = new Date();
+    const schedule = buildAmortizationSchedule(details);
+    const payment = getLoanPayment(details);
+    const latestEntry = getLatestBalanceEntry(account);
+    const currentBalance = getLoanBalanceToday(account, details, now);
+    const projectionStart = latestEntry ? parseISO(latestEntry.date) : now;
+    const expectedToday = getExpectedBalanceAt(details, schedule, now);
+
+    // Yearly roll-up keeps the schedule readable for 30-year mortgages
+    const years = new Map<string, { principal: number; interest: number; balance: number }>();
+    schedule.forEach(row => {
+      const year = row.date.slice(0, 4);
+      const entry = years.get(year) || { principal: 0, interest: 0, balance: 0 };
+      entry.principal += row.principal;
+      entry.interest += row.interest;
+      entry.balance = row.balance;
+      years.set(year, entry);
+    });
+
+    return {
+      payment,
+      scheduledPayoff: schedule.length > 0 ? parseISO(schedule[schedule.length - 1].date) : null,
+      scheduledInterest: schedule.reduce((sum, row) => sum + row.interest, 0),
+      interestToDate: getInterestPaidToDate(schedule, now),
+      currentBalance,
+      expectedToday,
+      projectionStart,
+      projected: projectPayoff(currentBalance, details.annualRate, payment, projectionStart),
+      yearly: Array.from(years.entries()),
+    };
+  }, [account, details]);
+
+  const extraAmount = parseFloat(extraPayment);
+  const whatIf = useMemo(() => {
+    if (!details || !summary || !(extraAmount > 0)) return null;
+    return projectPayoff(summary.currentBalance, details.annualRate, summary.payment + extraAmount, summary.projectionStart);
+  }, [details, summary, extraAmount]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const loanDetails: LoanDetails = {
+      principal: parseFloat(form.principal),
+      annualRate: parseFloat(form.annualRate),
+      termMonths: Math.round(parseFloat(form.termYears) * 12),
+      startDate: form.startDate,
+    };
+    if (!(loanDetails.principal > 0)) {
+      setFormError('Principal must be greater than zero.');
+      return;
+    }
+    if (isNaN(loanDetails.annualRate) || loanDetails.annualRate < 0) {
+      setFormError('Rate must be zero or more.');
+      return;
+    }
+    if (!(loanDetails.termMonths > 0)) {
+      setFormError('Term must be at least one month.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateLoanDetails(account.id, loanDetails);
+      setIsEditing(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save loan details.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the loan terms from this account? Balance history is kept.')) return;
+    try {
+      await updateLoanDetails(account.id, null);
+    } catch (err) {
+      console.error('Failed to remove loan details:', err);
+    }
+  };
+
+  const money = (value: number) => formatCurrency(value, currency, 2);
+
+  if (!details || isEditing) {
+    return (
+      <div className="mt-6">
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Loan Terms</h4>
+        {!details && !isEditing ? (
+          <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+            <span>Add the loan terms to see the amortization schedule and payoff date.</span>
+            <button onClick={() => setIsEditing(true)} className="btn-secondary btn-xs">Add Terms</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="grid grid-cols-2 gap-2 items-end text-sm">
+            <div>
+              <label htmlFor="loanPrincipal" className="block text-xs text-gray-500 dark:text-gray-400">Principal ({currency})</label>
+              <input type="number" id="loanPrincipal" value={form.principal} onChange={(e) => setForm({ ...form, principal: e.target.value })} className="input py-1.5 text-sm" step="0.01" min="0" required />
+            </div>
+            <div>
+              <label htmlFor="loanRate" className="block text-xs text-gray-500 dark:text-gray-400">Interest rate (APR %)</label>
+              <input type="number" id="loanRate" value={form.annualRate} onChange={(e) => setForm({ ...form, annualRate: e.target.value })} className="input py-1.5 text-sm" step="0.001" min="0" required />
+            </div>
+            <div>
+              <label htmlFor="loanTerm" className="block text-xs text-gray-500 dark:text-gray-400">Term (years)</label>
+              <input type="number" id="loanTerm" value={form.termYears} onChange={(e) => setForm({ ...form, termYears: e.target.value })} className="input py-1.5 text-sm" step="0.5" min="0" required />
+            </div>
+            <div>
+              <label htmlFor="loanStart" className="block text-xs text-gray-500 dark:text-gray-400">Start date</label>
+              <input type="date" id="loanStart" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className="input py-1.5 text-sm" required />
+            </div>
+            {formError && <p className="col-span-2 text-sm text-red-600">{formError}</p>}
+            <div className="col-span-2 flex justify-end gap-2">
+              <button type="button" onClick={() => { setIsEditing(false); setForm(getInitialForm(account)); }} className="btn-secondary btn-xs" disabled={isSaving}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary btn-xs" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Terms'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (!summary) return null;
+  const variance = summary.currentBalance - summary.expectedToday;
+
+  return (
+    <div className="mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Loan Terms</h4>
+        <div className="flex gap-2">
+          <button onClick={handleRemove} className="btn-danger-outline btn-xs">Remove</button>
+          <button onClick={() => { setForm(getInitialForm(account)); setIsEditing(true); }} className="btn-secondary btn-xs">Edit</button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        {money(details.principal)} at {details.annualRate}% over {details.termMonths / 12} years from {format(parseISO(details.startDate), 'MMM d, yyyy')}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+        <div>
+          <div className="text-gray-500 dark:text-gray-400">Monthly payment</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{money(summary.payment)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500 dark:text-gray-400">Scheduled payoff</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {summary.scheduledPayoff ? format(summary.scheduledPayoff, 'MMM yyyy') : '—'}
+          </div>
+        </div>
+        <div title="From the latest balance, paying the scheduled amount">
+          <div className="text-gray-500 dark:text-gray-400">Projected payoff</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {summary.projected ? format(summary.projected.payoffDate, 'MMM yyyy') : 'Never at this payment'}
+          </div>
+        </div>
+        <div title="Interest charged by the schedule up to today">
+          <div className="text-gray-500 dark:text-gray-400">Interest paid to date</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{money(summary.interestToDate)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500 dark:text-gray-400">Expected balance today</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{money(summary.expectedToday)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500 dark:text-gray-400">Actual vs schedule</div>
+          <div className={`font-medium ${variance <= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {Math.abs(variance) < 0.5 ? 'On schedule' : `${money(Math.abs(variance))} ${variance < 0 ? 'ahead' : 'behind'}`}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 text-sm">
+        <label htmlFor="loanExtra" className="block text-xs text-gray-500 dark:text-gray-400">What if I pay extra each month? ({currency})</label>
+        <input
+          type="number"
+          id="loanExtra"
+          value={extraPayment}
+          onChange={(e) => setExtraPayment(e.target.value)}
+          className="input py-1.5 text-sm w-40"
+          min="0"
+          step="10"
+        />
+        {whatIf && summary.projected && (
+          <p className="mt-2 text-gray-700 dark:text-gray-300">
+            Paid off {format(whatIf.payoffDate, 'MMM yyyy')}: {summary.projected.months - whatIf.months} months sooner,
+            saving {money(summary.projected.totalInterest - whatIf.totalInterest)} in interest.
+          </p>
+        )}
+      </div>
+
+      <details className="mt-4 text-sm">
+        <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+          Amortization schedule ({money(summary.scheduledInterest)} total interest)
+        </summary>
+        <table className="mt-2 w-full text-right">
+          <thead>
+            <tr className="text-xs text-gray-500 dark:text-gray-400">
+              <th className="py-1 text-left">Year</th>
+              <th className="py-1">Principal</th>
+              <th className="py-1">Interest</th>
+              <th className="py-1">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.yearly.map(([year, totals]) => (
+              <tr key={year} className="text-gray-800 dark:text-gray-200 border-t dark:border-gray-700">
+                <td className="py-1 text-left">{year}</td>
+                <td className="py-1">{money(totals.principal)}</td>
+                <td className="py-1">{money(totals.interest)}</td>
+                <td className="py-1">{money(totals.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
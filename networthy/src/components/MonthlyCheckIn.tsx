@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useNetWorth } from '../context/NetWorthContext';
+import { buildCheckInPlan, CheckInRow, CheckInStatus, getPreviousEntry, sortForCheckIn } from '../utils/checkIn';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { getAccountIcon } from '../utils/accountTypes';
+import { canEditAccount } from '../utils/households';
+import { getErrorMessage } from '../utils/offlineStore';
+
+interface MonthlyCheckInProps {
+  onClose: () => void;
+}
+
+const EMPTY_ROW: CheckInRow = { status: 'update', value: '' };
+
+// One screen to bring every account up to date: enter new balances, keep the
+// ones that did not move and skip the rest, then save them all as of one date
+export function MonthlyCheckIn({ onClose }: MonthlyCheckInProps) {
+  const { user } = useAuth();
+  const { state, householdRole, addBalanceEntries } = useNetWorth();
+
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [rows, setRows] = useState<Record<string, CheckInRow>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accounts = useMemo(
+    () => sortForCheckIn(state.accounts.filter(account => !user || canEditAccount(account, user.id, householdRole))),
+    [state.accounts, user, householdRole]
+  );
+
+  const plan = useMemo(() => buildCheckInPlan(accounts, rows, asOf), [accounts, rows, asOf]);
+  const hasErrors = Object.keys(plan.errors).length > 0;
+
+  const updateRow = (accountId: string, changes: Partial<CheckInRow>) => {
+    setRows(current => ({ ...current, [accountId]: { ...(current[accountId] || EMPTY_ROW), ...changes } }));
+    setMessage(null);
+  };
+
+  const toggleStatus = (accountId: string, status: CheckInStatus) => {
+    const row = rows[accountId] || EMPTY_ROW;
+    updateRow(accountId, { status: row.status === status ? 'update' : status });
+  };
+
+  // Accounts without a new balance keep their previous one
+  const markRemainingUnchanged = () => {
+    const next = { ...rows };
+    accounts.forEach(account => {
+      const row = next[account.id] || EMPTY_ROW;
+      if (row.status === 'update' && row.value.trim() === '' && getPreviousEntry(account, asOf)) {
+        next[account.id] = { ...row, status: 'unchanged' };
+      }
+    });
+    setRows(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasErrors || plan.entries.length === 0) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      // One batch: either every balance is saved or none is
+      await addBalanceEntries(plan.entries, 'Monthly check-in');
+      const saved = plan.entries.length;
+      setRows({});
+      setMessage(`Saved ${saved} ${saved === 1 ? 'balance' : 'balances'} as of ${format(parseISO(asOf), 'MMM d, yyyy')}.`);
+    } catch (err) {
+      setError(`Nothing was saved: ${getErrorMessage(err)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <label htmlFor="checkInDate" className="block text-xs text-gray-500 dark:text-gray-400">As of</label>
+          <input
+            type="date"
+            id="checkInDate"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="input py-1.5 text-sm"
+            required
+          />
+        </div>
+        <button type="button" onClick={markRemainingUnchanged} className="btn-secondary btn-xs" disabled={isSaving}>
+          Mark Rest Unchanged
+        </button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No accounts to update.</p>
+      ) : (
+        <ul className="space-y-1 border dark:border-gray-700 rounded-md p-3">
+          {accounts.map(account => {
+            const row = rows[account.id] || EMPTY_ROW;
+            const previous = getPreviousEntry(account, asOf);
+            const currency = getAccountCurrency(account);
+            return (
+              <li key={account.id} className="py-2 border-b dark:border-gray-700 last:border-b-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="flex-1 min-w-[10rem]">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {getAccountIcon(account.type)} {account.institution}
+                    </span>
+                    {account.name && <span className="text-gray-500 dark:text-gray-400"> · {account.name}</span>}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {previous
+                        ? `Last: ${formatCurrency(previous.balance, currency, 2)} on ${format(parseISO(previous.date), 'MMM d, yyyy')}`
+                        : 'No earlier balance'}
+                    </span>
+                  </span>
+                  {row.status === 'update' ? (
+                    <input
+                      type="number"
+                      value={row.value}
+                      onChange={(e) => updateRow(account.id, { value: e.target.value })}
+                      className="input py-1 text-sm w-36"
+                      step="0.01"
+                      placeholder={`New balance (${currency})`}
+                      aria-label={`New balance for ${account.institution}`}
+                      disabled={isSaving}
+                    />
+                  ) : (
+                    <span className="w-36 text-gray-500 dark:text-gray-400">
+                      {row.status === 'unchanged' ? 'Unchanged' : 'Skipped'}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => toggleStatus(account.id, 'unchanged')}
+                    className={`px-2 py-1 rounded text-xs ${row.status === 'unchanged' ? 'bg-primary-600 text-white' : 'text-primary-600 hover:text-primary-800'}`}
+                    disabled={isSaving || !previous}
+                    aria-pressed={row.status === 'unchanged'}
+                  >
+                    Unchanged
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => toggleStatus(account.id, 'skip')}
+                    className={`px-2 py-1 rounded text-xs ${row.status === 'skip' ? 'bg-gray-600 text-white' : 'text-gray-600 hover:text-gray-800 dark:text-gray-400'}`}
+                    disabled={isSaving}
+                    aria-pressed={row.status === 'skip'}
+                  >
+                    Skip
+                  </button>
+                </div>
+                {plan.errors[account.id] && <p className="mt-1 text-xs text-red-600">{plan.errors[account.id]}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-gray-600 dark:text-gray-400">
+          {plan.updated} updated · {plan.unchanged} unchanged · {plan.skipped} skipped
+        </span>
+        <span className="flex gap-2">
+          <button type="button" onClick={onClose} className="btn-secondary btn-xs" disabled={isSaving}>
+            Close
+          </button>
+          <button type="submit" className="btn-primary btn-xs" disabled={isSaving || hasErrors || plan.entries.length === 0}>
+            {isSaving ? 'Saving...' : `Save ${plan.entries.length} ${plan.entries.length === 1 ? 'Balance' : 'Balances'}`}
+          </button>
+        </span>
+      </div>
+    </form>
+  );
+}
@@ -1,31 +1,38 @@
-import { useNetWorthCalculations } from '../context/NetWorthContext';
+import { useMemo } from 'react';
+import { useNetWorth, useNetWorthCalculations } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { getTotalHomeEquity } from '../utils/valuation';
+import { InsightsPanel } from './InsightsPanel';
+import { OwnershipFilterToggle } from './OwnershipFilterToggle';
 // import { AccountType } from '../types'; // Keep if formatAccountType is used, remove otherwise
 
 // Removed unused imports: React, Recharts components, date-fns, useNetWorth, other types, helpers
 
 // const COLORS = { ... }; // Removed
 
-// Helper to format currency
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0, // Optional: remove cents for large numbers
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
 export function NetWorthDashboard() {
   // const { state } = useNetWorth(); // Removed
+  const { visibleAccounts, household } = useNetWorth();
   const { totalAssets, totalLiabilities, netWorth } = useNetWorthCalculations();
+  const { convert, formatCurrency } = useCurrency();
+
+  // Only shown once a property is linked to its mortgage
+  const homeEquity = useMemo(() => getTotalHomeEquity(visibleAccounts, convert), [visibleAccounts, convert]);
 
   // Helper to format type names for display
   // const formatAccountType = (type: AccountType): string => { ... }; // Removed
 
   return (
     <div className="space-y-8">
+      {household.household && (
+        <div className="flex justify-between items-center gap-4">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{household.household.name}</h2>
+          <OwnershipFilterToggle />
+        </div>
+      )}
+
       {/* Summary Cards - Use current calculations based on latest balances */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className={`grid grid-cols-1 gap-6 ${homeEquity ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-3'}`}>
         {/* Net Worth Card */}
         <div className="bg-gradient-to-br from-primary-500 to-primary-700 text-white rounded-xl shadow-lg p-6 flex flex-col justify-between">
           <div>
@@ -49,7 +56,24 @@ export function NetWorthDashboard() {
             {formatCurrency(totalLiabilities)}
           </p>
         </div>
+
+        {/* Home Equity Card */}
+        {homeEquity && (
+          <div className="card border border-gray-200" title="Value of linked properties minus their mortgages">
+            <h3 className="text-base font-medium text-gray-500">Home Equity</h3>
+            <p className={`text-3xl font-semibold mt-2 ${homeEquity.equity >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(homeEquity.equity)}
+            </p>
+            {homeEquity.value > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {((homeEquity.equity / homeEquity.value) * 100).toFixed(0)}% of {formatCurrency(homeEquity.value)}
+              </p>
+            )}
+          </div>
+        )}
       </div>
+
+      <InsightsPanel />
     </div>
   );
 } 
\ No newline at end of file
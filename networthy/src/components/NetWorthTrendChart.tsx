@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useNetWorth } from '../context/NetWorthContext';
-import { format, parseISO, subMonths, subYears, formatISO, endOfYear } from 'date-fns';
+import { useCurrency } from '../context/useCurrency';
+import { format, parseISO, subMonths, subYears, endOfYear } from 'date-fns';
 import {
   ResponsiveContainer,
   XAxis,
@@ -11,139 +12,92 @@ import {
   Area,
 } from 'recharts';
 import { Performance } from '../types/Performance'; // Import Performance type
-
-// Helper to format currency (Consider moving to a utils file)
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
+import { calculatePerformance } from '../utils/returns';
+import { getExternalCashFlows } from '../utils/cashFlows';
+import { buildNetWorthSeries, getEarliestBalanceDate, SeriesInterval } from '../utils/netWorthSeries';
 
 type TimeFrame = '1M' | '3M' | '6M' | '1Y' | 'ALL';
 
 export function NetWorthTrendChart() {
-  const { state } = useNetWorth();
+  const { state, visibleAccounts } = useNetWorth();
+  const { convert, formatCurrency } = useCurrency();
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('ALL');
 
-  // --- Net Worth Trend Data Calculation (Copied from Analytics) ---
+  // --- Net Worth Trend Data Calculation ---
+  // Derived from every account's balanceHistory; yearly historical data only fills
+  // the years before the earliest account entry.
   const netWorthTrendData = useMemo(() => {
     const now = new Date();
+    const earliestBalanceDate = getEarliestBalanceDate(visibleAccounts);
     let startDate: Date;
+    let interval: SeriesInterval;
 
-    // Determine start date based on timeFrame
+    // Determine start date and sampling interval based on timeFrame
     switch (timeFrame) {
       case '1M':
         startDate = subMonths(now, 1);
+        interval = 'day';
         break;
       case '3M':
         startDate = subMonths(now, 3);
+        interval = 'day';
         break;
       case '6M':
         startDate = subMonths(now, 6);
+        interval = 'week';
         break;
       case '1Y':
         startDate = subYears(now, 1);
+        interval = 'week';
         break;
       case 'ALL':
-      default:
-         const earliestSnapshotDate = state.snapshots.length > 0 
-            ? parseISO(state.snapshots.reduce((earliest, s) => s.date < earliest ? s.date : earliest, state.snapshots[0].date))
-            : now;
-         const earliestHistoricalDate = state.historicalData.length > 0
-            ? new Date(state.historicalData.reduce((earliest, h) => h.year < earliest ? h.year : earliest, state.historicalData[0].year), 0, 1) // Jan 1st of earliest year
-            : now;
-          startDate = earliestSnapshotDate < earliestHistoricalDate ? earliestSnapshotDate : earliestHistoricalDate;
-         if (state.snapshots.length === 0 && state.historicalData.length === 0) {
-            startDate = subYears(now, 100); 
-         }
+      default: {
+        const earliestHistoricalDate = state.historicalData.length > 0
+          ? new Date(Math.min(...state.historicalData.map(h => h.year)), 0, 1) // Jan 1st of earliest year
+          : null;
+        const candidates = [earliestBalanceDate, earliestHistoricalDate].filter((d): d is Date => d !== null);
+        startDate = candidates.length > 0 ? new Date(Math.min(...candidates.map(d => d.getTime()))) : now;
+        interval = 'month';
         break;
+      }
     }
 
     const historicalPoints = state.historicalData
         .map(dp => ({
-            date: formatISO(endOfYear(new Date(dp.year, 0, 1))),
+            date: format(endOfYear(new Date(dp.year, 0, 1)), 'yyyy-MM-dd'),
             value: dp.net_worth,
-            isHistorical: true 
-        }));
+            isHistorical: true
+        }))
+        .filter(p => {
+            const date = parseISO(p.date);
+            return date >= startDate && (!earliestBalanceDate || date < earliestBalanceDate);
+        });
 
-    const snapshotPoints = state.snapshots
-        .map(snapshot => ({
-            date: snapshot.date,
-            value: snapshot.netWorth,
+    const seriesStart = earliestBalanceDate && earliestBalanceDate > startDate ? earliestBalanceDate : startDate;
+    const seriesPoints = earliestBalanceDate
+        ? buildNetWorthSeries(visibleAccounts, { interval, start: seriesStart, end: now, convert }).map(point => ({
+            date: point.date,
+            value: point.netWorth,
             isHistorical: false
-        }));
+          }))
+        : [];
 
-    const allPoints = [...historicalPoints, ...snapshotPoints]
+    return [...historicalPoints, ...seriesPoints]
         .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+  }, [visibleAccounts, state.historicalData, timeFrame, convert]);
 
-    const filteredPoints = allPoints.filter(p => parseISO(p.date) >= startDate);
-    
-    if (filteredPoints.length === 0) {
-        return [];
-    }
-
-    const monthlyDataMap = new Map<string, { sum: number; count: number; points: number[] }>();
-    const finalChartPoints: { date: string; value: number; isHistorical?: boolean }[] = [];
-
-    filteredPoints.forEach(point => {
-        if (point.isHistorical) {
-             finalChartPoints.push({
-                 date: format(parseISO(point.date), 'yyyy-MM-dd'), 
-                 value: point.value,
-                 isHistorical: true
-             });
-        } else {
-            const monthKey = format(parseISO(point.date), 'yyyy-MM');
-            if (!monthlyDataMap.has(monthKey)) {
-                monthlyDataMap.set(monthKey, { sum: 0, count: 0, points: [] });
-            }
-            const monthData = monthlyDataMap.get(monthKey)!;
-            monthData.sum += point.value;
-            monthData.count += 1;
-            monthData.points.push(point.value);
-        }
-    });
-
-    monthlyDataMap.forEach((data, monthKey) => {
-        finalChartPoints.push({
-            date: format(parseISO(`${monthKey}-01`), 'yyyy-MM-dd'), 
-            value: data.sum / data.count, 
-            isHistorical: false
-        });
-    });
-
-    finalChartPoints.sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
-
-    return finalChartPoints;
-  }, [state.snapshots, state.historicalData, timeFrame]);
-
-  // --- Performance Calculation (Copied from Analytics, needed for summary) ---
+  // --- Performance Calculation (needed for summary) ---
   const performance = useMemo((): Performance | null => {
     if (netWorthTrendData.length < 2) {
       return null;
     }
-    const startData = netWorthTrendData[0];
-    const endData = netWorthTrendData[netWorthTrendData.length - 1];
-    
-    const startValue = startData.value;
-    const endValue = endData.value;
-    const percentageChange = startValue === 0 ? 0 : ((endValue - startValue) / startValue) * 100;
-
-    return {
-      totalReturn: endValue - startValue,
-      percentageChange: percentageChange,
-      timeWeightedReturn: 0, 
-      annualizedReturn: 0, 
-      startDate: startData.date,
-      endDate: endData.date,
-      startValue: startValue,
-      endValue: endValue,
-    };
-  }, [netWorthTrendData]);
-
+    // Only money entering or leaving the tracked accounts counts as a contribution
+    const flows = getExternalCashFlows(visibleAccounts).map(flow => ({
+      date: flow.date,
+      amount: convert(flow.amount, flow.currency, flow.date),
+    }));
+    return calculatePerformance(netWorthTrendData.map(point => ({ date: point.date, value: point.value })), flows);
+  }, [netWorthTrendData, visibleAccounts, convert]);
 
   return (
     // Add h-full here to ensure it fills the grid cell height
@@ -225,6 +179,13 @@ export function NetWorthTrendChart() {
               {formatCurrency(performance.totalReturn)} ({performance.percentageChange?.toFixed(1) ?? 0}%)
             </span>
           </div>
+          <div title="Growth excluding contributions and withdrawals">
+            <span className="font-medium">Time-weighted: </span>
+            <span className={performance.timeWeightedReturn >= 0 ? 'text-green-600' : 'text-red-600'}>
+              {performance.timeWeightedReturn.toFixed(1)}%
+            </span>
+            <span className="text-gray-500 dark:text-gray-400"> ({performance.annualizedReturn.toFixed(1)}%/yr)</span>
+          </div>
         </div>
       )}
     </div>
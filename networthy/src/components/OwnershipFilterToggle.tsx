@@ -0,0 +1,28 @@
+import { useNetWorth } from '../context/NetWorthContext';
+import { OWNERSHIP_FILTERS } from '../utils/households';
+
+// Household / mine / partner switch. Only shown to members of a household.
+export function OwnershipFilterToggle() {
+  const { household, ownershipFilter, setOwnershipFilter } = useNetWorth();
+
+  if (!household.household) return null;
+
+  return (
+    <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden text-sm" role="group" aria-label="Whose accounts to show">
+      {OWNERSHIP_FILTERS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => setOwnershipFilter(option.value)}
+          className={`px-3 py-1 transition-colors ${
+            ownershipFilter === option.value
+              ? 'bg-primary-600 text-white'
+              : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700'
+          }`}
+          aria-pressed={ownershipFilter === option.value}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
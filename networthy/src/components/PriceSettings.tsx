@@ -0,0 +1,100 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { getLatestPrices, parsePriceFile } from '../utils/holdings';
+
+export function PriceSettings() {
+  const { state, revalueHoldings } = useNetWorth();
+  const { prices, importPrices, deletePrice } = useCurrency();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const latestPrices = useMemo(() => getLatestPrices(prices), [prices]);
+
+  // Symbols held somewhere that the table cannot price
+  const unpricedSymbols = useMemo(() => {
+    const priced = new Set(prices.map(quote => quote.symbol));
+    const held = new Set(state.accounts.flatMap(account => (account.holdings || []).map(holding => holding.symbol)));
+    return Array.from(held).filter(symbol => !priced.has(symbol)).sort();
+  }, [prices, state.accounts]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setError(null);
+    try {
+      const { quotes, skipped } = parsePriceFile(await file.text(), file.name);
+      if (quotes.length === 0) {
+        setError('No valid prices found in the file.');
+        return;
+      }
+      const merged = importPrices(quotes);
+      await revalueHoldings(merged);
+      setMessage(
+        `Imported ${quotes.length} price${quotes.length === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} invalid row${skipped === 1 ? '' : 's'}` : ''}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import prices.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Load a CSV (symbol, price, optional date) or JSON file. Prices stay on this device and revalue every account with holdings.
+        </p>
+        <button onClick={() => fileInputRef.current?.click()} className="btn-secondary btn-xs shrink-0">
+          Import Prices
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {message && <p className="text-sm text-green-700 dark:text-green-300">{message}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {unpricedSymbols.length > 0 && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/30 rounded-md p-2">
+          No price for {unpricedSymbols.join(', ')}. Those holdings are valued at cost.
+        </p>
+      )}
+
+      {latestPrices.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No prices stored yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto border dark:border-gray-700 rounded-md p-3 text-sm">
+          {latestPrices.map(quote => (
+            <li
+              key={`${quote.symbol}-${quote.date}`}
+              className="flex justify-between items-center py-1 border-b dark:border-gray-700 last:border-b-0"
+            >
+              <span className="text-gray-800 dark:text-gray-200">
+                <span className="font-medium">{quote.symbol}</span> {quote.price.toLocaleString('en-US', { maximumFractionDigits: 8 })}
+                <span className="text-gray-500 dark:text-gray-400"> on {format(parseISO(quote.date), 'MMM d, yyyy')}</span>
+              </span>
+              <button
+                onClick={() => deletePrice(quote)}
+                className="text-red-600 hover:text-red-800 text-sm"
+                aria-label={`Delete ${quote.symbol} price from ${quote.date}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
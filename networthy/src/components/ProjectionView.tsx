@@ -0,0 +1,276 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { format, parseISO, subMonths } from 'date-fns';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from 'recharts';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { AccountType } from '../types';
+import { getAccountTypeLabel } from '../utils/accountTypes';
+import { summarizeCashFlows } from '../utils/cashFlows';
+import {
+  DEFAULT_RETURN_ASSUMPTIONS,
+  ReturnAssumptions,
+  getAllocationByType,
+  getGoalExposures,
+  runProjection,
+} from '../utils/monteCarlo';
+
+const SETTINGS_STORAGE_KEY = 'networthy_projection_settings';
+
+interface ProjectionSettings {
+  years: number;
+  simulations: number;
+  seed: number;
+  monthlyContribution: number | null; // null: use the last 12 months of net savings
+  inflationRate: number;
+  withdrawalRate: number;
+  annualSpending: number;
+  assumptions: ReturnAssumptions;
+}
+
+const DEFAULT_SETTINGS: ProjectionSettings = {
+  years: 30,
+  simulations: 1000,
+  seed: 42,
+  monthlyContribution: null,
+  inflationRate: 2.5,
+  withdrawalRate: 4,
+  annualSpending: 40000,
+  assumptions: DEFAULT_RETURN_ASSUMPTIONS,
+};
+
+const loadSettings = (): ProjectionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<ProjectionSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      assumptions: { ...DEFAULT_RETURN_ASSUMPTIONS, ...(parsed.assumptions || {}) },
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export function ProjectionView() {
+  const { state, visibleAccounts } = useNetWorth();
+  const { convert, formatCurrency } = useCurrency();
+  const [settings, setSettings] = useState<ProjectionSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const allocation = useMemo(() => getAllocationByType(visibleAccounts, convert), [visibleAccounts, convert]);
+  const heldTypes = useMemo(
+    () => (Object.keys(allocation) as AccountType[]).filter(type => allocation[type]),
+    [allocation]
+  );
+
+  // Default contribution: average monthly net savings recorded over the last year
+  const recentMonthlySavings = useMemo(() => {
+    const summary = summarizeCashFlows(visibleAccounts, { start: subMonths(new Date(), 12), end: new Date() }, convert);
+    return Math.round(summary.netSavings / 12);
+  }, [visibleAccounts, convert]);
+  const monthlyContribution = settings.monthlyContribution ?? recentMonthlySavings;
+
+  // Typing into the inputs should not wait for the simulation to finish
+  const deferredSettings = useDeferredValue(settings);
+  const deferredContribution = useDeferredValue(monthlyContribution);
+  const result = useMemo(() => {
+    if (heldTypes.length === 0) return null;
+    return runProjection(
+      {
+        allocation,
+        assumptions: deferredSettings.assumptions,
+        monthlyContribution: deferredContribution,
+        inflationRate: deferredSettings.inflationRate,
+        years: deferredSettings.years,
+        simulations: deferredSettings.simulations,
+        seed: deferredSettings.seed,
+        withdrawalRate: deferredSettings.withdrawalRate,
+        annualSpending: deferredSettings.annualSpending,
+      },
+      getGoalExposures(state.goals, visibleAccounts, convert)
+    );
+  }, [allocation, heldTypes, deferredSettings, deferredContribution, state.goals, visibleAccounts, convert]);
+
+  const update = (changes: Partial<ProjectionSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+  const updateAssumption = (type: AccountType, field: 'expectedReturn' | 'volatility', value: number) =>
+    setSettings(prev => ({
+      ...prev,
+      assumptions: { ...prev.assumptions, [type]: { ...prev.assumptions[type], [field]: value } },
+    }));
+
+  const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void, step = 'any') => (
+    <div>
+      <label htmlFor={id} className="block text-xs text-gray-500 dark:text-gray-400">{label}</label>
+      <input
+        type="number"
+        id={id}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="input py-1.5 text-sm"
+        step={step}
+      />
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Projection</h3>
+        <button onClick={() => setSettings(DEFAULT_SETTINGS)} className="btn-secondary btn-xs">
+          Reset Assumptions
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        {numberInput('projYears', 'Years', settings.years, value => update({ years: Math.min(60, Math.max(1, Math.round(value))) }), '1')}
+        {numberInput('projContribution', 'Monthly contribution', monthlyContribution, value => update({ monthlyContribution: value }))}
+        {numberInput('projInflation', 'Inflation %/yr', settings.inflationRate, value => update({ inflationRate: value }))}
+        {numberInput('projSeed', 'Seed', settings.seed, value => update({ seed: Math.round(value) }), '1')}
+        {numberInput('projSpending', 'Annual spending (today)', settings.annualSpending, value => update({ annualSpending: value }))}
+        {numberInput('projWithdrawal', 'Withdrawal rate %', settings.withdrawalRate, value => update({ withdrawalRate: value }))}
+        <div>
+          <label htmlFor="projSimulations" className="block text-xs text-gray-500 dark:text-gray-400">Simulations</label>
+          <select
+            id="projSimulations"
+            value={settings.simulations}
+            onChange={(e) => update({ simulations: parseInt(e.target.value, 10) })}
+            className="input py-1.5 text-sm"
+          >
+            {[250, 500, 1000, 2500].map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {heldTypes.length > 0 && (
+        <details className="mb-4 text-sm">
+          <summary className="cursor-pointer text-gray-700 dark:text-gray-300">Return assumptions by account type</summary>
+          <table className="mt-2 w-full">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+                <th className="py-1">Type</th>
+                <th className="py-1">Value</th>
+                <th className="py-1">Return %/yr</th>
+                <th className="py-1">Volatility %/yr</th>
+              </tr>
+            </thead>
+            <tbody>
+              {heldTypes.map(type => (
+                <tr key={type} className="text-gray-800 dark:text-gray-200">
+                  <td className="py-1">{getAccountTypeLabel(type)}</td>
+                  <td className="py-1">{formatCurrency(allocation[type] || 0)}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={settings.assumptions[type].expectedReturn}
+                      onChange={(e) => updateAssumption(type, 'expectedReturn', parseFloat(e.target.value) || 0)}
+                      className="input py-1 text-sm w-24"
+                      step="any"
+                      aria-label={`${getAccountTypeLabel(type)} expected return`}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      value={settings.assumptions[type].volatility}
+                      onChange={(e) => updateAssumption(type, 'volatility', Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="input py-1 text-sm w-24"
+                      step="any"
+                      min="0"
+                      aria-label={`${getAccountTypeLabel(type)} volatility`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+
+      {!result ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">Add accounts with balances to see a projection.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            Net worth in today's money. Shaded bands: 10th–90th and 25th–75th percentiles; line: median.
+          </p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={result.bands}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(date) => format(parseISO(date), 'yyyy')}
+                  tick={{ fontSize: 11 }}
+                  minTickGap={30}
+                />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} tick={{ fontSize: 11 }} width={80} />
+                <Tooltip
+                  formatter={(value: number | number[]) =>
+                    Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value)
+                  }
+                  labelFormatter={(label) => format(parseISO(label), 'MMM yyyy')}
+                />
+                <Area dataKey={(point) => [point.p10, point.p90]} name="10th–90th" stroke="none" fill="#10b981" fillOpacity={0.15} isAnimationActive={false} />
+                <Area dataKey={(point) => [point.p25, point.p75]} name="25th–75th" stroke="none" fill="#10b981" fillOpacity={0.3} isAnimationActive={false} />
+                <Line dataKey="p50" name="Median" stroke="#059669" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <h4 className="font-medium text-gray-800 dark:text-gray-100 mb-1">Financial independence</h4>
+              {result.fiNumber === null ? (
+                <p className="text-gray-500 dark:text-gray-400">Enter annual spending and a withdrawal rate.</p>
+              ) : (
+                <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+                  <li>FI number: <span className="font-medium">{formatCurrency(result.fiNumber)}</span></li>
+                  <li>
+                    Median FI date:{' '}
+                    <span className="font-medium">
+                      {result.fiDate ? format(result.fiDate, 'MMM yyyy') : `Beyond ${settings.years} years`}
+                    </span>
+                  </li>
+                  <li>Chance within {settings.years} years: <span className="font-medium">{(result.fiProbability * 100).toFixed(0)}%</span></li>
+                </ul>
+              )}
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-800 dark:text-gray-100 mb-1">Chance of reaching goals</h4>
+              {result.goalProbabilities.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">No goals set.</p>
+              ) : (
+                <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+                  {result.goalProbabilities.map(({ goal, probability }) => (
+                    <li key={goal.id} className="flex justify-between">
+                      <span>{goal.name}</span>
+                      <span className="font-medium">
+                        {probability === null ? 'Beyond horizon' : `${(probability * 100).toFixed(0)}%`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
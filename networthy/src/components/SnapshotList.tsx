@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { NetWorthSnapshot } from '../types/NetWorthSnapshot';
+
+export function SnapshotList() {
+  const { state, deleteSnapshot } = useNetWorth();
+  const { formatCurrency } = useCurrency();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // Newest first for display
+  const snapshots = [...state.snapshots].reverse();
+
+  const handleDelete = async (snapshot: NetWorthSnapshot) => {
+    if (!confirm(`Delete the snapshot from ${format(parseISO(snapshot.date), 'MMM d, yyyy')}?`)) return;
+
+    setDeletingId(snapshot.id);
+    setDeleteError(null);
+    try {
+      await deleteSnapshot(snapshot.id);
+    } catch (err) {
+      console.error("Failed to delete snapshot:", err);
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete snapshot. Please try again.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        One snapshot is saved per day whenever your balances change.
+      </p>
+      {snapshots.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No snapshots recorded yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-60 overflow-y-auto border dark:border-gray-700 rounded-md p-3">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id} className="flex justify-between items-center py-1 border-b dark:border-gray-700 last:border-b-0">
+              <span className="text-gray-800 dark:text-gray-200">
+                {format(parseISO(snapshot.date), 'MMM d, yyyy')}: {formatCurrency(snapshot.netWorth)}
+              </span>
+              <button
+                onClick={() => handleDelete(snapshot)}
+                className="text-red-600 hover:text-red-800 text-sm disabled:opacity-50"
+                disabled={deletingId === snapshot.id}
+                aria-label={`Delete snapshot from ${snapshot.date}`}
+              >
+                {deletingId === snapshot.id ? 'Deleting...' : 'Delete'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {deleteError && <p className="text-red-500 text-sm mt-2">Error: {deleteError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import { useNetWorth, StatementImportResult } from '../context/NetWorthContext';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { getAccountTypeLabel } from '../utils/accountTypes';
+import {
+  CSV_DATE_FORMATS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  ParsedStatement,
+  detectCsvMapping,
+  findStatementProfile,
+  formatStatementDate,
+  isOfx,
+  parseCsvRows,
+  parseCsvStatement,
+  parseOfx,
+  saveStatementProfile,
+} from '../utils/statementParser';
+
+interface StatementImportProps {
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+
+const MAPPING_FIELDS: { key: keyof Omit<CsvColumnMapping, 'dateFormat' | 'invertAmounts'>; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Debit' },
+  { key: 'credit', label: 'Credit' },
+  { key: 'balance', label: 'Running balance' },
+];
+
+const PREVIEW_ROWS = 20;
+
+export function StatementImport({ onClose }: StatementImportProps) {
+  const { state, importStatement } = useNetWorth();
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [institution, setInstitution] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [closingBalance, setClosingBalance] = useState('');
+  const [includeTransactions, setIncludeTransactions] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<StatementImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedAccounts = useMemo(
+    () => [...state.accounts].sort((a, b) => a.institution.localeCompare(b.institution)),
+    [state.accounts]
+  );
+  const account = state.accounts.find(item => item.id === accountId);
+
+  // Picking an account defaults the ledger option to whether it already keeps one
+  const selectAccount = (id: string) => {
+    setAccountId(id);
+    const selected = state.accounts.find(item => item.id === id);
+    setIncludeTransactions((selected?.cashFlows || []).length > 0);
+    if (selected && !institution) setInstitution(selected.institution);
+  };
+
+  const showReview = (parsed: ParsedStatement) => {
+    setStatement(parsed);
+    setClosingBalance(parsed.closingBalance === null ? '' : String(parsed.closingBalance));
+    setStep('review');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const text = await file.text();
+      setFileName(file.name);
+
+      if (isOfx(text, file.name)) {
+        const parsed = parseOfx(text);
+        const profile = findStatementProfile(parsed.institution);
+        setInstitution(parsed.institution || '');
+        if (profile?.accountId) selectAccount(profile.accountId);
+        showReview(parsed);
+        return;
+      }
+
+      const rows = parseCsvRows(text);
+      if (rows.length < 2) throw new Error('The file has no rows to import.');
+      setCsvRows(rows);
+      // Sample the guessed date column so the date format can be detected
+      const dateIndex = Math.max(0, rows[0].indexOf(detectCsvMapping(rows[0]).date));
+      setMapping(detectCsvMapping(rows[0], rows.slice(1, 20).map(row => row[dateIndex])));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // A saved profile for the institution replaces the guessed mapping
+  const handleInstitutionBlur = () => {
+    const profile = findStatementProfile(institution);
+    if (!profile) return;
+    if (profile.mapping && profile.mapping.date && csvRows[0]?.includes(profile.mapping.date)) setMapping(profile.mapping);
+    if (profile.accountId && !accountId) selectAccount(profile.accountId);
+  };
+
+  const handleApplyMapping = () => {
+    if (!mapping) return;
+    setError(null);
+    try {
+      showReview(parseCsvStatement(csvRows, mapping));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement || !accountId) return;
+    const balance = closingBalance.trim() === '' ? null : parseFloat(closingBalance);
+    if (balance !== null && isNaN(balance)) {
+      setError('Closing balance must be a number.');
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const importResult = await importStatement(accountId, { ...statement, closingBalance: balance }, includeTransactions);
+      if (institution.trim()) {
+        saveStatementProfile({ institution: institution.trim(), accountId, mapping: statement.format === 'csv' ? mapping : null });
+      }
+      setResult(importResult);
+      setStep('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const money = (value: number) => formatCurrency(value, account ? getAccountCurrency(account) : statement?.currency || undefined, 2);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 max-w-3xl w-full m-4 max-h-[90vh] flex flex-col">
+      <div className="flex justify-between items-center mb-4 shrink-0">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Import Bank Statement</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl"
+          aria-label="Close"
+          disabled={isImporting}
+        >
+          &times;
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+        {step === 'upload' && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Upload an OFX/QFX download or a CSV export of transactions. The closing balance is added to the account's
+              history; importing the same statement again does not create duplicates.
+            </p>
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 cursor-pointer hover:border-primary-500">
+              <span className="text-3xl mb-2">🏦</span>
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Choose a .ofx, .qfx or .csv file</span>
+              <input type="file" accept=".ofx,.qfx,.csv,text/csv" className="hidden" onChange={handleFileChange} />
+            </label>
+          </>
+        )}
+
+        {(step === 'map' || step === 'review') && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+            <div>
+              <label htmlFor="statementInstitution" className="block text-xs text-gray-500 dark:text-gray-400">Institution (saves the mapping)</label>
+              <input
+                type="text"
+                id="statementInstitution"
+                value={institution}
+                onChange={(e) => setInstitution(e.target.value)}
+                onBlur={handleInstitutionBlur}
+                className="input py-1.5 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="statementAccount" className="block text-xs text-gray-500 dark:text-gray-400">Account</label>
+              <select id="statementAccount" value={accountId} onChange={(e) => selectAccount(e.target.value)} className="input py-1.5 text-sm">
+                <option value="">Choose an account</option>
+                {sortedAccounts.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.institution}{item.name ? ` – ${item.name}` : ''} ({getAccountTypeLabel(item.type)})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Match the columns of <span className="font-medium">{fileName}</span>. Use either a signed amount column or debit and credit columns.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+              {MAPPING_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={`mapping-${field.key}`} className="block text-xs text-gray-500 dark:text-gray-400">{field.label}</label>
+                  <select
+                    id={`mapping-${field.key}`}
+                    value={mapping[field.key]}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                    className="input py-1.5 text-sm"
+                  >
+                    <option value="">—</option>
+                    {csvRows[0].map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label htmlFor="mapping-dateFormat" className="block text-xs text-gray-500 dark:text-gray-400">Date format</label>
+                <select
+                  id="mapping-dateFormat"
+                  value={mapping.dateFormat}
+                  onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as CsvDateFormat })}
+                  className="input py-1.5 text-sm"
+                >
+                  {CSV_DATE_FORMATS.map(dateFormat => (
+                    <option key={dateFormat} value={dateFormat}>{dateFormat}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 col-span-2">
+                <input
+                  type="checkbox"
+                  checked={mapping.invertAmounts}
+                  onChange={(e) => setMapping({ ...mapping, invertAmounts: e.target.checked })}
+                />
+                Flip signs (charges are listed as positive amounts)
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">First row: {csvRows[1]?.join(' | ')}</p>
+          </div>
+        )}
+
+        {step === 'review' && statement && (
+          <div className="space-y-3 text-sm">
+            <p className="text-gray-600 dark:text-gray-400">
+              {statement.transactions.length} transactions in <span className="font-medium">{fileName}</span>
+              {statement.accountNumber && ` for account ending ${statement.accountNumber}`}.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="statementClosing" className="block text-xs text-gray-500 dark:text-gray-400">
+                  Closing balance{statement.closingDate ? ` on ${formatStatementDate(statement.closingDate)}` : ''}
+                </label>
+                <input
+                  type="number"
+                  id="statementClosing"
+                  value={closingBalance}
+                  onChange={(e) => setClosingBalance(e.target.value)}
+                  className="input py-1.5 text-sm"
+                  step="0.01"
+                  placeholder="Not in file"
+                />
+              </div>
+              <label className="flex items-end gap-2 pb-2 text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={includeTransactions} onChange={(e) => setIncludeTransactions(e.target.checked)} />
+                Add transactions to the cash-flow ledger
+              </label>
+            </div>
+            {statement.transactions.length > 0 && (
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Description</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {statement.transactions.slice(0, PREVIEW_ROWS).map(transaction => (
+                    <tr key={transaction.id}>
+                      <td className="px-3 py-1 text-gray-600 dark:text-gray-300 whitespace-nowrap">{formatStatementDate(transaction.date)}</td>
+                      <td className="px-3 py-1 text-gray-900 dark:text-gray-100">{transaction.description}</td>
+                      <td className={`px-3 py-1 text-right ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {money(transaction.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {statement.transactions.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">…and {statement.transactions.length - PREVIEW_ROWS} more.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {result.balanceRecorded ? 'Closing balance recorded. ' : 'No closing balance recorded. '}
+            {includeTransactions && `${result.transactionsAdded} transactions added, ${result.transactionsSkipped} already imported.`}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">Error: {error}</p>}
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 shrink-0">
+        {step === 'upload' && <button onClick={onClose} className="btn-secondary">Cancel</button>}
+        {step === 'map' && (
+          <>
+            <button onClick={() => setStep('upload')} className="btn-secondary">Back</button>
+            <button onClick={handleApplyMapping} className="btn-primary">Next</button>
+          </>
+        )}
+        {step === 'review' && (
+          <>
+            <button onClick={() => setStep(statement?.format === 'csv' ? 'map' : 'upload')} className="btn-secondary" disabled={isImporting}>
+              Back
+            </button>
+            <button onClick={handleImport} className="btn-primary" disabled={!accountId || isImporting}>
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </>
+        )}
+        {step === 'done' && <button onClick={onClose} className="btn-primary">Done</button>}
+      </div>
+    </div>
+  );
+}
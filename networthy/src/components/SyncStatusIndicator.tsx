@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+
+// Header badge for offline mode: shows queued changes, sync progress and any
+// conflicts from the last sync. Hidden while online with nothing to report.
+export function SyncStatusIndicator() {
+  const { sync, syncNow, dismissSyncConflicts } = useNetWorth();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (sync.online && !sync.syncing && sync.pending === 0 && sync.conflicts.length === 0) return null;
+
+  const pendingText = `${sync.pending} change${sync.pending === 1 ? '' : 's'} not synced`;
+  let label: string;
+  let tone: string;
+  if (!sync.online) {
+    label = sync.pending > 0 ? `Offline · ${pendingText}` : 'Offline';
+    tone = 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-100';
+  } else if (sync.syncing) {
+    label = 'Syncing...';
+    tone = 'bg-primary-100 text-primary-800 dark:bg-primary-900/40 dark:text-primary-200';
+  } else if (sync.conflicts.length > 0) {
+    label = `${sync.conflicts.length} sync conflict${sync.conflicts.length === 1 ? '' : 's'}`;
+    tone = 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200';
+  } else {
+    label = pendingText;
+    tone = 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200';
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setShowDetails(prev => !prev)} className={`text-xs font-medium rounded-full px-3 py-1 ${tone}`}>
+        {label}
+      </button>
+      {showDetails && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-md shadow-lg border dark:border-gray-700 p-3 text-sm z-50 space-y-2">
+          <p className="text-gray-600 dark:text-gray-300">
+            {sync.online
+              ? 'Changes made offline are sent in the order they were made.'
+              : 'You are offline. Balance and account changes are saved on this device and synced when the connection returns.'}
+          </p>
+          {sync.lastSyncedAt && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Last synced {format(new Date(sync.lastSyncedAt), 'MMM d, HH:mm')}</p>
+          )}
+          {sync.conflicts.length > 0 && (
+            <>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {sync.conflicts.map(conflict => (
+                  <li key={conflict.id} className="border-b dark:border-gray-700 last:border-b-0 pb-1">
+                    <div className="text-gray-900 dark:text-gray-100">{conflict.description}</div>
+                    <div className="text-xs text-yellow-700 dark:text-yellow-300">{conflict.resolution}</div>
+                  </li>
+                ))}
+              </ul>
+              <button onClick={dismissSyncConflicts} className="btn-secondary btn-xs">
+                Dismiss
+              </button>
+            </>
+          )}
+          {sync.online && sync.pending > 0 && (
+            <button onClick={() => syncNow()} className="btn-primary btn-xs" disabled={sync.syncing}>
+              Sync Now
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
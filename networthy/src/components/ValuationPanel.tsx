@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useNetWorth } from '../context/NetWorthContext';
+import { useCurrency } from '../context/useCurrency';
+import { Account, ValuationModel, ValuationSettings } from '../types';
+import { formatCurrency, getAccountCurrency } from '../utils/currency';
+import { isLiabilityAccount } from '../utils/netWorthSeries';
+import { VALUATION_MODELS, getHomeEquity, getModelValue } from '../utils/valuation';
+
+interface ValuationPanelProps {
+  account: Account;
+}
+
+interface ValuationFormState {
+  purchasePrice: string;
+  purchaseDate: string;
+  model: ValuationModel;
+  annualRate: string;
+  usefulLifeYears: string;
+  salvageValue: string;
+  linkedMortgageId: string;
+}
+
+// Homes usually appreciate, everything else (vehicles, equipment) depreciates
+const getInitialForm = (account: Account): ValuationFormState => {
+  const valuation = account.valuation;
+  if (valuation) {
+    return {
+      purchasePrice: String(valuation.purchasePrice),
+      purchaseDate: valuation.purchaseDate,
+      model: valuation.model,
+      annualRate: String(valuation.annualRate),
+      usefulLifeYears: valuation.usefulLifeYears ? String(valuation.usefulLifeYears) : '10',
+      salvageValue: valuation.salvageValue !== undefined ? String(valuation.salvageValue) : '0',
+      linkedMortgageId: valuation.linkedMortgageId || '',
+    };
+  }
+  const oldest = [...(account.balanceHistory || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+  const isProperty = account.type === 'real_estate';
+  return {
+    purchasePrice: oldest ? String(oldest.balance) : '',
+    purchaseDate: oldest ? format(parseISO(oldest.date), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
+    model: isProperty ? 'fixed_rate' : 'declining_balance',
+    annualRate: isProperty ? '3' : '15',
+    usefulLifeYears: '10',
+    salvageValue: '0',
+    linkedMortgageId: '',
+  };
+};
+
+export function ValuationPanel({ account }: ValuationPanelProps) {
+  const { state, updateValuation } = useNetWorth();
+  const { convert, formatCurrency: formatBase } = useCurrency();
+  const currency = getAccountCurrency(account);
+  const valuation = account.valuation || null;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<ValuationFormState>(() => getInitialForm(account));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const liabilities = useMemo(() => state.accounts.filter(isLiabilityAccount), [state.accounts]);
+  const equity = useMemo(() => getHomeEquity(account, state.accounts, convert), [account, state.accounts, convert]);
+
+  const manualEntries = (account.balanceHistory || []).filter(entry => !entry.estimated);
+  const estimatedCount = (account.balanceHistory || []).length - manualEntries.length;
+  const lastAppraisal = manualEntries.length > 0
+    ? manualEntries.reduce((latest, entry) => (new Date(entry.date) > new Date(latest.date) ? entry : latest))
+    : null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const settings: ValuationSettings = {
+      purchasePrice: parseFloat(form.purchasePrice),
+      purchaseDate: form.purchaseDate,
+      model: form.model,
+      annualRate: parseFloat(form.annualRate) || 0,
+      linkedMortgageId: form.linkedMortgageId || null,
+    };
+    if (form.model === 'straight_line') {
+      settings.usefulLifeYears = parseFloat(form.usefulLifeYears);
+      settings.salvageValue = parseFloat(form.salvageValue) || 0;
+      if (!(settings.usefulLifeYears > 0)) {
+        setFormError('Useful life must be greater than zero.');
+        return;
+      }
+    }
+    if (!(settings.purchasePrice > 0)) {
+      setFormError('Purchase price must be greater than zero.');
+      return;
+    }
+    if (form.model === 'declining_balance' && (settings.annualRate < 0 || settings.annualRate >= 100)) {
+      setFormError('Depreciation rate must be between 0 and 100%.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateValuation(account.id, settings);
+      setIsEditing(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save valuation.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the valuation model? Its estimated balance entries disappear; manual entries are kept.')) return;
+    try {
+      await updateValuation(account.id, null);
+    } catch (err) {
+      console.error('Failed to remove valuation:', err);
+    }
+  };
+
+  const money = (value: number) => formatCurrency(value, currency);
+
+  if (!valuation || isEditing) {
+    return (
+      <div className="mt-6">
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">Valuation</h4>
+        {!valuation && !isEditing ? (
+          <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+            <span>Estimate the value between appraisals from the purchase price.</span>
+            <button onClick={() => setIsEditing(true)} className="btn-secondary btn-xs">Set Up</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="grid grid-cols-2 gap-2 items-end text-sm">
+            <div>
+              <label htmlFor="valuationPrice" className="block text-xs text-gray-500 dark:text-gray-400">Purchase price ({currency})</label>
+              <input type="number" id="valuationPrice" value={form.purchasePrice} onChange={(e) => setForm({ ...form, purchasePrice: e.target.value })} className="input py-1.5 text-sm" step="0.01" min="0" required />
+            </div>
+            <div>
+              <label htmlFor="valuationDate" className="block text-xs text-gray-500 dark:text-gray-400">Purchase date</label>
+              <input type="date" id="valuationDate" value={form.purchaseDate} onChange={(e) => setForm({ ...form, purchaseDate: e.target.value })} className="input py-1.5 text-sm" required />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="valuationModel" className="block text-xs text-gray-500 dark:text-gray-400">Model</label>
+              <select id="valuationModel" value={form.model} onChange={(e) => setForm({ ...form, model: e.target.value as ValuationModel })} className="input py-1.5 text-sm">
+                {VALUATION_MODELS.map(model => (
+                  <option key={model.id} value={model.id}>{model.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {VALUATION_MODELS.find(model => model.id === form.model)?.description}
+              </p>
+            </div>
+            {form.model === 'straight_line' ? (
+              <>
+                <div>
+                  <label htmlFor="valuationLife" className="block text-xs text-gray-500 dark:text-gray-400">Useful life (years)</label>
+                  <input type="number" id="valuationLife" value={form.usefulLifeYears} onChange={(e) => setForm({ ...form, usefulLifeYears: e.target.value })} className="input py-1.5 text-sm" step="any" min="0" required />
+                </div>
+                <div>
+                  <label htmlFor="valuationSalvage" className="block text-xs text-gray-500 dark:text-gray-400">Salvage value ({currency})</label>
+                  <input type="number" id="valuationSalvage" value={form.salvageValue} onChange={(e) => setForm({ ...form, salvageValue: e.target.value })} className="input py-1.5 text-sm" step="0.01" min="0" />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label htmlFor="valuationRate" className="block text-xs text-gray-500 dark:text-gray-400">
+                  {form.model === 'fixed_rate' ? 'Change %/yr' : 'Depreciation %/yr'}
+                </label>
+                <input type="number" id="valuationRate" value={form.annualRate} onChange={(e) => setForm({ ...form, annualRate: e.target.value })} className="input py-1.5 text-sm" step="any" required />
+              </div>
+            )}
+            <div className={form.model === 'straight_line' ? 'col-span-2' : ''}>
+              <label htmlFor="valuationMortgage" className="block text-xs text-gray-500 dark:text-gray-400">Linked mortgage / loan</label>
+              <select id="valuationMortgage" value={form.linkedMortgageId} onChange={(e) => setForm({ ...form, linkedMortgageId: e.target.value })} className="input py-1.5 text-sm">
+                <option value="">None</option>
+                {liabilities.map(liability => (
+                  <option key={liability.id} value={liability.id}>
+                    {liability.institution}{liability.name ? ` - ${liability.name}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {formError && <p className="col-span-2 text-sm text-red-600">{formError}</p>}
+            <div className="col-span-2 flex justify-end gap-2">
+              <button type="button" onClick={() => { setIsEditing(false); setForm(getInitialForm(account)); }} className="btn-secondary btn-xs" disabled={isSaving}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary btn-xs" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Valuation'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  const modelLabel = VALUATION_MODELS.find(model => model.id === valuation.model)?.label;
+
+  return (
+    <div className="mt-6">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Valuation</h4>
+        <div className="flex gap-2">
+          <button onClick={handleRemove} className="btn-danger-outline btn-xs">Remove</button>
+          <button onClick={() => { setForm(getInitialForm(account)); setIsEditing(true); }} className="btn-secondary btn-xs">Edit</button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Bought for {money(valuation.purchasePrice)} on {format(parseISO(valuation.purchaseDate), 'MMM d, yyyy')}.{' '}
+        {modelLabel}
+        {valuation.model === 'straight_line'
+          ? ` over ${valuation.usefulLifeYears} years to ${money(valuation.salvageValue ?? 0)}`
+          : ` at ${valuation.annualRate}%/yr`}
+        . {estimatedCount} estimated {estimatedCount === 1 ? 'entry' : 'entries'}.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+        <div title="Purchase price carried forward by the model alone, ignoring appraisals">
+          <div className="text-gray-500 dark:text-gray-400">Model value today</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{money(getModelValue(valuation, new Date()))}</div>
+        </div>
+        <div>
+          <div className="text-gray-500 dark:text-gray-400">Last appraisal</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {lastAppraisal ? `${money(lastAppraisal.balance)} (${format(parseISO(lastAppraisal.date), 'MMM yyyy')})` : 'None'}
+          </div>
+        </div>
+        {equity && (
+          <div title="Current value minus the linked loan balance">
+            <div className="text-gray-500 dark:text-gray-400">Equity</div>
+            <div className={`font-medium ${equity.equity >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatBase(equity.equity)}
+              {equity.value > 0 && (
+                <span className="text-xs text-gray-500 dark:text-gray-400"> ({((equity.mortgageBalance / equity.value) * 100).toFixed(0)}% LTV)</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import {
+  DEFAULT_CURRENCY,
+  ExchangeRate,
+  CurrencyConverter,
+  convertAmount,
+  formatCurrency as formatAmount,
+} from '../utils/currency';
+import { PriceQuote, mergePrices } from '../utils/holdings';
+import { CurrencyContext } from './useCurrency';
+
+const BASE_CURRENCY_KEY = 'networthy_base_currency';
+const EXCHANGE_RATES_KEY = 'networthy_exchange_rates';
+const PRICES_KEY = 'networthy_prices';
+
+const isSameRate = (a: ExchangeRate, b: ExchangeRate) => a.date === b.date && a.from === b.from && a.to === b.to;
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [baseCurrency, setBaseCurrency] = useState<string>(
+    () => localStorage.getItem(BASE_CURRENCY_KEY) || DEFAULT_CURRENCY
+  );
+  const [rates, setRates] = useState<ExchangeRate[]>(() => {
+    try {
+      const saved = localStorage.getItem(EXCHANGE_RATES_KEY);
+      return saved ? (JSON.parse(saved) as ExchangeRate[]) : [];
+    } catch (error) {
+      console.error('Error reading exchange rates:', error);
+      return [];
+    }
+  });
+
+  // Security prices are market data like the rates: supplied locally, keyed by date
+  const [prices, setPrices] = useState<PriceQuote[]>(() => {
+    try {
+      const saved = localStorage.getItem(PRICES_KEY);
+      return saved ? (JSON.parse(saved) as PriceQuote[]) : [];
+    } catch (error) {
+      console.error('Error reading prices:', error);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(BASE_CURRENCY_KEY, baseCurrency);
+  }, [baseCurrency]);
+
+  useEffect(() => {
+    localStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+  }, [rates]);
+
+  useEffect(() => {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  }, [prices]);
+
+  // A rate for the same pair and date replaces the previous one
+  const upsertRate = (rate: ExchangeRate) => {
+    setRates(prev => [...prev.filter(r => !isSameRate(r, rate)), rate].sort((a, b) => a.date.localeCompare(b.date)));
+  };
+
+  const deleteRate = (rate: ExchangeRate) => {
+    setRates(prev => prev.filter(r => !isSameRate(r, rate)));
+  };
+
+  // Returns the merged table so callers can revalue holdings before the next render
+  const importPrices = (quotes: PriceQuote[]): PriceQuote[] => {
+    const merged = mergePrices(prices, quotes);
+    setPrices(merged);
+    return merged;
+  };
+
+  const deletePrice = (quote: PriceQuote) => {
+    setPrices(prev => prev.filter(p => !(p.symbol === quote.symbol && p.date === quote.date)));
+  };
+
+  const convert = useCallback<CurrencyConverter>(
+    (amount, currency, date) => convertAmount(amount, currency || DEFAULT_CURRENCY, baseCurrency, date, rates),
+    [baseCurrency, rates]
+  );
+
+  const formatCurrency = (value: number, maximumFractionDigits = 0) =>
+    formatAmount(value, baseCurrency, maximumFractionDigits);
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        baseCurrency,
+        setBaseCurrency,
+        rates,
+        upsertRate,
+        deleteRate,
+        convert,
+        formatCurrency,
+        prices,
+        importPrices,
+        deletePrice,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
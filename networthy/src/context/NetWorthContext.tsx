@@ -1,22 +1,51 @@
-import React, { createContext, useContext, useReducer, ReactNode, useEffect, useCallback } from 'react';
-import { Account, BalanceEntry } from '../types';
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { Account, BalanceEntry, CashFlowEntry, Holding, LoanDetails, ValuationSettings } from '../types';
 import { NetWorthSnapshot } from '../types/NetWorthSnapshot';
+import { Goal } from '../types/Goal';
+import { Household, HouseholdInvite, HouseholdMember, HouseholdRole, OwnershipShare } from '../types/Household';
+import { format, subDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from './AuthContext';
 import { supabase } from '../lib/supabaseClient';
 import { PostgrestError } from '@supabase/supabase-js';
-
-type Snapshot = {
-  totalAssets: number;
-  totalLiabilities: number;
-  netWorth: number;
-  date: string;
-};
-
-interface UserGoal {
-  target_amount: number;
-  target_date: string; 
-}
+import { normalizeAccountType } from '../utils/accountTypes';
+import { getManualHistory, withEstimatedHistory } from '../utils/valuation';
+import { PriceQuote, getHoldingsBalanceEntry } from '../utils/holdings';
+import { ParsedStatement, getClosingBalanceEntry, toCashFlowEntry } from '../utils/statementParser';
+import { ArchiveData, ArchiveImportMode, applyArchive, createArchive } from '../utils/dataArchive';
+import { BackupReason, runAutoBackup, saveBackup } from '../utils/localBackups';
+import {
+  BalanceEntryOperation,
+  NewOutboxOperation,
+  OutboxOperation,
+  SyncConflict,
+  SyncStatus,
+  applyOperation,
+  describeOperation,
+  enqueueOperation,
+  getErrorMessage,
+  groupOutboxOperations,
+  isNetworkError,
+  listOutbox,
+  loadCachedData,
+  mergeBalanceEntryInto,
+  mergeMetadataChanges,
+  pickMetadata,
+  removeOperation,
+  saveCachedData,
+} from '../utils/offlineStore';
+import { calculateNetWorth, getCurrentBalance, getLatestBalanceEntry } from '../utils/netWorthSeries';
+import { DEFAULT_CURRENCY, findRate, getAccountCurrency } from '../utils/currency';
+import {
+  AccountChanges,
+  AuditAction,
+  AuditEntry,
+  AuditedField,
+  RESTORE_WINDOW_DAYS,
+  getUndoBlocker,
+} from '../utils/auditLog';
+import { EMPTY_HOUSEHOLD, HouseholdData, OwnershipFilter, applyOwnershipFilter, getOwnedData } from '../utils/households';
+import { useCurrency } from './useCurrency';
 
 export interface HistoricalDataPoint {
   year: number;
@@ -29,39 +58,29 @@ type State = {
   historicalData: HistoricalDataPoint[];
   loading: boolean;
   error: PostgrestError | Error | null;
-  userGoal: UserGoal | null;
-};
-
-const getLatestBalanceEntry = (account: Account): BalanceEntry | null => {
-  if (!account.balanceHistory || account.balanceHistory.length === 0) {
-    return null;
-  }
-  const sortedHistory = [...account.balanceHistory].sort((a, b) => 
-    new Date(b.date).getTime() - new Date(a.date).getTime()
-  );
-  return sortedHistory[0];
+  goals: Goal[];
 };
 
-const getCurrentBalance = (account: Account): number => {
-  const latestEntry = getLatestBalanceEntry(account);
-  return latestEntry ? latestEntry.balance : 0;
-}
-
 export type NetWorthAction =
   | { type: 'SET_ACCOUNTS'; payload: Account[] }
   | { type: 'ADD_ACCOUNT'; payload: Account }
   | { type: 'UPDATE_ACCOUNT_METADATA'; payload: Account }
   | { type: 'ADD_BALANCE_ENTRY'; payload: { accountId: string; balance: number; date: string } }
+  | { type: 'SET_BALANCE_HISTORY'; payload: { accountId: string; balanceHistory: BalanceEntry[] } }
+  | { type: 'SET_ACCOUNT_BALANCES'; payload: { accountId: string; balanceHistory: BalanceEntry[]; cashFlows: CashFlowEntry[] }[] }
   | { type: 'DELETE_ACCOUNT'; payload: string }
-  | { type: 'ADD_SNAPSHOT'; payload: Snapshot }
+  | { type: 'SET_SNAPSHOTS'; payload: NetWorthSnapshot[] }
+  | { type: 'UPSERT_SNAPSHOT'; payload: NetWorthSnapshot }
+  | { type: 'DELETE_SNAPSHOT'; payload: string }
   | { type: 'UPDATE_ACCOUNTS_ORDER'; payload: Account[] }
   | { type: 'SET_HISTORICAL_DATA'; payload: HistoricalDataPoint[] }
   | { type: 'UPSERT_HISTORICAL_DATA'; payload: HistoricalDataPoint }
   | { type: 'DELETE_HISTORICAL_DATA'; payload: number }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: PostgrestError | Error | null }
-  | { type: 'SET_USER_GOAL'; payload: UserGoal | null }
-  | { type: 'DELETE_USER_GOAL' };
+  | { type: 'SET_GOALS'; payload: Goal[] }
+  | { type: 'UPSERT_GOAL'; payload: Goal }
+  | { type: 'DELETE_GOAL'; payload: string };
 
 const initialState: State = {
   accounts: [],
@@ -69,40 +88,310 @@ const initialState: State = {
   historicalData: [],
   loading: true,
   error: null,
-  userGoal: null,
+  goals: [],
 };
 
-function calculateNetWorth(accounts: Account[]): {
-  totalAssets: number;
-  totalLiabilities: number;
-  netWorth: number;
-} {
-  const totals = accounts.reduce(
-    (acc, account) => {
-      const currentBalance = getCurrentBalance(account);
-      if (account.type === 'liability') {
-        acc.totalLiabilities += currentBalance;
-      } else {
-        acc.totalAssets += currentBalance;
-      }
-      return acc;
-    },
-    { totalAssets: 0, totalLiabilities: 0 }
-  );
+// Maps a row from the accounts table (snake_case JSON columns) to an Account
+const mapAccountRow = (row: Record<string, unknown>): Account => ({
+  ...(row as unknown as Account),
+  balanceHistory: Array.isArray(row.balance_history) ? row.balance_history : [],
+  cashFlows: Array.isArray(row.cash_flows) ? row.cash_flows : [],
+  // Rows saved before the type taxonomy was extended still carry 'liability'
+  type: normalizeAccountType(row.type),
+  loanDetails: (row.loan_details as LoanDetails | null) || null,
+  valuation: (row.valuation as ValuationSettings | null) || null,
+  holdings: Array.isArray(row.holdings) ? row.holdings : [],
+  tags: Array.isArray(row.tags) ? row.tags : [],
+  ownerId: typeof row.user_id === 'string' ? row.user_id : undefined,
+  householdId: typeof row.household_id === 'string' ? row.household_id : null,
+  ownership: Array.isArray(row.ownership) ? row.ownership : [],
+});
 
-  return {
-    ...totals,
-    netWorth: totals.totalAssets - totals.totalLiabilities,
-  };
+interface SnapshotRow {
+  id: string;
+  snapshot_date: string;
+  total_assets: number;
+  total_liabilities: number;
+  net_worth: number;
+  accounts: NetWorthSnapshot['accounts'] | null;
+}
+
+const mapSnapshotRow = (row: SnapshotRow): NetWorthSnapshot => ({
+  id: row.id,
+  date: row.snapshot_date,
+  totalAssets: Number(row.total_assets),
+  totalLiabilities: Number(row.total_liabilities),
+  netWorth: Number(row.net_worth),
+  accounts: Array.isArray(row.accounts) ? row.accounts : [],
+});
+
+interface GoalRow {
+  id: string;
+  name: string;
+  target_amount: number;
+  target_date: string;
+  scope: Goal['scope'] | null;
+  milestones: Goal['milestones'] | null;
+  created_at?: string;
 }
 
+const mapGoalRow = (row: GoalRow): Goal => ({
+  id: row.id,
+  name: row.name,
+  targetAmount: Number(row.target_amount),
+  targetDate: row.target_date,
+  scope: row.scope && row.scope.kind ? row.scope : { kind: 'all' },
+  milestones: Array.isArray(row.milestones) ? row.milestones : [],
+  createdAt: row.created_at,
+});
+
+interface HouseholdMemberRow {
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  email: string;
+}
+
+interface HouseholdInviteRow {
+  id: string;
+  household_id: string;
+  household_name: string;
+  email: string;
+  role: HouseholdInvite['role'];
+  created_at?: string;
+}
+
+interface AuditRow {
+  id: string;
+  user_id: string;
+  actor_email: string;
+  account_id: string;
+  household_id: string | null;
+  account_label: string;
+  action: AuditAction;
+  note: string;
+  before: AccountChanges | null;
+  after: AccountChanges | null;
+  undoes: string | null;
+  created_at: string;
+}
+
+const mapAuditRow = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  actorEmail: row.actor_email,
+  accountId: row.account_id,
+  householdId: row.household_id,
+  accountLabel: row.account_label,
+  action: row.action,
+  note: row.note,
+  before: row.before,
+  after: row.after,
+  undoes: row.undoes,
+  createdAt: row.created_at,
+});
+
+const mapMemberRow = (row: HouseholdMemberRow): HouseholdMember => ({ userId: row.user_id, role: row.role, email: row.email });
+
+const mapInviteRow = (row: HouseholdInviteRow): HouseholdInvite => ({
+  id: row.id,
+  householdId: row.household_id,
+  householdName: row.household_name,
+  email: row.email,
+  role: row.role,
+  createdAt: row.created_at,
+});
+
+// Inverse mappings, used to write archived records back to Supabase. Sharing
+// columns are left out so an upsert keeps an account's current household.
+const toAccountRow = (account: Account, userId: string) => ({
+  id: account.id,
+  user_id: userId,
+  institution: account.institution,
+  name: account.name ?? null,
+  type: account.type,
+  balance_history: getManualHistory(account.balanceHistory),
+  cash_flows: account.cashFlows || [],
+  category: account.category ?? null,
+  tags: account.tags || [],
+  notes: account.notes ?? null,
+  order: account.order,
+  currency: account.currency || DEFAULT_CURRENCY,
+  loan_details: account.loanDetails || null,
+  valuation: account.valuation || null,
+  holdings: account.holdings || [],
+  // Importing an account brings it back if it had been deleted
+  deleted_at: null,
+});
+
+// Column for each audited account field, used to write an undo back
+const ACCOUNT_COLUMNS: Record<AuditedField, string> = {
+  institution: 'institution',
+  name: 'name',
+  type: 'type',
+  balanceHistory: 'balance_history',
+  cashFlows: 'cash_flows',
+  category: 'category',
+  tags: 'tags',
+  notes: 'notes',
+  order: 'order',
+  currency: 'currency',
+  loanDetails: 'loan_details',
+  valuation: 'valuation',
+  holdings: 'holdings',
+  householdId: 'household_id',
+  ownership: 'ownership',
+};
+
+const toAccountColumns = (changes: AccountChanges): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(changes).map(([field, value]) => [ACCOUNT_COLUMNS[field as AuditedField], value]));
+
+const toSnapshotRow = (snapshot: NetWorthSnapshot, userId: string) => ({
+  user_id: userId,
+  snapshot_date: snapshot.date,
+  total_assets: snapshot.totalAssets,
+  total_liabilities: snapshot.totalLiabilities,
+  net_worth: snapshot.netWorth,
+  accounts: snapshot.accounts,
+});
+
+const toGoalRow = (goal: Goal, userId: string) => ({
+  id: goal.id,
+  user_id: userId,
+  name: goal.name,
+  target_amount: goal.targetAmount,
+  target_date: goal.targetDate,
+  scope: goal.scope,
+  milestones: goal.milestones,
+});
+
+// PostgREST list literal for .not(column, 'in', ...)
+const toInList = (values: (string | number)[]): string => `(${values.map(value => JSON.stringify(String(value))).join(',')})`;
+
+const ACCOUNT_DELETED_ELSEWHERE = 'Not saved: the account was deleted on another device.';
+
+const OWNERSHIP_FILTER_KEY = 'networthy_ownership_filter';
+
+type Actor = { id: string; email?: string };
+
+// The audit log is written by a trigger on accounts. A write can name the
+// feature that made it, and an undo the entry it reverts, in request headers.
+const withAudit = <Q extends { setHeader: (name: string, value: string) => Q }>(
+  query: Q,
+  { note, undoes }: { note?: string; undoes?: string }
+): Q => {
+  let result = query;
+  if (note) result = result.setHeader('x-audit-note', note);
+  if (undoes) result = result.setHeader('x-audit-undoes', undoes);
+  return result;
+};
+
+// The add_balance_entries payload; ledger ids are assigned by the caller so a
+// replayed entry lands on the same ledger row. A null balance only adds the
+// ledger entry, and holdings, when given, replace the account's.
+type BalanceEntryInput = {
+  accountId: string;
+  date: string;
+  balance: number | null;
+  cashFlow: CashFlowEntry | null;
+  holdings?: Holding[];
+};
+
+type BalanceEntriesRow = { account: Record<string, unknown>; cash_flows_added: number };
+
+// Commits balance entries to any number of accounts in one transaction through
+// the add_balance_entries function. Returns the updated accounts with the
+// number of ledger entries that were not there yet.
+const commitBalanceEntries = async (
+  entries: BalanceEntryInput[],
+  note?: string
+): Promise<{ account: Account; cashFlowsAdded: number }[]> => {
+  const { data, error } = await withAudit(supabase.rpc('add_balance_entries', { entries }), { note });
+  if (error) throw error;
+  return ((data || []) as BalanceEntriesRow[]).map(row => ({
+    account: mapAccountRow(row.account),
+    cashFlowsAdded: row.cash_flows_added,
+  }));
+};
+
+// Replays queued balance entries as one batch. Entries for accounts deleted in
+// the meantime are dropped; they and entries that replace a different balance
+// saved elsewhere for the same time get a note, in queue order.
+const pushBalanceEntries = async (operations: BalanceEntryOperation[]): Promise<(string | null)[]> => {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, balance_history')
+    .in('id', Array.from(new Set(operations.map(operation => operation.accountId))))
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  const histories = new Map<string, BalanceEntry[]>((data || []).map(row => [row.id, row.balance_history || []]));
+  const live = operations.filter(operation => histories.has(operation.accountId));
+  if (live.length > 0) {
+    await commitBalanceEntries(
+      live.map(operation => ({
+        accountId: operation.accountId,
+        date: operation.entry.date,
+        balance: operation.entry.balance,
+        cashFlow: operation.cashFlow || null,
+      })),
+      'Synced from offline'
+    );
+  }
+
+  return operations.map(operation => {
+    const history = histories.get(operation.accountId);
+    if (!history) return ACCOUNT_DELETED_ELSEWHERE;
+    const overwritten = history.find(entry => entry.date === operation.entry.date && entry.balance !== operation.entry.balance);
+    return overwritten ? `Replaced a balance of ${overwritten.balance} saved elsewhere for the same time.` : null;
+  });
+};
+
+// Writes one queued offline mutation to Supabase, resolving conflicts with what
+// was saved in the meantime. Returns a note when the result differs from what
+// was queued, null otherwise.
+const pushOperation = async (actor: Actor, operation: Exclude<OutboxOperation, BalanceEntryOperation>): Promise<string | null> => {
+  const note = 'Synced from offline';
+  switch (operation.kind) {
+    case 'add_account': {
+      // Replaying an insert that already reached the server leaves it untouched
+      const { error } = await withAudit(
+        supabase.from('accounts').upsert(toAccountRow(operation.account, actor.id), { onConflict: 'id', ignoreDuplicates: true }),
+        { note }
+      );
+      if (error) throw error;
+      return null;
+    }
+    case 'update_account': {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('id', operation.accountId)
+        .is('deleted_at', null)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return ACCOUNT_DELETED_ELSEWHERE;
+
+      const previous = mapAccountRow(data);
+      const { updates, conflicts } = mergeMetadataChanges(pickMetadata(previous), operation.changes, operation.base);
+      if (Object.keys(updates).length > 0) {
+        const { error: updateError } = await withAudit(
+          supabase.from('accounts').update(updates).eq('id', operation.accountId),
+          { note }
+        );
+        if (updateError) throw updateError;
+      }
+      return conflicts.length > 0 ? `Kept the ${conflicts.join(', ')} changed on another device.` : null;
+    }
+  }
+};
+
 function reducer(state: State, action: NetWorthAction): State {
   switch (action.type) {
     case 'SET_ACCOUNTS':
       return {
         ...state,
         accounts: action.payload,
-        snapshots: [],
       };
     case 'ADD_ACCOUNT': {
       if (state.accounts.some((acc: Account) => acc.id === action.payload.id)) {
@@ -138,36 +427,51 @@ function reducer(state: State, action: NetWorthAction): State {
         }),
       };
     }
+    case 'SET_BALANCE_HISTORY': {
+      const { accountId, balanceHistory } = action.payload;
+      return {
+        ...state,
+        accounts: state.accounts.map(acc =>
+          acc.id === accountId ? { ...acc, balanceHistory } : acc
+        ),
+      };
+    }
+    case 'SET_ACCOUNT_BALANCES': {
+      const updates = new Map(action.payload.map(update => [update.accountId, update]));
+      return {
+        ...state,
+        accounts: state.accounts.map(acc => {
+          const update = updates.get(acc.id);
+          return update ? { ...acc, balanceHistory: update.balanceHistory, cashFlows: update.cashFlows } : acc;
+        }),
+      };
+    }
     case 'DELETE_ACCOUNT': {
       return {
         ...state,
         accounts: state.accounts.filter((account: Account) => account.id !== action.payload),
       };
     }
-    case 'ADD_SNAPSHOT': {
-      const currentTotals = calculateNetWorth(state.accounts);
-      const snapshotAccounts = state.accounts.map((acc: Account) => ({
-        id: acc.id,
-        balance: getCurrentBalance(acc)
-      }));
-
-      const newSnapshot: NetWorthSnapshot = {
-        id: uuidv4(),
-        date: action.payload.date,
-        totalAssets: currentTotals.totalAssets,
-        totalLiabilities: currentTotals.totalLiabilities,
-        netWorth: currentTotals.netWorth,
-        accounts: snapshotAccounts,
+    case 'SET_SNAPSHOTS':
+      return {
+        ...state,
+        snapshots: [...action.payload].sort((a, b) => a.date.localeCompare(b.date)),
       };
-
-      if (state.accounts.length === 0) {
-        return state;
-      }
+    case 'UPSERT_SNAPSHOT': {
+      // Snapshots are deduplicated per day, so a snapshot for an existing date replaces it
+      const otherSnapshots = state.snapshots.filter(
+        (snapshot) => snapshot.id !== action.payload.id && snapshot.date !== action.payload.date
+      );
       return {
         ...state,
-        snapshots: [...state.snapshots, newSnapshot],
+        snapshots: [...otherSnapshots, action.payload].sort((a, b) => a.date.localeCompare(b.date)),
       };
     }
+    case 'DELETE_SNAPSHOT':
+      return {
+        ...state,
+        snapshots: state.snapshots.filter((snapshot) => snapshot.id !== action.payload),
+      };
     case 'UPDATE_ACCOUNTS_ORDER':
         return { ...state, accounts: action.payload };
     case 'SET_HISTORICAL_DATA':
@@ -204,44 +508,131 @@ function reducer(state: State, action: NetWorthAction): State {
       return { ...state, loading: action.payload };
     case 'SET_ERROR':
       return { ...state, error: action.payload };
-    case 'SET_USER_GOAL':
-        return { ...state, userGoal: action.payload };
-    case 'DELETE_USER_GOAL':
-        return { ...state, userGoal: null };
+    case 'SET_GOALS':
+        return { ...state, goals: action.payload };
+    case 'UPSERT_GOAL': {
+        const exists = state.goals.some(goal => goal.id === action.payload.id);
+        return {
+            ...state,
+            goals: exists
+                ? state.goals.map(goal => (goal.id === action.payload.id ? action.payload : goal))
+                : [...state.goals, action.payload],
+        };
+    }
+    case 'DELETE_GOAL':
+        return { ...state, goals: state.goals.filter(goal => goal.id !== action.payload) };
     default:
       return state;
   }
 }
 
+// When balanceHistory is given (e.g. from an import) it replaces the initial entry built from balance
+type NewAccountData = Omit<Account, 'id' | 'user_id' | 'created_at' | 'balanceHistory'> & {
+  balance: number;
+  balanceHistory?: BalanceEntry[];
+};
+
+// A contribution or withdrawal recorded alongside a balance; transfers use addTransfer
+type NewCashFlow = Pick<CashFlowEntry, 'amount' | 'kind' | 'note'>;
+
+// One entry of a batch written with addBalanceEntries
+export interface NewBalanceEntry {
+  accountId: string;
+  balance: number;
+  date: string; // ISO
+  cashFlow?: NewCashFlow;
+}
+
+export interface StatementImportResult {
+  balanceRecorded: boolean;
+  transactionsAdded: number;
+  transactionsSkipped: number; // already in the ledger from an earlier import
+}
+
+// Goals without an id are inserted, others are updated
+type NewGoalData = Omit<Goal, 'id' | 'createdAt'> & { id?: string };
+
 interface NetWorthContextType {
   state: State;
   dispatch: React.Dispatch<NetWorthAction>;
   loading: boolean;
   error: PostgrestError | Error | null;
   fetchAccounts: () => Promise<void>;
-  addAccount: (accountData: Omit<Account, 'id' | 'user_id' | 'created_at' | 'balanceHistory'> & { balance: number }) => Promise<Account | null>;
+  addAccount: (accountData: NewAccountData) => Promise<Account | null>;
   updateAccountMetadata: (accountData: Omit<Account, 'user_id' | 'created_at' | 'balanceHistory'>) => Promise<Account | null>;
   deleteAccount: (accountId: string) => Promise<void>;
-  addBalanceEntry: (accountId: string, balance: number, date: string) => Promise<void>;
+  addBalanceEntry: (accountId: string, balance: number, date: string, cashFlow?: NewCashFlow) => Promise<void>;
+  addBalanceEntries: (entries: NewBalanceEntry[], note?: string) => Promise<void>;
+  addCashFlow: (accountId: string, date: string, cashFlow: NewCashFlow) => Promise<void>;
+  addTransfer: (fromAccountId: string, toAccountId: string, amount: number, date: string, note?: string) => Promise<void>;
+  deleteCashFlow: (accountId: string, cashFlowId: string) => Promise<void>;
+  replaceBalanceHistory: (accountId: string, expected: BalanceEntry[], entries: BalanceEntry[]) => Promise<void>;
+  updateLoanDetails: (accountId: string, loanDetails: LoanDetails | null) => Promise<void>;
+  updateValuation: (accountId: string, valuation: ValuationSettings | null) => Promise<void>;
+  updateHoldings: (accountId: string, holdings: Holding[]) => Promise<void>;
+  revalueHoldings: (prices?: PriceQuote[]) => Promise<void>;
+  importStatement: (accountId: string, statement: ParsedStatement, includeTransactions: boolean) => Promise<StatementImportResult>;
+  importArchive: (archive: ArchiveData, mode: ArchiveImportMode) => Promise<void>;
+  fetchAuditLog: (limit?: number) => Promise<AuditEntry[]>;
+  undoAuditEntry: (entry: AuditEntry, entries: AuditEntry[]) => Promise<void>;
+  sync: SyncStatus;
+  syncNow: () => Promise<void>;
+  dismissSyncConflicts: () => void;
+  household: HouseholdData;
+  householdRole: HouseholdRole | null;
+  ownershipFilter: OwnershipFilter;
+  setOwnershipFilter: (filter: OwnershipFilter) => void;
+  visibleAccounts: Account[]; // state.accounts seen through ownershipFilter
+  fetchHousehold: () => Promise<void>;
+  createHousehold: (name: string) => Promise<void>;
+  inviteToHousehold: (email: string, role: HouseholdInvite['role']) => Promise<void>;
+  revokeHouseholdInvite: (inviteId: string) => Promise<void>;
+  acceptHouseholdInvite: (inviteId: string) => Promise<void>;
+  declineHouseholdInvite: (inviteId: string) => Promise<void>;
+  updateMemberRole: (userId: string, role: HouseholdInvite['role']) => Promise<void>;
+  removeHouseholdMember: (userId: string) => Promise<void>;
+  deleteHousehold: () => Promise<void>;
+  updateAccountSharing: (accountId: string, householdId: string | null, ownership: OwnershipShare[]) => Promise<void>;
   fetchHistoricalData: () => Promise<void>;
   upsertHistoricalData: (dataPoint: HistoricalDataPoint) => Promise<void>;
   deleteHistoricalData: (year: number) => Promise<void>;
-  fetchUserGoal: () => Promise<void>;
-  setUserGoal: (goal: UserGoal) => Promise<void>;
-  deleteUserGoal: () => Promise<void>;
+  fetchSnapshots: () => Promise<void>;
+  recordSnapshot: () => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+  fetchGoals: () => Promise<void>;
+  saveGoal: (goal: NewGoalData) => Promise<Goal>;
+  deleteGoal: (goalId: string) => Promise<void>;
 }
 
 const NetWorthContext = createContext<NetWorthContextType | null>(null);
 
 export function NetWorthProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
+  const { convert, prices, rates } = useCurrency();
   const [state, dispatch] = useReducer(reducer, initialState);
+  // Stored histories hold manual entries only. Valued assets get their estimated
+  // entries here, up to today, so every chart and total sees current estimates.
+  // Writes work on the stored state.
+  const accountsWithEstimates = useMemo(() => state.accounts.map(account => withEstimatedHistory(account)), [state.accounts]);
+  const readState = useMemo(() => ({ ...state, accounts: accountsWithEstimates }), [state, accountsWithEstimates]);
+  const [sync, setSync] = useState<SyncStatus>({
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    syncing: false,
+    pending: 0,
+    lastSyncedAt: null,
+    conflicts: [],
+  });
+  const [household, setHousehold] = useState<HouseholdData>(EMPTY_HOUSEHOLD);
+  const [ownershipFilter, setOwnershipFilter] = useState<OwnershipFilter>(
+    () => (localStorage.getItem(OWNERSHIP_FILTER_KEY) as OwnershipFilter | null) || 'household'
+  );
 
   const fetchAllUserData = useCallback(async () => {
     if (!user) {
       dispatch({ type: 'SET_ACCOUNTS', payload: [] });
+      dispatch({ type: 'SET_SNAPSHOTS', payload: [] });
       dispatch({ type: 'SET_HISTORICAL_DATA', payload: [] });
-      dispatch({ type: 'SET_USER_GOAL', payload: null });
+      dispatch({ type: 'SET_GOALS', payload: [] });
       dispatch({ type: 'SET_ERROR', payload: null });
       dispatch({ type: 'SET_LOADING', payload: false });
       return;
@@ -249,29 +640,57 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
 
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
+
+    // Show the local copy first, with changes that have not synced yet on top.
+    // While offline it is all there is.
+    let cached: ArchiveData | null = null;
+    let pending: OutboxOperation[] = [];
+    try {
+      [cached, pending] = await Promise.all([loadCachedData(user.id), listOutbox(user.id)]);
+    } catch (err) {
+      console.error("Error reading local data:", err);
+    }
+    const withPending = (accounts: Account[]) => pending.reduce(applyOperation, accounts);
+    // A dropped connection keeps the local copy instead of clearing state
+    const keepCached = (err: unknown) => cached !== null && isNetworkError(err);
+
+    setSync(current => ({ ...current, pending: pending.length }));
+    if (cached) {
+      dispatch({ type: 'SET_ACCOUNTS', payload: withPending(cached.accounts) });
+      dispatch({ type: 'SET_HISTORICAL_DATA', payload: cached.historicalData });
+      dispatch({ type: 'SET_GOALS', payload: cached.goals });
+      dispatch({ type: 'SET_SNAPSHOTS', payload: cached.snapshots });
+    }
+    if (!navigator.onLine) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      return;
+    }
+
     console.log(`Fetching all data for user: ${user.id}`);
 
     try {
-      const [accountsResponse, historicalDataResponse, goalResponse] = await Promise.all([
-        supabase.from('accounts').select('*').eq('user_id', user.id),
+      const [accountsResponse, historicalDataResponse, goalsResponse, snapshotsResponse] = await Promise.all([
+        // Row level security returns the user's own accounts and those shared with their household
+        supabase.from('accounts').select('*').is('deleted_at', null),
         supabase.from('historical_data').select('year, net_worth').eq('user_id', user.id),
-        supabase.from('user_goals').select('target_amount, target_date').eq('user_id', user.id).maybeSingle()
+        supabase.from('goals').select('*').eq('user_id', user.id).order('created_at', { ascending: true }),
+        supabase.from('net_worth_snapshots').select('*').eq('user_id', user.id).order('snapshot_date', { ascending: true })
       ]);
 
       if (accountsResponse.error) {
         console.error("Error fetching accounts:", accountsResponse.error);
-        dispatch({ type: 'SET_ERROR', payload: accountsResponse.error });
-        dispatch({ type: 'SET_ACCOUNTS', payload: [] });
+        if (!keepCached(accountsResponse.error)) {
+          dispatch({ type: 'SET_ERROR', payload: accountsResponse.error });
+          dispatch({ type: 'SET_ACCOUNTS', payload: [] });
+        }
       } else {
-        const accountsWithCorrectMapping = accountsResponse.data.map(acc => ({
-           ...acc,
-           balanceHistory: Array.isArray(acc.balance_history) ? acc.balance_history : [],
-           tags: Array.isArray(acc.tags) ? acc.tags : [],
-         }));
-        dispatch({ type: 'SET_ACCOUNTS', payload: accountsWithCorrectMapping });
+        const accountsWithCorrectMapping = accountsResponse.data.map(mapAccountRow);
+        dispatch({ type: 'SET_ACCOUNTS', payload: withPending(accountsWithCorrectMapping) });
       }
 
-      if (historicalDataResponse.error) {
+      if (keepCached(historicalDataResponse.error)) {
+          console.error("Error fetching historical data:", historicalDataResponse.error);
+      } else if (historicalDataResponse.error) {
           console.error("Error fetching historical data:", historicalDataResponse.error);
           dispatch({ type: 'SET_ERROR', payload: historicalDataResponse.error });
           dispatch({ type: 'SET_HISTORICAL_DATA', payload: [] });
@@ -279,20 +698,34 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
           dispatch({ type: 'SET_HISTORICAL_DATA', payload: historicalDataResponse.data as HistoricalDataPoint[] });
       }
 
-      if (goalResponse.error) {
-          console.error("Error fetching user goal:", goalResponse.error);
-          dispatch({ type: 'SET_USER_GOAL', payload: null });
-          dispatch({ type: 'SET_ERROR', payload: goalResponse.error });
+      if (keepCached(goalsResponse.error)) {
+          console.error("Error fetching goals:", goalsResponse.error);
+      } else if (goalsResponse.error) {
+          console.error("Error fetching goals:", goalsResponse.error);
+          dispatch({ type: 'SET_GOALS', payload: [] });
+          dispatch({ type: 'SET_ERROR', payload: goalsResponse.error });
+      } else {
+          dispatch({ type: 'SET_GOALS', payload: (goalsResponse.data as GoalRow[]).map(mapGoalRow) });
+      }
+
+      if (keepCached(snapshotsResponse.error)) {
+          console.error("Error fetching snapshots:", snapshotsResponse.error);
+      } else if (snapshotsResponse.error) {
+          console.error("Error fetching snapshots:", snapshotsResponse.error);
+          dispatch({ type: 'SET_ERROR', payload: snapshotsResponse.error });
+          dispatch({ type: 'SET_SNAPSHOTS', payload: [] });
       } else {
-          dispatch({ type: 'SET_USER_GOAL', payload: goalResponse.data as UserGoal | null });
+          dispatch({ type: 'SET_SNAPSHOTS', payload: (snapshotsResponse.data as SnapshotRow[]).map(mapSnapshotRow) });
       }
 
     } catch (err: any) {
         console.error("Error fetching data:", err);
+        if (keepCached(err)) return;
         dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
         dispatch({ type: 'SET_ACCOUNTS', payload: [] });
+        dispatch({ type: 'SET_SNAPSHOTS', payload: [] });
         dispatch({ type: 'SET_HISTORICAL_DATA', payload: [] });
-        dispatch({ type: 'SET_USER_GOAL', payload: null });
+        dispatch({ type: 'SET_GOALS', payload: [] });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
@@ -302,7 +735,139 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
     fetchAllUserData();
   }, [fetchAllUserData]);
 
-  const addAccount = async (accountData: Omit<Account, 'id' | 'user_id' | 'created_at' | 'balanceHistory'> & { balance: number }): Promise<Account | null> => {
+  // Once the user's data has loaded, take the daily backup if it is due
+  const autoBackupUserId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || state.loading || state.accounts.length === 0 || autoBackupUserId.current === user.id) return;
+    autoBackupUserId.current = user.id;
+    runAutoBackup(user.id, createArchive(getOwnedData(state, user.id))).catch(err => console.error("Error creating automatic backup:", err));
+  }, [user, state]);
+
+  // Deleted accounts can be restored for RESTORE_WINDOW_DAYS; older ones are removed for good
+  const purgedUserId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || state.loading || !navigator.onLine || purgedUserId.current === user.id) return;
+    purgedUserId.current = user.id;
+    const cutoff = subDays(new Date(), RESTORE_WINDOW_DAYS).toISOString();
+    supabase
+      .from('accounts')
+      .delete()
+      .eq('user_id', user.id)
+      .lt('deleted_at', cutoff)
+      .then(({ error }) => {
+        if (error) console.error("Error purging deleted accounts:", error);
+      });
+  }, [user, state.loading]);
+
+  // --- Offline Support ---
+
+  // Keep the local copy in step with state once data has loaded. Accounts are
+  // stored whole so owners and shares survive going offline.
+  useEffect(() => {
+    if (!user || state.loading) return;
+    saveCachedData(user.id, state).catch(err => console.error("Error saving local data:", err));
+  }, [user, state]);
+
+  useEffect(() => {
+    const handleOnline = () => setSync(current => ({ ...current, online: true }));
+    const handleOffline = () => setSync(current => ({ ...current, online: false }));
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Used to describe queued operations in conflict messages
+  const accountsRef = useRef(state.accounts);
+  accountsRef.current = state.accounts;
+  const syncingRef = useRef(false);
+
+  // Replays queued mutations in order, consecutive balance entries in one batch.
+  // A network failure stops the run and leaves the rest queued; any other
+  // failure is reported as a conflict and dropped so one bad operation cannot
+  // block the queue.
+  const syncOutbox = useCallback(async () => {
+    if (!user || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSync(current => ({ ...current, syncing: true }));
+
+    const conflicts: SyncConflict[] = [];
+    let synced = 0;
+    let remaining = 0;
+    try {
+      const operations = await listOutbox(user.id);
+      remaining = operations.length;
+      for (const batch of groupOutboxOperations(operations)) {
+        const batchOperations = batch.kind === 'balance_entries' ? batch.operations : [batch.operation];
+        let resolutions: (string | null)[];
+        try {
+          resolutions = batch.kind === 'balance_entries'
+            ? await pushBalanceEntries(batch.operations)
+            : [await pushOperation(user, batch.operation)];
+        } catch (err) {
+          if (isNetworkError(err)) break;
+          console.error("Error syncing offline change:", err);
+          resolutions = batchOperations.map(() => `Not saved: ${getErrorMessage(err)}`);
+        }
+        for (const [index, operation] of batchOperations.entries()) {
+          const resolution = resolutions[index];
+          if (resolution) {
+            conflicts.push({
+              id: uuidv4(),
+              operationId: operation.id,
+              description: describeOperation(operation, accountsRef.current),
+              resolution,
+            });
+          }
+          await removeOperation(operation.id);
+          remaining--;
+          synced++;
+        }
+      }
+    } catch (err) {
+      console.error("Error syncing offline changes:", err);
+    } finally {
+      syncingRef.current = false;
+      setSync(current => ({
+        ...current,
+        syncing: false,
+        pending: remaining,
+        lastSyncedAt: synced > 0 ? new Date().toISOString() : current.lastSyncedAt,
+        conflicts: [...current.conflicts, ...conflicts],
+      }));
+    }
+
+    // Reload so state reflects the merged result on the server
+    if (synced > 0) await fetchAllUserData();
+  }, [user, fetchAllUserData]);
+
+  // Sync whenever there is something queued and a connection to send it over
+  useEffect(() => {
+    if (user && !state.loading && sync.online && sync.pending > 0) syncOutbox();
+  }, [user, state.loading, sync.online, sync.pending, syncOutbox]);
+
+  const dismissSyncConflicts = () => setSync(current => ({ ...current, conflicts: [] }));
+
+  const queueOperation = async (operation: NewOutboxOperation) => {
+    if (!user) return;
+    await enqueueOperation(user.id, operation);
+    setSync(current => ({ ...current, pending: current.pending + 1 }));
+  };
+
+  // Local copy taken before destructive changes. A failed backup is logged but
+  // does not block the change.
+  const backupBefore = async (reason: BackupReason, label: string) => {
+    if (!user) return;
+    try {
+      await saveBackup(user.id, createArchive(getOwnedData(state, user.id)), reason, label);
+    } catch (err) {
+      console.error("Error creating backup:", err);
+    }
+  };
+
+  const addAccount = async (accountData: NewAccountData): Promise<Account | null> => {
     if (!user) {
         console.error("Cannot add account: no user logged in.");
         return null;
@@ -313,14 +878,26 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
         balance: accountData.balance,
     };
 
-    const accountToInsert = {
+    const { balanceHistory } = accountData;
+    const accountToInsert: Record<string, unknown> = {
       ...accountData,
+      // Generated here so an account created offline keeps its id once synced
+      id: uuidv4(),
       user_id: user.id,
-      balance_history: [initialBalanceEntry],
+      balance_history: balanceHistory && balanceHistory.length > 0 ? balanceHistory : [initialBalanceEntry],
       tags: accountData.tags || [],
       order: accountData.order,
     };
-    delete (accountToInsert as any).balance;
+    delete accountToInsert.balance;
+    delete accountToInsert.balanceHistory;
+
+    const queueAccount = async () => {
+      const account = mapAccountRow({ ...accountToInsert, created_at: new Date().toISOString() });
+      dispatch({ type: 'ADD_ACCOUNT', payload: account });
+      await queueOperation({ kind: 'add_account', account });
+      return account;
+    };
+    if (!navigator.onLine) return queueAccount();
 
     console.log("Attempting to insert account:", accountToInsert);
 
@@ -330,18 +907,16 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
       .select()
       .single();
 
-    if (insertError) {
+    if (insertError && isNetworkError(insertError)) {
+      return queueAccount();
+    } else if (insertError) {
       console.error("Error adding account:", insertError);
       dispatch({ type: 'SET_ERROR', payload: insertError });
       return null;
     } else {
        console.log("Successfully inserted account:", data);
        
-       const newAccount: Account = {
-           ...data,
-           balanceHistory: Array.isArray(data.balance_history) ? data.balance_history : [],
-           tags: Array.isArray(data.tags) ? data.tags : [],
-        };
+       const newAccount = mapAccountRow(data);
       dispatch({ type: 'ADD_ACCOUNT', payload: newAccount });
       dispatch({ type: 'SET_ERROR', payload: null });
       return newAccount;
@@ -356,92 +931,530 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
 
      const { id, ...updateData } = accountData;
 
+     const queueUpdate = async () => {
+       const existing = state.accounts.find(acc => acc.id === id);
+       if (!existing) return null;
+       const changes = pickMetadata(updateData);
+       const updatedAccount = { ...existing, ...changes };
+       dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
+       await queueOperation({ kind: 'update_account', accountId: id, changes, base: pickMetadata(existing) });
+       return updatedAccount;
+     };
+     if (!navigator.onLine) return queueUpdate();
+
      console.log(`Attempting to update account ${id}:`, updateData);
 
      const { data, error: updateError } = await supabase
        .from('accounts')
        .update(updateData)
        .eq('id', id)
-       .eq('user_id', user.id)
        .select()
        .single();
 
-     if (updateError) {
+     if (updateError && isNetworkError(updateError)) {
+       return queueUpdate();
+     } else if (updateError) {
        console.error("Error updating account:", updateError);
        dispatch({ type: 'SET_ERROR', payload: updateError });
        return null;
      } else {
-       const updatedAccount: Account = {
-           ...data,
-           balanceHistory: Array.isArray(data.balance_history) ? data.balance_history : [],
-           tags: Array.isArray(data.tags) ? data.tags : [],
-        };
+       const updatedAccount = mapAccountRow(data);
        dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
        dispatch({ type: 'SET_ERROR', payload: null });
        return updatedAccount;
      }
    };
 
+   // Deleting only marks the account, so it can be restored from the audit log
+   // for RESTORE_WINDOW_DAYS
+   const softDeleteAccount = async (accountId: string, undoes?: string) => {
+     if (!user) throw new Error("User not authenticated");
+     const { error } = await withAudit(
+       supabase.from('accounts').update({ deleted_at: new Date().toISOString() }).eq('id', accountId).eq('user_id', user.id),
+       { undoes }
+     );
+     if (error) throw error;
+     dispatch({ type: 'DELETE_ACCOUNT', payload: accountId });
+   };
+
    const deleteAccount = async (accountId: string): Promise<void> => {
      if (!user) return;
-     const { error: deleteError } = await supabase
-       .from('accounts')
-       .delete()
-       .eq('id', accountId)
-       .eq('user_id', user.id);
-
-     if (deleteError) {
+     const account = state.accounts.find(acc => acc.id === accountId);
+     await backupBefore(
+       'before_delete',
+       account ? `Before deleting ${account.institution}${account.name ? ` – ${account.name}` : ''}` : 'Before deleting an account'
+     );
+     try {
+       await softDeleteAccount(accountId);
+     } catch (deleteError) {
        console.error("Error deleting account:", deleteError);
-       dispatch({ type: 'SET_ERROR', payload: deleteError });
-     } else {
-       dispatch({ type: 'DELETE_ACCOUNT', payload: accountId });
+       dispatch({ type: 'SET_ERROR', payload: deleteError as PostgrestError });
      }
    };
 
-   const addBalanceEntry = async (accountId: string, balance: number, date: string) => {
+  // Adds balance entries to any number of accounts in one atomic batch and
+  // updates state once at the end. An entry's optional cash flow is stored in
+  // the same write, so a deposit and the resulting balance are recorded together.
+  const addBalanceEntries = async (entries: NewBalanceEntry[], note?: string) => {
+    if (!user) throw new Error("User not authenticated");
+    if (entries.length === 0) return;
+
+    const inputs = entries.map(entry => ({
+      accountId: entry.accountId,
+      date: entry.date,
+      balance: entry.balance,
+      cashFlow: entry.cashFlow ? { id: uuidv4(), date: entry.date, ...entry.cashFlow } : null,
+    }));
+
+    // Offline, the entries are applied to local state and queued with the same merge rules
+    const queueEntries = async () => {
+      const updated = new Map<string, Account>();
+      inputs.forEach(input => {
+        const account = updated.get(input.accountId) || state.accounts.find(acc => acc.id === input.accountId);
+        if (!account) throw new Error('Account not found');
+        const merged = mergeBalanceEntryInto(
+          account.balanceHistory,
+          account.cashFlows || [],
+          { date: input.date, balance: input.balance },
+          input.cashFlow || undefined
+        );
+        updated.set(input.accountId, { ...account, ...merged });
+      });
+      dispatch({
+        type: 'SET_ACCOUNT_BALANCES',
+        payload: Array.from(updated.values()).map(acc => ({ accountId: acc.id, balanceHistory: acc.balanceHistory, cashFlows: acc.cashFlows || [] })),
+      });
+      for (const input of inputs) {
+        await queueOperation({
+          kind: 'add_balance_entry',
+          accountId: input.accountId,
+          entry: { date: input.date, balance: input.balance },
+          cashFlow: input.cashFlow || undefined,
+        });
+      }
+    };
+    if (!navigator.onLine) return queueEntries();
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const results = await commitBalanceEntries(inputs, note);
+      dispatch({
+        type: 'SET_ACCOUNT_BALANCES',
+        payload: results.map(({ account }) => ({
+          accountId: account.id,
+          balanceHistory: account.balanceHistory,
+          cashFlows: account.cashFlows || [],
+        })),
+      });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueEntries();
+        return;
+      }
+      console.error("Error adding balance entries:", error);
+      dispatch({ type: 'SET_ERROR', payload: error instanceof Error ? error : (error as PostgrestError) });
+      throw error;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  const addBalanceEntry = (accountId: string, balance: number, date: string, cashFlow?: NewCashFlow) =>
+    addBalanceEntries([{ accountId, balance, date, cashFlow }]);
+
+  // Saves an edited history in place of the stored one. `expected` is the
+  // history the edit started from; the save fails if it was changed elsewhere.
+  const replaceBalanceHistory = async (accountId: string, expected: BalanceEntry[], entries: BalanceEntry[]) => {
+    if (!user) throw new Error("User not authenticated");
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const { data, error: updateError } = await withAudit(
+        supabase.rpc('replace_balance_history', {
+          target_account_id: accountId,
+          expected: getManualHistory(expected),
+          history: getManualHistory(entries),
+        }),
+        { note: 'Edited balance history' }
+      );
+
+      if (updateError) throw updateError;
+
+      const account = mapAccountRow(data as Record<string, unknown>);
+      dispatch({ type: 'SET_BALANCE_HISTORY', payload: { accountId, balanceHistory: account.balanceHistory } });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error replacing balance history:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Stores (or clears, with null) the loan terms of an amortizing account
+  const updateLoanDetails = async (accountId: string, loanDetails: LoanDetails | null) => {
     if (!user) throw new Error("User not authenticated");
 
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
-      // 1. Fetch current balance history for the specific account
-      const { data: accountData, error: fetchError } = await supabase
+      const { data, error } = await supabase
         .from('accounts')
-        .select('balance_history')
-        .eq('user_id', user.id)
+        .update({ loan_details: loanDetails })
         .eq('id', accountId)
+        .select()
         .single();
 
-      if (fetchError) throw fetchError;
-      if (!accountData) throw new Error('Account not found');
-
-      // 2. Prepare the new entry and updated history
-      const currentHistory: BalanceEntry[] = accountData.balance_history || [];
-      const newEntry: BalanceEntry = { date, balance }; // Use the date passed in
-      
-      // Filter out any existing entry for the exact same date string before adding
-      // Note: Supabase uses timestamptz, direct string comparison might be okay,
-      // but comparing Date objects might be safer if formats vary.
-      const filteredHistory = currentHistory.filter(entry => entry.date !== date);
-      const updatedHistory = [...filteredHistory, newEntry]
-                                .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-      // 3. Update the account in Supabase with the new history
-      const { error: updateError } = await supabase
+      if (error) throw error;
+
+      const updatedAccount = mapAccountRow(data);
+      dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error updating loan details:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Stores (or clears, with null) the valuation model of a physical asset. Its
+  // estimated balance entries follow from the model when accounts are read.
+  const updateValuation = async (accountId: string, valuation: ValuationSettings | null) => {
+    if (!user) throw new Error("User not authenticated");
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const { data, error } = await supabase
         .from('accounts')
-        .update({ balance_history: updatedHistory })
-        .eq('user_id', user.id)
-        .eq('id', accountId);
+        .update({ valuation })
+        .eq('id', accountId)
+        .select()
+        .single();
 
-      if (updateError) throw updateError;
+      if (error) throw error;
+
+      const updatedAccount = mapAccountRow(data);
+      dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error updating valuation:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Saves an account's holdings and records their value (holdings × price) as a
+  // balance entry in the same batch write. An empty list leaves the balance manual.
+  const updateHoldings = async (accountId: string, holdings: Holding[]) => {
+    if (!user) throw new Error("User not authenticated");
+    const account = state.accounts.find(acc => acc.id === accountId);
+    if (!account) throw new Error('Account not found');
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const entry = holdings.length > 0 ? getHoldingsBalanceEntry(holdings, prices, account.balanceHistory) : null;
+      const [{ account: updatedAccount }] = await commitBalanceEntries([{
+        accountId,
+        date: entry ? entry.date : new Date().toISOString(),
+        balance: entry ? entry.balance : null,
+        cashFlow: null,
+        holdings,
+      }]);
+
+      dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error updating holdings:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Records a fresh value for every account with holdings in one batch, e.g.
+  // after importing prices. Pass the new table: the context's copy updates on
+  // the next render.
+  const revalueHoldings = async (priceTable: PriceQuote[] = prices) => {
+    const entries = state.accounts
+      .filter(account => (account.holdings || []).length > 0)
+      .map(account => {
+        const entry = getHoldingsBalanceEntry(account.holdings || [], priceTable, account.balanceHistory);
+        return { accountId: account.id, date: entry.date, balance: entry.balance };
+      });
+    await addBalanceEntries(entries, 'Revalued holdings');
+  };
+
+  // Records a bank statement: the closing balance goes into balance_history (same
+  // date replaces) and, optionally, transactions into the ledger (known ids are
+  // skipped), so importing the same statement again changes nothing
+  const importStatement = async (
+    accountId: string,
+    statement: ParsedStatement,
+    includeTransactions: boolean
+  ): Promise<StatementImportResult> => {
+    if (!user) throw new Error("User not authenticated");
+
+    const closingEntry = getClosingBalanceEntry(statement);
+    const transactions = includeTransactions ? statement.transactions.map(transaction => toCashFlowEntry(accountId, transaction)) : [];
+    const inputs: BalanceEntryInput[] = [
+      ...(closingEntry ? [{ accountId, date: closingEntry.date, balance: closingEntry.balance, cashFlow: null }] : []),
+      ...transactions.map(cashFlow => ({ accountId, date: cashFlow.date, balance: null, cashFlow })),
+    ];
+    if (inputs.length === 0) return { balanceRecorded: false, transactionsAdded: 0, transactionsSkipped: 0 };
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const [{ account, cashFlowsAdded }] = await commitBalanceEntries(inputs, 'Statement import');
+      dispatch({
+        type: 'SET_ACCOUNT_BALANCES',
+        payload: [{ accountId, balanceHistory: account.balanceHistory, cashFlows: account.cashFlows || [] }],
+      });
+      dispatch({ type: 'SET_ERROR', payload: null });
+      return {
+        balanceRecorded: closingEntry !== null,
+        transactionsAdded: cashFlowsAdded,
+        transactionsSkipped: transactions.length - cashFlowsAdded,
+      };
+    } catch (err) {
+      console.error("Error importing statement:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Writes ledger entries through the batch function so concurrent writers
+  // cannot lose each other's entries and both sides of a transfer land together
+  const commitCashFlows = async (cashFlows: { accountId: string; cashFlow: CashFlowEntry }[]) => {
+    if (!user) throw new Error("User not authenticated");
+
+    const results = await commitBalanceEntries(
+      cashFlows.map(({ accountId, cashFlow }) => ({ accountId, date: cashFlow.date, balance: null, cashFlow }))
+    );
+    dispatch({
+      type: 'SET_ACCOUNT_BALANCES',
+      payload: results.map(({ account }) => ({
+        accountId: account.id,
+        balanceHistory: account.balanceHistory,
+        cashFlows: account.cashFlows || [],
+      })),
+    });
+  };
+
+  const addCashFlow = async (accountId: string, date: string, cashFlow: NewCashFlow) => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      await commitCashFlows([{ accountId, cashFlow: { id: uuidv4(), date, ...cashFlow } }]);
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error adding cash flow:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Records a transfer as a withdrawal-side and a deposit-side entry sharing one id.
+  // The amount is in the source account's currency; the deposit side is converted
+  // at the rate for the transfer date.
+  const addTransfer = async (fromAccountId: string, toAccountId: string, amount: number, date: string, note?: string) => {
+    if (fromAccountId === toAccountId) throw new Error('Cannot transfer to the same account');
+    const fromAccount = state.accounts.find(acc => acc.id === fromAccountId);
+    const toAccount = state.accounts.find(acc => acc.id === toAccountId);
+    if (!fromAccount || !toAccount) throw new Error('Account not found');
+
+    const fromCurrency = getAccountCurrency(fromAccount);
+    const toCurrency = getAccountCurrency(toAccount);
+    const rate = findRate(rates, fromCurrency, toCurrency, date);
+    if (rate === null) throw new Error(`Add a ${fromCurrency} to ${toCurrency} exchange rate before recording this transfer`);
+
+    const id = uuidv4();
+    const magnitude = Math.abs(amount);
+    const received = Math.round(magnitude * rate * 100) / 100;
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      await commitCashFlows([
+        { accountId: fromAccountId, cashFlow: { id, date, amount: -magnitude, kind: 'transfer', transferAccountId: toAccountId, note } },
+        { accountId: toAccountId, cashFlow: { id, date, amount: received, kind: 'transfer', transferAccountId: fromAccountId, note } },
+      ]);
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error adding transfer:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Deleting one side of a transfer also removes the other side; the database
+  // finds it and removes both in one transaction
+  const deleteCashFlow = async (accountId: string, cashFlowId: string) => {
+    if (!user) throw new Error("User not authenticated");
 
-      // 4. Dispatch locally AFTER successful DB update using the correct payload
-      dispatch({ type: 'ADD_BALANCE_ENTRY', payload: { accountId, balance, date } });
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const { data, error } = await supabase.rpc('remove_cash_flow', {
+        target_account_id: accountId,
+        cash_flow_id: cashFlowId,
+      });
+      if (error) throw error;
+
+      dispatch({
+        type: 'SET_ACCOUNT_BALANCES',
+        payload: ((data || []) as Record<string, unknown>[]).map(row => {
+          const account = mapAccountRow(row);
+          return { accountId: account.id, balanceHistory: account.balanceHistory, cashFlows: account.cashFlows || [] };
+        }),
+      });
       dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error deleting cash flow:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // Writes the data set that results from importing an archive. Everything is
+  // upserted first and only then are records missing from a 'replace' archive
+  // deleted, so a failed import never leaves the user with less than before.
+  const importArchive = async (archive: ArchiveData, mode: ArchiveImportMode) => {
+    if (!user) throw new Error("User not authenticated");
+    await backupBefore('before_import', mode === 'replace' ? 'Before replacing data' : 'Before merging data');
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const current = getOwnedData(state, user.id);
+      const next = applyArchive(current, archive, mode);
+      const note = mode === 'replace' ? 'Replaced from a file or backup' : 'Merged from a file';
+
+      const writes = await Promise.all([
+        next.accounts.length > 0
+          ? withAudit(
+              supabase.from('accounts').upsert(next.accounts.map(account => toAccountRow(account, user.id)), { onConflict: 'id' }),
+              { note }
+            )
+          : { error: null },
+        next.historicalData.length > 0
+          ? supabase
+              .from('historical_data')
+              .upsert(next.historicalData.map(point => ({ ...point, user_id: user.id })), { onConflict: 'user_id, year' })
+          : { error: null },
+        next.snapshots.length > 0
+          ? supabase
+              .from('net_worth_snapshots')
+              .upsert(next.snapshots.map(snapshot => toSnapshotRow(snapshot, user.id)), { onConflict: 'user_id, snapshot_date' })
+          : { error: null },
+        next.goals.length > 0
+          ? supabase.from('goals').upsert(next.goals.map(goal => toGoalRow(goal, user.id)), { onConflict: 'id' })
+          : { error: null },
+      ]);
+      const writeError = writes.find(result => result.error)?.error;
+      if (writeError) throw writeError;
+
+      if (mode === 'replace') {
+        // Accounts are soft deleted like any other delete, so they can be restored
+        let accountRemoval = withAudit(
+          supabase.from('accounts').update({ deleted_at: new Date().toISOString() }).eq('user_id', user.id).is('deleted_at', null),
+          { note }
+        );
+        if (next.accounts.length > 0) accountRemoval = accountRemoval.not('id', 'in', toInList(next.accounts.map(account => account.id)));
+        const { error: removalError } = await accountRemoval;
+        if (removalError) throw removalError;
 
-    } catch (error: any) {
-      console.error("Error adding balance entry:", error);
-      dispatch({ type: 'SET_ERROR', payload: error });
+        const removals: [string, string, (string | number)[]][] = [
+          ['historical_data', 'year', next.historicalData.map(point => point.year)],
+          ['net_worth_snapshots', 'snapshot_date', next.snapshots.map(snapshot => snapshot.date)],
+          ['goals', 'id', next.goals.map(goal => goal.id)],
+        ];
+        for (const [table, column, kept] of removals) {
+          let query = supabase.from(table).delete().eq('user_id', user.id);
+          if (kept.length > 0) query = query.not(column, 'in', toInList(kept));
+          const { error } = await query;
+          if (error) throw error;
+        }
+      }
+
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error importing archive:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+
+    // Reload so state reflects exactly what was stored
+    await fetchAllUserData();
+  };
+
+  // The most recent audit entries the user can see: their own and, for shared
+  // accounts, their household's
+  const fetchAuditLog = useCallback(async (limit = 200): Promise<AuditEntry[]> => {
+    if (!user) return [];
+    const { data, error } = await supabase
+      .from('account_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) {
+      console.error("Error fetching audit log:", error);
       throw error;
+    }
+    return (data as AuditRow[]).map(mapAuditRow);
+  }, [user]);
+
+  // Reverts one logged change and logs the undo. Undoing a delete restores the
+  // account, undoing a creation (or restore) deletes it again, and undoing an
+  // edit writes the previous values back.
+  const undoAuditEntry = async (entry: AuditEntry, entries: AuditEntry[]) => {
+    if (!user) throw new Error("User not authenticated");
+    const current = state.accounts.find(acc => acc.id === entry.accountId);
+    const blocker = getUndoBlocker(entry, current, entries);
+    if (blocker) throw new Error(blocker);
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      if (!entry.after) {
+        const { data, error } = await withAudit(
+          supabase.from('accounts').update({ deleted_at: null }).eq('id', entry.accountId).not('deleted_at', 'is', null),
+          { undoes: entry.id }
+        )
+          .select()
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) throw new Error('The account is no longer available to restore');
+        const restored = mapAccountRow(data);
+        dispatch({ type: 'ADD_ACCOUNT', payload: restored });
+      } else if (!entry.before || !current) {
+        await softDeleteAccount(entry.accountId, entry.id);
+      } else {
+        const { data, error } = await withAudit(
+          supabase.from('accounts').update(toAccountColumns(entry.before)).eq('id', entry.accountId),
+          { undoes: entry.id }
+        )
+          .select()
+          .single();
+        if (error) throw error;
+        const reverted = mapAccountRow(data);
+        dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: reverted });
+      }
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error undoing change:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(getErrorMessage(err)) });
+      throw err;
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
@@ -487,6 +1500,7 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
 
   const deleteHistoricalData = async (year: number) => {
     if (!user) throw new Error("User not authenticated");
+    await backupBefore('before_delete', `Before deleting ${year} historical data`);
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
       const { error } = await supabase.from('historical_data').delete().eq('user_id', user.id).eq('year', year);
@@ -502,66 +1516,357 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const fetchUserGoal = async () => {
+  const fetchSnapshots = async () => {
       if (!user) return;
-       dispatch({ type: 'SET_LOADING', payload: true });
-       try {
-           const { data, error } = await supabase
-               .from('user_goals')
-               .select('target_amount, target_date')
-               .eq('user_id', user.id)
-               .single();
-           if (error) {
-               if (error.code !== 'PGRST116') {
-                  throw error;
-               } else {
-                   dispatch({ type: 'SET_USER_GOAL', payload: null }); 
-               }
-           } else {
-               dispatch({ type: 'SET_USER_GOAL', payload: data as UserGoal });
-           }
-           dispatch({ type: 'SET_ERROR', payload: null });
-       } catch (err: any) {
-            console.error("Error fetching user goal:", err);
-            dispatch({ type: 'SET_ERROR', payload: err });
-            dispatch({ type: 'SET_USER_GOAL', payload: null });
-       } finally {
-           dispatch({ type: 'SET_LOADING', payload: false });
-       }
+      try {
+          const { data, error } = await supabase
+              .from('net_worth_snapshots')
+              .select('*')
+              .eq('user_id', user.id)
+              .order('snapshot_date', { ascending: true });
+          if (error) throw error;
+          dispatch({ type: 'SET_SNAPSHOTS', payload: (data as SnapshotRow[]).map(mapSnapshotRow) });
+          dispatch({ type: 'SET_ERROR', payload: null });
+      } catch (err) {
+          console.error("Error fetching snapshots:", err);
+          dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      }
   };
 
-  const setUserGoal = async (goal: UserGoal) => {
+  // Stores today's totals. Deduplication policy: at most one snapshot per day, the
+  // latest write wins, and nothing is written when today's totals are unchanged.
+  // Snapshots belong to one user, so joint accounts count at that user's share.
+  const recordSnapshot = useCallback(async () => {
+    if (!user || accountsWithEstimates.length === 0) return;
+
+    const ownAccounts = applyOwnershipFilter(accountsWithEstimates, user.id, 'mine');
+    const totals = calculateNetWorth(ownAccounts, convert);
+    const snapshotDate = format(new Date(), 'yyyy-MM-dd');
+    const existing = state.snapshots.find((snapshot) => snapshot.date === snapshotDate);
+    if (
+      existing &&
+      existing.totalAssets === totals.totalAssets &&
+      existing.totalLiabilities === totals.totalLiabilities
+    ) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .upsert(
+          {
+            user_id: user.id,
+            snapshot_date: snapshotDate,
+            total_assets: totals.totalAssets,
+            total_liabilities: totals.totalLiabilities,
+            net_worth: totals.netWorth,
+            accounts: ownAccounts.map((acc) => ({ id: acc.id, balance: getCurrentBalance(acc) })),
+          },
+          { onConflict: 'user_id, snapshot_date' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      dispatch({ type: 'UPSERT_SNAPSHOT', payload: mapSnapshotRow(data as SnapshotRow) });
+    } catch (err) {
+      // Snapshots are a background side effect; log without surfacing a global error
+      console.error("Error recording snapshot:", err);
+    }
+  }, [user, accountsWithEstimates, state.snapshots, convert]);
+
+  const deleteSnapshot = async (snapshotId: string) => {
     if (!user) throw new Error("User not authenticated");
+    const snapshot = state.snapshots.find(item => item.id === snapshotId);
+    await backupBefore('before_delete', snapshot ? `Before deleting the ${snapshot.date} snapshot` : 'Before deleting a snapshot');
+    try {
+      const { error } = await supabase
+        .from('net_worth_snapshots')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('id', snapshotId);
+      if (error) throw error;
+      dispatch({ type: 'DELETE_SNAPSHOT', payload: snapshotId });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error deleting snapshot:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    }
+  };
+
+  const fetchGoals = async () => {
+    if (!user) return;
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
-      const upsertData = { ...goal, user_id: user.id };
-      const { data, error } = await supabase.from('user_goals').upsert(upsertData).select().single();
-      
+      const { data, error } = await supabase
+        .from('goals')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
       if (error) throw error;
-      
-      dispatch({ type: 'SET_USER_GOAL', payload: data as UserGoal });
+
+      dispatch({ type: 'SET_GOALS', payload: (data as GoalRow[]).map(mapGoalRow) });
       dispatch({ type: 'SET_ERROR', payload: null });
-    } catch (err: any) {
-      console.error("Error setting user goal:", err);
-      dispatch({ type: 'SET_ERROR', payload: err });
+    } catch (err) {
+      console.error("Error fetching goals:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      dispatch({ type: 'SET_GOALS', payload: [] });
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  const saveGoal = async (goal: NewGoalData): Promise<Goal> => {
+    if (!user) throw new Error("User not authenticated");
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const row = {
+        user_id: user.id,
+        name: goal.name,
+        target_amount: goal.targetAmount,
+        target_date: goal.targetDate,
+        scope: goal.scope,
+        milestones: [...goal.milestones].sort((a, b) => a.amount - b.amount),
+      };
+      const { data, error } = goal.id
+        ? await supabase.from('goals').update(row).eq('user_id', user.id).eq('id', goal.id).select().single()
+        : await supabase.from('goals').insert(row).select().single();
+
+      if (error) throw error;
+
+      const savedGoal = mapGoalRow(data as GoalRow);
+      dispatch({ type: 'UPSERT_GOAL', payload: savedGoal });
+      dispatch({ type: 'SET_ERROR', payload: null });
+      return savedGoal;
+    } catch (err) {
+      console.error("Error saving goal:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
       throw err;
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
   };
 
-  const deleteUserGoal = async () => {
+  const deleteGoal = async (goalId: string) => {
     if (!user) throw new Error("User not authenticated");
+    const goal = state.goals.find(item => item.id === goalId);
+    await backupBefore('before_delete', goal ? `Before deleting goal "${goal.name}"` : 'Before deleting a goal');
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
-      const { error } = await supabase.from('user_goals').delete().eq('user_id', user.id);
+      const { error } = await supabase.from('goals').delete().eq('user_id', user.id).eq('id', goalId);
       if (error) throw error;
-      
-      dispatch({ type: 'DELETE_USER_GOAL' });
+
+      dispatch({ type: 'DELETE_GOAL', payload: goalId });
       dispatch({ type: 'SET_ERROR', payload: null });
-    } catch (err: any) {
-      console.error("Error deleting user goal:", err);
-      dispatch({ type: 'SET_ERROR', payload: err });
+    } catch (err) {
+      console.error("Error deleting goal:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  // --- Households ---
+
+  const fetchHousehold = useCallback(async () => {
+    if (!user) {
+      setHousehold(EMPTY_HOUSEHOLD);
+      return;
+    }
+    try {
+      const [membershipResponse, receivedResponse] = await Promise.all([
+        supabase.from('household_members').select('*').eq('user_id', user.id).maybeSingle(),
+        supabase
+          .from('household_invites')
+          .select('*')
+          .eq('email', (user.email || '').toLowerCase())
+          .order('created_at', { ascending: true }),
+      ]);
+      if (membershipResponse.error) throw membershipResponse.error;
+      if (receivedResponse.error) throw receivedResponse.error;
+      const receivedInvites = (receivedResponse.data as HouseholdInviteRow[]).map(mapInviteRow);
+
+      const membership = membershipResponse.data as HouseholdMemberRow | null;
+      if (!membership) {
+        setHousehold({ ...EMPTY_HOUSEHOLD, receivedInvites });
+        return;
+      }
+
+      const [householdResponse, membersResponse, invitesResponse] = await Promise.all([
+        supabase.from('households').select('id, name, created_by').eq('id', membership.household_id).single(),
+        supabase.from('household_members').select('*').eq('household_id', membership.household_id).order('joined_at', { ascending: true }),
+        membership.role === 'owner'
+          ? supabase.from('household_invites').select('*').eq('household_id', membership.household_id).order('created_at', { ascending: true })
+          : { data: [], error: null },
+      ]);
+      if (householdResponse.error) throw householdResponse.error;
+      if (membersResponse.error) throw membersResponse.error;
+      if (invitesResponse.error) throw invitesResponse.error;
+
+      const row = householdResponse.data as { id: string; name: string; created_by: string };
+      const current: Household = { id: row.id, name: row.name, createdBy: row.created_by };
+      setHousehold({
+        household: current,
+        members: (membersResponse.data as HouseholdMemberRow[]).map(mapMemberRow),
+        invites: (invitesResponse.data as HouseholdInviteRow[]).map(mapInviteRow),
+        // Invites from other households stay visible, but joining one means leaving this one first
+        receivedInvites: receivedInvites.filter(invite => invite.householdId !== current.id),
+      });
+    } catch (err) {
+      // Household data is optional; without it the user simply sees their own accounts
+      console.error("Error fetching household:", err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchHousehold();
+  }, [fetchHousehold]);
+
+  useEffect(() => {
+    localStorage.setItem(OWNERSHIP_FILTER_KEY, ownershipFilter);
+  }, [ownershipFilter]);
+
+  const householdRole = household.members.find(member => member.userId === user?.id)?.role ?? null;
+
+  // Outside a household there is no one to filter by, so everything is shown
+  const visibleAccounts = useMemo(
+    () => (user && household.household ? applyOwnershipFilter(accountsWithEstimates, user.id, ownershipFilter) : accountsWithEstimates),
+    [accountsWithEstimates, user, household.household, ownershipFilter]
+  );
+
+  // Runs a household change and reloads household data (and, when sharing
+  // changed, accounts) afterwards
+  const runHouseholdChange = async (description: string, change: () => Promise<void>, reloadAccounts = false) => {
+    if (!user) throw new Error("User not authenticated");
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      await change();
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error(`Error ${description}:`, err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(getErrorMessage(err)) });
+      throw err;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+    await fetchHousehold();
+    if (reloadAccounts) await fetchAllUserData();
+  };
+
+  const createHousehold = (name: string) =>
+    runHouseholdChange('creating household', async () => {
+      if (!user) return;
+      const { data, error } = await supabase.from('households').insert({ name, created_by: user.id }).select('id').single();
+      if (error) throw error;
+      const { error: memberError } = await supabase
+        .from('household_members')
+        .insert({ household_id: data.id, user_id: user.id, role: 'owner', email: user.email || '' });
+      if (memberError) throw memberError;
+    });
+
+  const inviteToHousehold = (email: string, role: HouseholdInvite['role']) =>
+    runHouseholdChange('inviting to household', async () => {
+      if (!user || !household.household) throw new Error('Create a household first');
+      const { error } = await supabase.from('household_invites').insert({
+        household_id: household.household.id,
+        household_name: household.household.name,
+        email: email.trim().toLowerCase(),
+        role,
+        invited_by: user.id,
+      });
+      if (error) throw error;
+    });
+
+  const revokeHouseholdInvite = (inviteId: string) =>
+    runHouseholdChange('revoking invite', async () => {
+      const { error } = await supabase.from('household_invites').delete().eq('id', inviteId);
+      if (error) throw error;
+    });
+
+  // Joining goes through a database function because the invitee cannot add
+  // themselves to household_members directly
+  const acceptHouseholdInvite = (inviteId: string) =>
+    runHouseholdChange(
+      'accepting invite',
+      async () => {
+        const { error } = await supabase.rpc('accept_household_invite', { invite_id: inviteId });
+        if (error) throw error;
+      },
+      true
+    );
+
+  const declineHouseholdInvite = (inviteId: string) =>
+    runHouseholdChange('declining invite', async () => {
+      const { error } = await supabase.from('household_invites').delete().eq('id', inviteId);
+      if (error) throw error;
+    });
+
+  const updateMemberRole = (userId: string, role: HouseholdInvite['role']) =>
+    runHouseholdChange('updating member role', async () => {
+      if (!household.household) return;
+      const { error } = await supabase
+        .from('household_members')
+        .update({ role })
+        .eq('household_id', household.household.id)
+        .eq('user_id', userId);
+      if (error) throw error;
+    });
+
+  // Removing yourself leaves the household. Accounts stay with their owners: the
+  // database unshares the departing member's accounts.
+  const removeHouseholdMember = (userId: string) =>
+    runHouseholdChange(
+      'removing household member',
+      async () => {
+        if (!household.household) return;
+        const { error } = await supabase
+          .from('household_members')
+          .delete()
+          .eq('household_id', household.household.id)
+          .eq('user_id', userId);
+        if (error) throw error;
+      },
+      true
+    );
+
+  // Deleting a household turns every shared account back into a personal one
+  const deleteHousehold = () =>
+    runHouseholdChange(
+      'deleting household',
+      async () => {
+        if (!household.household) return;
+        const { error } = await supabase.from('households').delete().eq('id', household.household.id);
+        if (error) throw error;
+      },
+      true
+    );
+
+  // Shares an account with a household (or makes it personal again, with null)
+  // and sets how it is split between members
+  const updateAccountSharing = async (accountId: string, householdId: string | null, ownership: OwnershipShare[]) => {
+    if (!user) throw new Error("User not authenticated");
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    try {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update({ household_id: householdId, ownership: householdId ? ownership : [] })
+        .eq('id', accountId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const updatedAccount = mapAccountRow(data);
+      dispatch({ type: 'UPDATE_ACCOUNT_METADATA', payload: updatedAccount });
+      dispatch({ type: 'SET_ERROR', payload: null });
+    } catch (err) {
+      console.error("Error updating account sharing:", err);
+      dispatch({ type: 'SET_ERROR', payload: err instanceof Error ? err : new Error(String(err)) });
       throw err;
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
@@ -569,7 +1874,7 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
   };
 
   const contextValue: NetWorthContextType = {
-    state,
+    state: readState,
     dispatch,
     loading: state.loading,
     error: state.error,
@@ -578,12 +1883,46 @@ export function NetWorthProvider({ children }: { children: ReactNode }) {
     updateAccountMetadata,
     deleteAccount,
     addBalanceEntry,
+    addBalanceEntries,
+    replaceBalanceHistory,
+    updateLoanDetails,
+    updateValuation,
+    updateHoldings,
+    revalueHoldings,
+    importStatement,
+    importArchive,
+    fetchAuditLog,
+    undoAuditEntry,
+    sync,
+    syncNow: syncOutbox,
+    dismissSyncConflicts,
+    household,
+    householdRole,
+    ownershipFilter,
+    setOwnershipFilter,
+    visibleAccounts,
+    fetchHousehold,
+    createHousehold,
+    inviteToHousehold,
+    revokeHouseholdInvite,
+    acceptHouseholdInvite,
+    declineHouseholdInvite,
+    updateMemberRole,
+    removeHouseholdMember,
+    deleteHousehold,
+    updateAccountSharing,
+    addCashFlow,
+    addTransfer,
+    deleteCashFlow,
     fetchHistoricalData,
     upsertHistoricalData,
     deleteHistoricalData,
-    fetchUserGoal,
-    setUserGoal,
-    deleteUserGoal,
+    fetchSnapshots,
+    recordSnapshot,
+    deleteSnapshot,
+    fetchGoals,
+    saveGoal,
+    deleteGoal,
   };
 
   return <NetWorthContext.Provider value={contextValue}>{children}</NetWorthContext.Provider>;
@@ -597,9 +1936,11 @@ export function useNetWorth() {
   return context;
 }
 
+// Totals for the accounts selected by the ownership filter
 export function useNetWorthCalculations() {
-  const { state } = useNetWorth();
-  return calculateNetWorth(state.accounts);
+  const { visibleAccounts } = useNetWorth();
+  const { convert } = useCurrency();
+  return calculateNetWorth(visibleAccounts, convert);
 }
 
 export { getCurrentBalance, getLatestBalanceEntry }; 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import { CurrencyConverter, ExchangeRate } from '../utils/currency';
+import { PriceQuote } from '../utils/holdings';
+
+// The currency context lives apart from its provider so CurrencyContext.tsx
+// only exports components (React fast refresh)
+export interface CurrencyContextType {
+  baseCurrency: string;
+  setBaseCurrency: (currency: string) => void;
+  rates: ExchangeRate[];
+  upsertRate: (rate: ExchangeRate) => void;
+  deleteRate: (rate: ExchangeRate) => void;
+  convert: CurrencyConverter;
+  formatCurrency: (value: number, maximumFractionDigits?: number) => string;
+  prices: PriceQuote[];
+  importPrices: (quotes: PriceQuote[]) => PriceQuote[];
+  deletePrice: (quote: PriceQuote) => void;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
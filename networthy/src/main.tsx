@@ -5,14 +5,17 @@ import './index.css';
 import { AuthProvider } from './context/AuthContext';
 import { NetWorthProvider } from './context/NetWorthContext';
 import { ThemeProvider } from './context/ThemeContext';
+import { CurrencyProvider } from './context/CurrencyContext';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   // <React.StrictMode>
     <ThemeProvider>
       <AuthProvider>
-        <NetWorthProvider>
-          <App />
-        </NetWorthProvider>
+        <CurrencyProvider>
+          <NetWorthProvider>
+            <App />
+          </NetWorthProvider>
+        </CurrencyProvider>
       </AuthProvider>
     </ThemeProvider>
   // </React.StrictMode>
@@ -0,0 +1,22 @@
+// Which accounts count towards a goal: everything, a chosen set of accounts, or
+// every account carrying at least one of the chosen tags
+export type GoalScope =
+  | { kind: 'all' }
+  | { kind: 'accounts'; accountIds: string[] }
+  | { kind: 'tags'; tags: string[] };
+
+export type GoalMilestone = {
+  id: string;
+  name: string;
+  amount: number;
+};
+
+export type Goal = {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string; // yyyy-MM-dd
+  scope: GoalScope;
+  milestones: GoalMilestone[]; // kept sorted by amount
+  createdAt?: string;
+};
@@ -0,0 +1,30 @@
+// Owners manage members and invites; editors can change shared accounts;
+// viewers only see them
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export type Household = {
+  id: string;
+  name: string;
+  createdBy: string;
+};
+
+export type HouseholdMember = {
+  userId: string;
+  role: HouseholdRole;
+  email: string;
+};
+
+export type HouseholdInvite = {
+  id: string;
+  householdId: string;
+  householdName: string;
+  email: string;
+  role: Exclude<HouseholdRole, 'owner'>;
+  createdAt?: string;
+};
+
+// One member's part of a joint account, in percent
+export type OwnershipShare = {
+  userId: string;
+  share: number;
+};
@@ -1,10 +1,21 @@
+// Return figures are percentages (e.g. 7.5 means 7.5%), like percentageChange
 export type Performance = {
   totalReturn: number;
   percentageChange: number;
   timeWeightedReturn: number;
   annualizedReturn: number;
+  moneyWeightedReturn: number | null; // annualized XIRR; null when it cannot be solved
+  cagr: number | null; // null when start or end value is not positive
+  netContributions: number; // contributions minus withdrawals inside the window
+  marketGain: number; // change in value not explained by contributions
   startDate: string;
   endDate: string;
   startValue: number;
   endValue: number;
-}; 
\ No newline at end of file
+};
+
+// External money moving into (positive) or out of (negative) an account or portfolio
+export type CashFlow = {
+  date: string;
+  amount: number;
+};
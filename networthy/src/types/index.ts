@@ -1,16 +1,67 @@
-export type AccountType = 
+import { OwnershipShare } from './Household';
+
+// Asset/liability classification and labels live in utils/accountTypes
+export type AccountType =
   | 'checkings'
   | 'savings'
   | 'cash'
   | 'investment'
+  | 'brokerage'
+  | 'retirement'
+  | 'hsa'
   | 'crypto'
   | 'real_estate'
   | 'other_assets'
-  | 'liability';
+  | 'credit_card'
+  | 'student_loan'
+  | 'auto_loan'
+  | 'mortgage'
+  | 'other_liabilities';
 
 export interface BalanceEntry {
   date: string;
   balance: number;
+  estimated?: boolean; // generated from a valuation model rather than entered or appraised
+}
+
+export type CashFlowKind = 'contribution' | 'withdrawal' | 'transfer';
+
+// Money moved into (positive amount) or out of (negative amount) an account.
+// Both sides of a transfer share the same id and point at each other.
+export interface CashFlowEntry {
+  id: string;
+  date: string;
+  amount: number;
+  kind: CashFlowKind;
+  transferAccountId?: string;
+  note?: string;
+}
+
+// Terms of an amortizing loan (mortgage, student/auto loan)
+export interface LoanDetails {
+  principal: number;
+  annualRate: number; // APR as a percentage
+  termMonths: number;
+  startDate: string; // yyyy-MM-dd; the first payment is due a month later
+}
+
+export interface Holding {
+  id: string;
+  symbol: string; // upper case ticker or coin, matched against the price table
+  quantity: number;
+  costBasis: number; // total paid for the position, in the account's currency
+}
+
+export type ValuationModel = 'fixed_rate' | 'straight_line' | 'declining_balance';
+
+export interface ValuationSettings {
+  purchasePrice: number;
+  purchaseDate: string; // yyyy-MM-dd
+  model: ValuationModel;
+  annualRate: number; // % per year: growth for fixed_rate (negative depreciates), loss for declining_balance
+  usefulLifeYears?: number; // straight_line: years until the salvage value is reached
+  salvageValue?: number; // straight_line: value at the end of the useful life
+  linkedMortgageId?: string | null; // liability secured by this asset, for equity
 }
 
 export interface Account {
@@ -19,10 +70,18 @@ export interface Account {
   name?: string;
   type: AccountType;
   balanceHistory: BalanceEntry[];
+  cashFlows?: CashFlowEntry[];
   category?: string;
   tags: string[];
   notes?: string;
   order: number;
+  currency?: string; // ISO 4217 code; accounts without one are in DEFAULT_CURRENCY
+  loanDetails?: LoanDetails | null;
+  valuation?: ValuationSettings | null;
+  holdings?: Holding[]; // when present, the balance is computed from holdings × price
+  ownerId?: string; // the user who created the account
+  householdId?: string | null; // set when the account is shared with a household
+  ownership?: OwnershipShare[]; // shares of a joint account; empty means the owner holds all of it
 }
 
 export interface NetWorthSnapshot {
@@ -34,6 +93,8 @@ export interface NetWorthSnapshot {
 }
 
 export interface FinancialInsight {
+  id: string; // stable across recalculations, e.g. "stale_balances:<accountId>"
+  ruleId: string;
   type: 'warning' | 'suggestion' | 'achievement';
   message: string;
   metric?: string;
@@ -0,0 +1,63 @@
+import { AccountType } from '../types';
+
+export type AccountClassification = 'asset' | 'liability';
+
+export interface AccountTypeDefinition {
+  label: string;
+  classification: AccountClassification;
+  icon: string;
+  amortizing?: boolean; // repaid on a fixed schedule, so loan terms can be stored
+  valued?: boolean; // physical asset whose value can be estimated from a valuation model
+  holdings?: boolean; // holds securities or coins that can be listed with quantities
+}
+
+// Single source of truth for every account type: display name, icon and which
+// side of the balance sheet it is on
+export const ACCOUNT_TYPES: Record<AccountType, AccountTypeDefinition> = {
+  checkings: { label: 'Checking', classification: 'asset', icon: '🏦' },
+  savings: { label: 'Savings', classification: 'asset', icon: '💰' },
+  cash: { label: 'Cash', classification: 'asset', icon: '💵' },
+  investment: { label: 'Investment', classification: 'asset', icon: '📈', holdings: true },
+  brokerage: { label: 'Brokerage', classification: 'asset', icon: '📊', holdings: true },
+  retirement: { label: 'Retirement', classification: 'asset', icon: '🏖️', holdings: true },
+  hsa: { label: 'HSA', classification: 'asset', icon: '🩺', holdings: true },
+  crypto: { label: 'Crypto', classification: 'asset', icon: '₿', holdings: true },
+  real_estate: { label: 'Real Estate', classification: 'asset', icon: '🏠', valued: true },
+  other_assets: { label: 'Other Assets', classification: 'asset', icon: '📦', valued: true },
+  credit_card: { label: 'Credit Card', classification: 'liability', icon: '💳' },
+  student_loan: { label: 'Student Loan', classification: 'liability', icon: '🎓', amortizing: true },
+  auto_loan: { label: 'Auto Loan', classification: 'liability', icon: '🚗', amortizing: true },
+  mortgage: { label: 'Mortgage', classification: 'liability', icon: '🏡', amortizing: true },
+  other_liabilities: { label: 'Other Liabilities', classification: 'liability', icon: '🧾', amortizing: true },
+};
+
+// Display order for pickers: assets first, then liabilities
+export const ACCOUNT_TYPE_ORDER = Object.keys(ACCOUNT_TYPES) as AccountType[];
+
+export const isAccountType = (value: string): value is AccountType =>
+  Object.prototype.hasOwnProperty.call(ACCOUNT_TYPES, value);
+
+// Types stored before the taxonomy was split up. 'liability' covered every kind of debt.
+const LEGACY_TYPES: Record<string, AccountType> = {
+  liability: 'other_liabilities',
+};
+
+// Maps a stored type (possibly legacy or unknown) onto the current taxonomy
+export const normalizeAccountType = (value: unknown): AccountType => {
+  const type = String(value || '').trim().toLowerCase();
+  if (isAccountType(type)) return type;
+  return LEGACY_TYPES[type] || 'other_assets';
+};
+
+export const getAccountTypeLabel = (type: AccountType): string => ACCOUNT_TYPES[type]?.label || type;
+
+export const getAccountIcon = (type: AccountType): string => ACCOUNT_TYPES[type]?.icon || '📦';
+
+export const isAmortizingType = (type: AccountType): boolean => !!ACCOUNT_TYPES[type]?.amortizing;
+
+export const isHoldingsType = (type: AccountType): boolean => !!ACCOUNT_TYPES[type]?.holdings;
+
+export const isValuedType = (type: AccountType): boolean => !!ACCOUNT_TYPES[type]?.valued;
+
+export const getAccountClassification = (type: AccountType): AccountClassification =>
+  ACCOUNT_TYPES[type]?.classification || 'asset';
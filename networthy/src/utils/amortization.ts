@@ -0,0 +1,134 @@
+import { addMonths, format } from 'date-fns';
+import { Account, BalanceEntry, LoanDetails } from '../types';
+import { getBalanceAt } from './netWorthSeries';
+
+export interface AmortizationRow {
+  month: number; // 1-based payment number
+  date: string; // yyyy-MM-dd payment date
+  payment: number; // scheduled payment plus any extra
+  principal: number;
+  interest: number;
+  extra: number;
+  balance: number; // remaining after this payment
+}
+
+export interface PayoffProjection {
+  months: number;
+  payoffDate: Date;
+  totalInterest: number;
+}
+
+export interface BalanceComparison {
+  date: string;
+  actual: number;
+  expected: number;
+  difference: number; // actual - expected; negative means ahead of schedule
+}
+
+// Safety cap so a payment that never covers the interest cannot loop forever
+const MAX_MONTHS = 1200;
+
+// --- Helper Functions ---
+
+const monthlyRate = (annualRate: number): number => annualRate / 100 / 12;
+
+// Payment date n months after the loan start (first payment one month in)
+const paymentDate = (startDate: string, month: number): Date => addMonths(new Date(`${startDate}T00:00:00`), month);
+
+// --- Payments ---
+
+// Standard fixed payment that repays `principal` over `termMonths`
+export const calculateMonthlyPayment = (principal: number, annualRate: number, termMonths: number): number => {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const rate = monthlyRate(annualRate);
+  if (rate === 0) return principal / termMonths;
+  return (principal * rate) / (1 - Math.pow(1 + rate, -termMonths));
+};
+
+export const getLoanPayment = (details: LoanDetails): number =>
+  calculateMonthlyPayment(details.principal, details.annualRate, details.termMonths);
+
+// --- Schedules ---
+
+// Month-by-month schedule from the loan start. `extraMonthly` is paid on top of
+// the scheduled payment and goes straight to principal.
+export const buildAmortizationSchedule = (details: LoanDetails, extraMonthly: number = 0): AmortizationRow[] => {
+  const rate = monthlyRate(details.annualRate);
+  const payment = getLoanPayment(details);
+  const rows: AmortizationRow[] = [];
+  let balance = details.principal;
+
+  for (let month = 1; balance > 0.005 && month <= MAX_MONTHS; month++) {
+    const interest = balance * rate;
+    const scheduledPrincipal = Math.min(balance, Math.max(0, payment - interest));
+    const extra = Math.min(balance - scheduledPrincipal, Math.max(0, extraMonthly));
+    if (scheduledPrincipal + extra <= 0) break;
+    balance -= scheduledPrincipal + extra;
+    rows.push({
+      month,
+      date: format(paymentDate(details.startDate, month), 'yyyy-MM-dd'),
+      payment: interest + scheduledPrincipal + extra,
+      principal: scheduledPrincipal + extra,
+      interest,
+      extra,
+      balance: Math.max(0, balance),
+    });
+  }
+  return rows;
+};
+
+// Balance the schedule expects on a date (the principal before the first payment)
+export const getExpectedBalanceAt = (details: LoanDetails, schedule: AmortizationRow[], date: Date): number => {
+  let balance = details.principal;
+  for (const row of schedule) {
+    if (new Date(`${row.date}T00:00:00`) > date) break;
+    balance = row.balance;
+  }
+  return balance;
+};
+
+// Interest the schedule has charged up to and including `date`
+export const getInterestPaidToDate = (schedule: AmortizationRow[], date: Date): number =>
+  schedule
+    .filter(row => new Date(`${row.date}T00:00:00`) <= date)
+    .reduce((sum, row) => sum + row.interest, 0);
+
+// Payoff from an arbitrary balance and payment, e.g. the latest actual balance
+export const projectPayoff = (
+  balance: number,
+  annualRate: number,
+  monthlyPayment: number,
+  fromDate: Date
+): PayoffProjection | null => {
+  const rate = monthlyRate(annualRate);
+  let remaining = balance;
+  let totalInterest = 0;
+  let months = 0;
+
+  while (remaining > 0.005) {
+    const interest = remaining * rate;
+    if (monthlyPayment <= interest || months >= MAX_MONTHS) return null;
+    totalInterest += interest;
+    remaining -= Math.min(remaining, monthlyPayment - interest);
+    months += 1;
+  }
+  return { months, payoffDate: addMonths(fromDate, months), totalInterest };
+};
+
+// --- Actual vs Expected ---
+
+export const compareWithSchedule = (account: Account, details: LoanDetails): BalanceComparison[] => {
+  const schedule = buildAmortizationSchedule(details);
+  return [...(account.balanceHistory || [])]
+    .sort((a: BalanceEntry, b: BalanceEntry) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(entry => {
+      const expected = getExpectedBalanceAt(details, schedule, new Date(entry.date));
+      return { date: entry.date, actual: entry.balance, expected, difference: entry.balance - expected };
+    });
+};
+
+// Actual balance today, falling back to the schedule when there is no history
+export const getLoanBalanceToday = (account: Account, details: LoanDetails, now: Date = new Date()): number =>
+  (account.balanceHistory || []).length > 0
+    ? getBalanceAt(account, now)
+    : getExpectedBalanceAt(details, buildAmortizationSchedule(details), now);
@@ -0,0 +1,167 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Account, BalanceEntry } from '../types';
+import { DEFAULT_CURRENCY, formatCurrency, getAccountCurrency } from './currency';
+import { stableStringify } from './dataArchive';
+import { getManualHistory } from './valuation';
+
+// Every change to an account is written to an append-only log with the values
+// it replaced, so any change can be reviewed and undone. The database writes the
+// log; the app only reads it. Deleted accounts are kept (soft deleted) for
+// RESTORE_WINDOW_DAYS before they are purged.
+
+export const RESTORE_WINDOW_DAYS = 30;
+
+export type AuditAction = 'create_account' | 'update_account' | 'delete_account' | 'restore_account' | 'undo';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create_account: 'Created',
+  update_account: 'Changed',
+  delete_account: 'Deleted',
+  restore_account: 'Restored',
+  undo: 'Undid',
+};
+
+// Account fields stored in the database and therefore audited
+export const AUDITED_FIELDS = [
+  'institution',
+  'name',
+  'type',
+  'balanceHistory',
+  'cashFlows',
+  'category',
+  'tags',
+  'notes',
+  'order',
+  'currency',
+  'loanDetails',
+  'valuation',
+  'holdings',
+  'householdId',
+  'ownership',
+] as const;
+
+export type AuditedField = (typeof AUDITED_FIELDS)[number];
+export type AccountChanges = Partial<Pick<Account, AuditedField>>;
+
+export interface AuditEntry {
+  id: string;
+  userId: string; // who made the change
+  actorEmail: string;
+  accountId: string;
+  householdId: string | null;
+  accountLabel: string;
+  action: AuditAction;
+  note: string; // the feature that made the change ("Monthly check-in"), may be empty
+  before: AccountChanges | null; // null when the account did not exist before
+  after: AccountChanges | null; // null when the change deleted the account
+  undoes: string | null; // the entry an undo reverted
+  createdAt: string; // ISO
+}
+
+// --- Helper Functions ---
+
+const sameValue = (a: unknown, b: unknown): boolean => stableStringify(a ?? null) === stableStringify(b ?? null);
+
+const FIELD_LABELS: Record<AuditedField, string> = {
+  institution: 'institution',
+  name: 'name',
+  type: 'type',
+  balanceHistory: 'balance history',
+  cashFlows: 'ledger',
+  category: 'category',
+  tags: 'tags',
+  notes: 'notes',
+  order: 'order',
+  currency: 'currency',
+  loanDetails: 'loan terms',
+  valuation: 'valuation',
+  holdings: 'holdings',
+  householdId: 'sharing',
+  ownership: 'ownership shares',
+};
+
+export const getAccountLabel = (account: Pick<Account, 'institution' | 'name'>): string =>
+  `${account.institution}${account.name ? ` – ${account.name}` : ''}`;
+
+const formatEntryDate = (date: string): string => format(parseISO(date), 'MMM d, yyyy');
+
+// "Balance on Mar 1, 2026: $1,000 → $1,200" for a single edit, counts otherwise
+const describeBalanceChanges = (before: BalanceEntry[], after: BalanceEntry[], currency: string): string => {
+  const money = (value: number) => formatCurrency(value, currency, 2);
+  const previous = new Map(before.map(entry => [entry.date, entry.balance]));
+  const next = new Map(after.map(entry => [entry.date, entry.balance]));
+  const added = after.filter(entry => !previous.has(entry.date));
+  const removed = before.filter(entry => !next.has(entry.date));
+  const changed = after.filter(entry => previous.has(entry.date) && previous.get(entry.date) !== entry.balance);
+
+  if (added.length + removed.length + changed.length === 1) {
+    if (added.length === 1) return `Balance of ${money(added[0].balance)} added for ${formatEntryDate(added[0].date)}`;
+    if (removed.length === 1) return `Balance of ${money(removed[0].balance)} removed from ${formatEntryDate(removed[0].date)}`;
+    const entry = changed[0];
+    return `Balance on ${formatEntryDate(entry.date)}: ${money(previous.get(entry.date) ?? 0)} → ${money(entry.balance)}`;
+  }
+  const parts = [
+    added.length > 0 ? `${added.length} added` : '',
+    changed.length > 0 ? `${changed.length} replaced` : '',
+    removed.length > 0 ? `${removed.length} removed` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? `Balances: ${parts.join(', ')}` : 'Balance history reordered';
+};
+
+export const describeChanges = (before: AccountChanges | null, after: AccountChanges | null, currency: string): string => {
+  if (!before || !after) return '';
+  const parts: string[] = [];
+  if ('balanceHistory' in after) {
+    parts.push(describeBalanceChanges(before.balanceHistory || [], after.balanceHistory || [], currency));
+  }
+  if ('cashFlows' in after) {
+    const delta = (after.cashFlows || []).length - (before.cashFlows || []).length;
+    parts.push(delta > 0 ? `${delta} ledger entr${delta === 1 ? 'y' : 'ies'} added` : delta < 0 ? `${-delta} ledger entr${delta === -1 ? 'y' : 'ies'} removed` : 'Ledger edited');
+  }
+  const otherFields = AUDITED_FIELDS.filter(field => field !== 'balanceHistory' && field !== 'cashFlows' && field in after);
+  if (otherFields.length > 0) parts.push(`Changed ${otherFields.map(field => FIELD_LABELS[field]).join(', ')}`);
+  return parts.join('; ');
+};
+
+// The entry in words: its note and what it changed. Amounts are shown in the
+// account's currency, taken from the entry itself once the account is gone.
+export const describeAuditEntry = (entry: AuditEntry, account?: Account): string => {
+  const currency = account
+    ? getAccountCurrency(account)
+    : entry.before?.currency || entry.after?.currency || DEFAULT_CURRENCY;
+  return [entry.note, describeChanges(entry.before, entry.after, currency)].filter(Boolean).join(': ');
+};
+
+// --- Undo ---
+
+export const isWithinRestoreWindow = (deletedAt: string, now: Date = new Date()): boolean =>
+  differenceInCalendarDays(now, parseISO(deletedAt)) < RESTORE_WINDOW_DAYS;
+
+export const getRestoreDaysLeft = (deletedAt: string, now: Date = new Date()): number =>
+  Math.max(0, RESTORE_WINDOW_DAYS - differenceInCalendarDays(now, parseISO(deletedAt)));
+
+// Why an entry cannot be undone, or null when it can. Undo only applies when
+// the account still looks exactly as the entry left it, so it never overwrites
+// a later change.
+export const getUndoBlocker = (
+  entry: AuditEntry,
+  current: Account | undefined,
+  entries: AuditEntry[],
+  now: Date = new Date()
+): string | null => {
+  if (entries.some(other => other.undoes === entry.id)) return 'Already undone';
+  const after = entry.after;
+  if (!after) {
+    if (current) return 'The account has been restored';
+    return isWithinRestoreWindow(entry.createdAt, now) ? null : `Deleted more than ${RESTORE_WINDOW_DAYS} days ago`;
+  }
+  if (!current) return 'The account has been deleted';
+  if (!entry.before) return null;
+  // The log holds stored values, which leave out a valued asset's estimates
+  const stored = { ...current, balanceHistory: getManualHistory(current.balanceHistory) };
+  const changed = (Object.keys(after) as AuditedField[]).some(field => !sameValue(stored[field], after[field]));
+  return changed ? 'The account has changed since' : null;
+};
+
+// The account as it was before `entry`
+export const revertChanges = (current: Account, entry: AuditEntry): Account => ({ ...current, ...(entry.before || {}) });
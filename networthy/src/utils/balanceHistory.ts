@@ -0,0 +1,132 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { BalanceEntry } from '../types';
+import { detectDateFormat, parseAmount } from './statementParser';
+
+// Editing an account's balance history happens on drafts: one row per entry,
+// holding the values as typed until the whole history is saved at once.
+// Estimated entries of valued assets are not edited; they are derived from
+// the manual entries.
+
+export interface BalanceDraft {
+  key: string;
+  date: string; // yyyy-MM-dd
+  balance: string;
+  original: BalanceEntry | null; // the stored entry, null for a new row
+}
+
+export interface PastedBalances {
+  entries: { date: string; balance: number }[]; // date as yyyy-MM-dd
+  skippedLines: number;
+}
+
+// --- Helper Functions ---
+
+// The local calendar day of a stored entry; history is edited per day
+export const toDayKey = (iso: string): string => format(parseISO(iso), 'yyyy-MM-dd');
+
+const parseDay = (day: string): Date | null => {
+  const date = parse(day, 'yyyy-MM-dd', new Date());
+  return isValid(date) ? date : null;
+};
+
+const parseBalance = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+const sortNewestFirst = (drafts: BalanceDraft[]): BalanceDraft[] =>
+  [...drafts].sort((a, b) => b.date.localeCompare(a.date));
+
+export const createBalanceDraft = (date: string, balance: string): BalanceDraft => ({
+  key: uuidv4(),
+  date,
+  balance,
+  original: null,
+});
+
+// Manual entries as drafts, newest first
+export const toBalanceDrafts = (history: BalanceEntry[]): BalanceDraft[] =>
+  sortNewestFirst(
+    history
+      .filter(entry => !entry.estimated)
+      .map(entry => ({ key: uuidv4(), date: toDayKey(entry.date), balance: String(entry.balance), original: entry }))
+  );
+
+// --- Validation ---
+
+// Problems per draft key. Two entries on the same day are ambiguous (the chart
+// and every total would pick one arbitrarily), so dates must be unique.
+export const validateBalanceDrafts = (drafts: BalanceDraft[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const countsByDay = new Map<string, number>();
+  drafts.forEach(draft => countsByDay.set(draft.date, (countsByDay.get(draft.date) || 0) + 1));
+
+  drafts.forEach(draft => {
+    if (!parseDay(draft.date)) errors[draft.key] = 'Enter a valid date.';
+    else if (!Number.isFinite(parseBalance(draft.balance))) errors[draft.key] = 'Enter a balance.';
+    else if ((countsByDay.get(draft.date) || 0) > 1) errors[draft.key] = 'Another entry has the same date.';
+  });
+  return errors;
+};
+
+// The history the drafts describe, oldest first. Rows that do not parse are
+// left out so a preview can be drawn while the user is still typing. A row
+// whose day did not change keeps its stored timestamp.
+export const draftsToHistory = (drafts: BalanceDraft[]): BalanceEntry[] =>
+  drafts
+    .flatMap(draft => {
+      const day = parseDay(draft.date);
+      const balance = parseBalance(draft.balance);
+      if (!day || !Number.isFinite(balance)) return [];
+      const original = draft.original;
+      const date = original && toDayKey(original.date) === draft.date ? original.date : day.toISOString();
+      return [{ ...original, date, balance }];
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// --- Bulk Paste ---
+
+// Reads "date<separator>balance" lines copied from a spreadsheet or CSV. The
+// first tab, semicolon, comma or space ends the date; header lines and lines
+// that do not parse are counted as skipped.
+export const parseBalancePaste = (text: string): PastedBalances => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^"?([^\t;,\s"]+)"?[\t;,\s]+(.+)$/);
+      return match ? { date: match[1], amount: match[2].replace(/^"|"$/g, '') } : null;
+    });
+
+  const dateFormat = detectDateFormat(rows.flatMap(row => (row && /^\d/.test(row.date) ? [row.date] : [])));
+  const entries: PastedBalances['entries'] = [];
+  rows.forEach(row => {
+    if (!row) return;
+    const date = parse(row.date, dateFormat, new Date());
+    const balance = parseAmount(row.amount);
+    if (isValid(date) && Number.isFinite(balance)) entries.push({ date: format(date, 'yyyy-MM-dd'), balance });
+  });
+  return { entries, skippedLines: rows.length - entries.length };
+};
+
+// Adds pasted entries to the drafts. A pasted day that already has a row
+// replaces that row's balance, as re-importing does elsewhere.
+export const mergePastedBalances = (
+  drafts: BalanceDraft[],
+  entries: PastedBalances['entries']
+): { drafts: BalanceDraft[]; added: number; replaced: number } => {
+  const merged = [...drafts];
+  let added = 0;
+  let replaced = 0;
+  entries.forEach(entry => {
+    const balance = String(entry.balance);
+    const index = merged.findIndex(draft => draft.date === entry.date);
+    if (index !== -1) {
+      merged[index] = { ...merged[index], balance };
+      replaced++;
+    } else {
+      merged.push(createBalanceDraft(entry.date, balance));
+      added++;
+    }
+  });
+  return { drafts: sortNewestFirst(merged), added, replaced };
+};
@@ -0,0 +1,59 @@
+import { Account, CashFlowEntry } from '../types';
+import { CashFlow } from '../types/Performance';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+
+export interface CashFlowSummary {
+  contributions: number;
+  withdrawals: number;
+  netSavings: number;
+}
+
+// --- Helper Functions ---
+
+const toTime = (date: string | Date): number => (typeof date === 'string' ? new Date(date).getTime() : date.getTime());
+
+const isWithin = (date: string, start?: Date, end?: Date): boolean => {
+  const time = toTime(date);
+  return (!start || time > start.getTime()) && (!end || time <= end.getTime());
+};
+
+// Adds an entry to a ledger, keeping it sorted by date
+export const appendCashFlow = (cashFlows: CashFlowEntry[], entry: CashFlowEntry): CashFlowEntry[] =>
+  [...cashFlows, entry].sort((a, b) => toTime(a.date) - toTime(b.date));
+
+// --- Ledger Queries ---
+
+// All flows for one account, in its own currency, as used by the return calculations.
+// Transfers count here: from a single account's view they are money in or out.
+export const getAccountCashFlows = (account: Account): CashFlow[] =>
+  (account.cashFlows || []).map(flow => ({ date: flow.date, amount: flow.amount }));
+
+// Flows that cross the boundary of the whole portfolio. Transfers between two
+// tracked accounts cancel out, so they are left out.
+export const getExternalCashFlows = (accounts: Account[]): (CashFlow & { currency: string })[] =>
+  accounts.flatMap(account =>
+    (account.cashFlows || [])
+      .filter(flow => flow.kind !== 'transfer')
+      .map(flow => ({ date: flow.date, amount: flow.amount, currency: getAccountCurrency(account) }))
+  );
+
+// Contributions, withdrawals and net savings over an optional window, in the base
+// currency when a converter is given
+export const summarizeCashFlows = (
+  accounts: Account[],
+  { start, end }: { start?: Date; end?: Date } = {},
+  convert?: CurrencyConverter
+): CashFlowSummary => {
+  const summary: CashFlowSummary = { contributions: 0, withdrawals: 0, netSavings: 0 };
+
+  getExternalCashFlows(accounts)
+    .filter(flow => isWithin(flow.date, start, end))
+    .forEach(flow => {
+      const amount = convert ? convert(flow.amount, flow.currency, flow.date) : flow.amount;
+      if (amount >= 0) summary.contributions += amount;
+      else summary.withdrawals += -amount;
+    });
+
+  summary.netSavings = summary.contributions - summary.withdrawals;
+  return summary;
+};
@@ -0,0 +1,101 @@
+import { format, isSameDay, parse, parseISO } from 'date-fns';
+import { Account, BalanceEntry } from '../types';
+import { isLiabilityAccount } from './netWorthSeries';
+import { getAccountLabel } from './auditLog';
+
+// The monthly check-in lists every account once: enter its new balance, keep
+// the previous one (unchanged) or skip it. All entries share one as-of date and
+// are saved together.
+
+export type CheckInStatus = 'update' | 'unchanged' | 'skip';
+
+export interface CheckInRow {
+  status: CheckInStatus;
+  value: string; // the new balance as typed, used when status is 'update'
+}
+
+export interface CheckInEntry {
+  accountId: string;
+  balance: number;
+  date: string; // ISO
+}
+
+export interface CheckInPlan {
+  entries: CheckInEntry[];
+  errors: Record<string, string>; // by account id
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}
+
+// --- Helper Functions ---
+
+const parseAsOf = (asOf: string): Date => parse(asOf, 'yyyy-MM-dd', new Date());
+
+// Assets first, then liabilities, each by name
+export const sortForCheckIn = (accounts: Account[]): Account[] =>
+  [...accounts].sort(
+    (a, b) =>
+      Number(isLiabilityAccount(a)) - Number(isLiabilityAccount(b)) ||
+      getAccountLabel(a).localeCompare(getAccountLabel(b))
+  );
+
+// The latest balance recorded on or before the as-of day. Estimates of valued
+// assets are left out so keeping a balance never stores one as manual.
+export const getPreviousEntry = (account: Account, asOf: string): BalanceEntry | null => {
+  return account.balanceHistory.reduce<BalanceEntry | null>((latest, entry) => {
+    if (entry.estimated || format(parseISO(entry.date), 'yyyy-MM-dd') > asOf) return latest;
+    return !latest || new Date(entry.date).getTime() > new Date(latest.date).getTime() ? entry : latest;
+  }, null);
+};
+
+// The timestamp a check-in entry is stored under. An existing entry on the
+// same day is reused so saving replaces it instead of adding a second balance
+// for that day; otherwise today's check-in is stamped now and a backdated one
+// at the start of its day.
+export const getCheckInDate = (account: Account, asOf: string, now: Date = new Date()): string => {
+  const day = parseAsOf(asOf);
+  const sameDay = account.balanceHistory.find(entry => !entry.estimated && isSameDay(parseISO(entry.date), day));
+  if (sameDay) return sameDay.date;
+  return isSameDay(day, now) ? now.toISOString() : day.toISOString();
+};
+
+// --- Planning ---
+
+// Turns the rows into balance entries. Rows marked 'update' with an empty
+// input count as skipped; anything else that is not a number is an error.
+export const buildCheckInPlan = (
+  accounts: Account[],
+  rows: Record<string, CheckInRow>,
+  asOf: string,
+  now: Date = new Date()
+): CheckInPlan => {
+  const plan: CheckInPlan = { entries: [], errors: {}, updated: 0, unchanged: 0, skipped: 0 };
+  accounts.forEach(account => {
+    const row = rows[account.id] || { status: 'update', value: '' };
+    const date = getCheckInDate(account, asOf, now);
+
+    if (row.status === 'unchanged') {
+      const previous = getPreviousEntry(account, asOf);
+      if (!previous) {
+        plan.errors[account.id] = 'No earlier balance to keep.';
+        return;
+      }
+      plan.entries.push({ accountId: account.id, balance: previous.balance, date });
+      plan.unchanged++;
+      return;
+    }
+    if (row.status === 'skip' || row.value.trim() === '') {
+      plan.skipped++;
+      return;
+    }
+    const balance = Number(row.value);
+    if (!Number.isFinite(balance)) {
+      plan.errors[account.id] = 'Enter a number.';
+      return;
+    }
+    plan.entries.push({ accountId: account.id, balance, date });
+    plan.updated++;
+  });
+  return plan;
+};
@@ -0,0 +1,97 @@
+import { format } from 'date-fns';
+import { Account } from '../types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'JPY', 'CNY', 'INR',
+  'MXN', 'BRL', 'ARS', 'CLP', 'COP', 'PEN', 'UYU',
+  'BTC',
+];
+
+// 1 unit of `from` is worth `rate` units of `to` on `date` (yyyy-MM-dd)
+export interface ExchangeRate {
+  date: string;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// Converts an amount held in `currency` into the base currency at `date`
+export type CurrencyConverter = (amount: number, currency: string | undefined, date: string | Date) => number;
+
+// --- Formatting ---
+
+// Intl has no ISO code for crypto; show those with a plain symbol instead
+const NON_ISO_SYMBOLS: Record<string, string> = {
+  BTC: '₿',
+};
+
+export const formatCurrency = (
+  value: number,
+  currency: string = DEFAULT_CURRENCY,
+  maximumFractionDigits = 0
+): string => {
+  if (NON_ISO_SYMBOLS[currency]) {
+    return `${NON_ISO_SYMBOLS[currency]}${value.toLocaleString('en-US', { maximumFractionDigits: Math.max(maximumFractionDigits, 8) })}`;
+  }
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits,
+  }).format(value);
+};
+
+export const getAccountCurrency = (account: Pick<Account, 'currency'>): string => account.currency || DEFAULT_CURRENCY;
+
+// --- Rate Lookup ---
+
+const toDateKey = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+
+// Finds the rate for a currency pair at a date: the latest rate on or before the date,
+// falling back to the earliest later one. Inverse pairs are used when needed.
+export const findRate = (rates: ExchangeRate[], from: string, to: string, date: string | Date): number | null => {
+  if (from === to) return 1;
+  const dateKey = toDateKey(date);
+
+  const candidates = rates
+    .map(r => {
+      if (r.from === from && r.to === to) return { date: r.date, rate: r.rate };
+      if (r.from === to && r.to === from && r.rate !== 0) return { date: r.date, rate: 1 / r.rate };
+      return null;
+    })
+    .filter((r): r is { date: string; rate: number } => r !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (candidates.length === 0) return null;
+
+  const onOrBefore = candidates.filter(r => r.date <= dateKey);
+  return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1].rate : candidates[0].rate;
+};
+
+// Converts an amount between currencies. Amounts without a known rate are returned
+// unchanged; getMissingRateCurrencies reports those so the UI can warn about them.
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  date: string | Date,
+  rates: ExchangeRate[]
+): number => {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? amount : amount * rate;
+};
+
+// Currencies used by accounts that have no rate at all to the base currency
+export const getMissingRateCurrencies = (accounts: Account[], baseCurrency: string, rates: ExchangeRate[]): string[] => {
+  const missing = new Set<string>();
+  accounts.forEach(account => {
+    const currency = getAccountCurrency(account);
+    if (currency !== baseCurrency && findRate(rates, currency, baseCurrency, new Date()) === null) {
+      missing.add(currency);
+    }
+  });
+  return Array.from(missing).sort();
+};
@@ -0,0 +1,436 @@
+import { format } from 'date-fns';
+import { Account, BalanceEntry, CashFlowEntry, Holding, LoanDetails, ValuationSettings } from '../types';
+import { NetWorthSnapshot } from '../types/NetWorthSnapshot';
+import { Goal } from '../types/Goal';
+import { normalizeAccountType } from './accountTypes';
+import { mergeBalanceEntries } from './importMatching';
+import { normalizeSymbol } from './holdings';
+import { VALUATION_MODELS } from './valuation';
+
+// Everything the NetWorth context loads for a user, in a file that can be read
+// back into the same or another Supabase project. Bump ARCHIVE_VERSION when the
+// shape changes and teach parseArchive to upgrade the older versions.
+export const ARCHIVE_VERSION = 1;
+const ARCHIVE_APP = 'networthy';
+
+export interface ArchiveData {
+  accounts: Account[];
+  historicalData: { year: number; net_worth: number }[];
+  snapshots: NetWorthSnapshot[];
+  goals: Goal[];
+}
+
+export interface DataArchive extends ArchiveData {
+  app: typeof ARCHIVE_APP;
+  version: number;
+  exportedAt: string; // ISO
+}
+
+// replace: the archive becomes the whole data set
+// merge: archive records are added or win over the current ones; nothing is removed
+export type ArchiveImportMode = 'replace' | 'merge';
+
+export interface ArchiveSectionDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export type ArchiveDiff = Record<keyof ArchiveData, ArchiveSectionDiff>;
+
+export const ARCHIVE_SECTIONS: { key: keyof ArchiveData; label: string }[] = [
+  { key: 'accounts', label: 'Accounts' },
+  { key: 'historicalData', label: 'Historical data' },
+  { key: 'snapshots', label: 'Snapshots' },
+  { key: 'goals', label: 'Goals' },
+];
+
+// --- Helper Functions ---
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateString = (value: unknown): value is string => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Loan and valuation dates are calendar days (yyyy-MM-dd), not timestamps
+const isDayString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isDateString(value);
+
+// Drops undefined keys and sorts the rest so equal records serialize identically
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    isObject(item)
+      ? Object.keys(item)
+          .sort()
+          .reduce<Json>((sorted, key) => {
+            if (item[key] !== undefined) sorted[key] = item[key];
+            return sorted;
+          }, {})
+      : item
+  );
+
+// Accounts in state also carry the raw snake_case columns from Supabase; only the
+// Account fields belong in an archive
+const toArchiveAccount = (account: Account): Account => ({
+  id: account.id,
+  institution: account.institution,
+  name: account.name,
+  type: account.type,
+  balanceHistory: account.balanceHistory,
+  cashFlows: account.cashFlows || [],
+  category: account.category,
+  tags: account.tags || [],
+  notes: account.notes,
+  order: account.order,
+  currency: account.currency,
+  loanDetails: account.loanDetails || null,
+  valuation: account.valuation || null,
+  holdings: account.holdings || [],
+});
+
+const accountLabel = (account: Account): string => `${account.institution}${account.name ? ` – ${account.name}` : ''}`;
+
+// --- Export ---
+
+export const createArchive = (data: ArchiveData, now: Date = new Date()): DataArchive => ({
+  app: ARCHIVE_APP,
+  version: ARCHIVE_VERSION,
+  exportedAt: now.toISOString(),
+  accounts: data.accounts.map(toArchiveAccount),
+  historicalData: data.historicalData.map(point => ({ year: point.year, net_worth: point.net_worth })),
+  snapshots: data.snapshots,
+  goals: data.goals,
+});
+
+export const downloadArchive = (archive: DataArchive) => {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `networthy_export_${format(new Date(archive.exportedAt), 'yyyy-MM-dd')}.json`;
+  link.click();
+};
+
+// --- Validation ---
+
+// Each reader checks one record and returns it in canonical form, or null after
+// recording why it is invalid. Paths in the messages point into the file.
+const readBalanceEntry = (value: unknown, path: string, errors: string[]): BalanceEntry | null => {
+  if (!isObject(value) || !isDateString(value.date) || !isFiniteNumber(value.balance)) {
+    errors.push(`${path} needs a valid date and a numeric balance`);
+    return null;
+  }
+  return value.estimated ? { date: value.date, balance: value.balance, estimated: true } : { date: value.date, balance: value.balance };
+};
+
+const readCashFlow = (value: unknown, path: string, errors: string[]): CashFlowEntry | null => {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    !isDateString(value.date) ||
+    !isFiniteNumber(value.amount) ||
+    !['contribution', 'withdrawal', 'transfer'].includes(String(value.kind))
+  ) {
+    errors.push(`${path} needs an id, a valid date, a numeric amount and a kind`);
+    return null;
+  }
+  if (value.transferAccountId !== undefined && typeof value.transferAccountId !== 'string') {
+    errors.push(`${path}.transferAccountId must be an account id`);
+    return null;
+  }
+  if (value.note !== undefined && typeof value.note !== 'string') {
+    errors.push(`${path}.note must be text`);
+    return null;
+  }
+  return {
+    id: value.id,
+    date: value.date,
+    amount: value.amount,
+    kind: value.kind as CashFlowEntry['kind'],
+    transferAccountId: value.transferAccountId,
+    note: value.note,
+  };
+};
+
+const readLoanDetails = (value: unknown, path: string, errors: string[]): LoanDetails | null => {
+  if (
+    !isObject(value) ||
+    !isFiniteNumber(value.principal) ||
+    value.principal <= 0 ||
+    !isFiniteNumber(value.annualRate) ||
+    value.annualRate < 0 ||
+    !Number.isInteger(value.termMonths) ||
+    (value.termMonths as number) <= 0 ||
+    !isDayString(value.startDate)
+  ) {
+    errors.push(`${path} needs a positive principal, a non-negative annualRate, a whole number of termMonths and a yyyy-MM-dd startDate`);
+    return null;
+  }
+  return {
+    principal: value.principal,
+    annualRate: value.annualRate,
+    termMonths: value.termMonths as number,
+    startDate: value.startDate,
+  };
+};
+
+const readValuation = (value: unknown, path: string, errors: string[]): ValuationSettings | null => {
+  if (
+    !isObject(value) ||
+    !isFiniteNumber(value.purchasePrice) ||
+    value.purchasePrice < 0 ||
+    !isDayString(value.purchaseDate) ||
+    !isFiniteNumber(value.annualRate)
+  ) {
+    errors.push(`${path} needs a non-negative purchasePrice, a yyyy-MM-dd purchaseDate and a numeric annualRate`);
+    return null;
+  }
+  const model = VALUATION_MODELS.find(option => option.id === value.model);
+  if (!model) {
+    errors.push(`${path}.model must be one of ${VALUATION_MODELS.map(option => option.id).join(', ')}`);
+    return null;
+  }
+  if (value.usefulLifeYears !== undefined && (!isFiniteNumber(value.usefulLifeYears) || value.usefulLifeYears <= 0)) {
+    errors.push(`${path}.usefulLifeYears must be a positive number`);
+    return null;
+  }
+  if (value.salvageValue !== undefined && !isFiniteNumber(value.salvageValue)) {
+    errors.push(`${path}.salvageValue must be a number`);
+    return null;
+  }
+  if (value.linkedMortgageId !== undefined && value.linkedMortgageId !== null && typeof value.linkedMortgageId !== 'string') {
+    errors.push(`${path}.linkedMortgageId must be an account id`);
+    return null;
+  }
+  return {
+    purchasePrice: value.purchasePrice,
+    purchaseDate: value.purchaseDate,
+    model: model.id,
+    annualRate: value.annualRate,
+    usefulLifeYears: value.usefulLifeYears,
+    salvageValue: value.salvageValue,
+    linkedMortgageId: value.linkedMortgageId,
+  };
+};
+
+const readHolding = (value: unknown, path: string, errors: string[]): Holding | null => {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.symbol !== 'string' ||
+    normalizeSymbol(value.symbol) === '' ||
+    !isFiniteNumber(value.quantity) ||
+    !isFiniteNumber(value.costBasis)
+  ) {
+    errors.push(`${path} needs an id, a symbol, a numeric quantity and a numeric costBasis`);
+    return null;
+  }
+  return { id: value.id, symbol: normalizeSymbol(value.symbol), quantity: value.quantity, costBasis: value.costBasis };
+};
+
+// A record that may be missing; null and undefined both mean "none"
+const readOptional = <T>(
+  value: unknown,
+  path: string,
+  errors: string[],
+  read: (item: unknown, itemPath: string, errors: string[]) => T | null
+): T | null => (value === undefined || value === null ? null : read(value, path, errors));
+
+const readList = <T>(
+  value: unknown,
+  path: string,
+  errors: string[],
+  read: (item: unknown, itemPath: string, errors: string[]) => T | null
+): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return [];
+  }
+  return value
+    .map((item, index) => read(item, `${path}[${index}]`, errors))
+    .filter((item): item is T => item !== null);
+};
+
+const readAccount = (value: unknown, path: string, errors: string[]): Account | null => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.institution !== 'string') {
+    errors.push(`${path} needs an id and an institution`);
+    return null;
+  }
+  const count = errors.length;
+  const account: Account = {
+    id: value.id,
+    institution: value.institution,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    type: normalizeAccountType(value.type),
+    balanceHistory: readList(value.balanceHistory, `${path}.balanceHistory`, errors, readBalanceEntry),
+    cashFlows: readList(value.cashFlows, `${path}.cashFlows`, errors, readCashFlow),
+    category: typeof value.category === 'string' ? value.category : undefined,
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    notes: typeof value.notes === 'string' ? value.notes : undefined,
+    order: isFiniteNumber(value.order) ? value.order : 0,
+    currency: typeof value.currency === 'string' ? value.currency : undefined,
+    loanDetails: readOptional(value.loanDetails, `${path}.loanDetails`, errors, readLoanDetails),
+    valuation: readOptional(value.valuation, `${path}.valuation`, errors, readValuation),
+    holdings: readList(value.holdings, `${path}.holdings`, errors, readHolding),
+  };
+  return errors.length === count ? account : null;
+};
+
+const readHistoricalPoint = (value: unknown, path: string, errors: string[]): ArchiveData['historicalData'][number] | null => {
+  if (!isObject(value) || !Number.isInteger(value.year) || !isFiniteNumber(value.net_worth)) {
+    errors.push(`${path} needs an integer year and a numeric net_worth`);
+    return null;
+  }
+  return { year: value.year as number, net_worth: value.net_worth };
+};
+
+const readSnapshot = (value: unknown, path: string, errors: string[]): NetWorthSnapshot | null => {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    !isDateString(value.date) ||
+    !isFiniteNumber(value.totalAssets) ||
+    !isFiniteNumber(value.totalLiabilities) ||
+    !isFiniteNumber(value.netWorth)
+  ) {
+    errors.push(`${path} needs an id, a date and numeric totals`);
+    return null;
+  }
+  return { ...(value as unknown as NetWorthSnapshot), accounts: Array.isArray(value.accounts) ? value.accounts : [] };
+};
+
+const readGoal = (value: unknown, path: string, errors: string[]): Goal | null => {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !isFiniteNumber(value.targetAmount) ||
+    !isDateString(value.targetDate)
+  ) {
+    errors.push(`${path} needs an id, a name, a numeric targetAmount and a targetDate`);
+    return null;
+  }
+  return {
+    ...(value as unknown as Goal),
+    scope: isObject(value.scope) && value.scope.kind ? (value.scope as unknown as Goal['scope']) : { kind: 'all' },
+    milestones: Array.isArray(value.milestones) ? value.milestones : [],
+  };
+};
+
+// Parses and validates an exported file. Throws with every problem found, so a
+// broken archive is rejected as a whole rather than half imported.
+export const parseArchive = (text: string): DataArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.app !== ARCHIVE_APP) {
+    throw new Error('The file is not a Networthy export.');
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    throw new Error('The export has no valid version number.');
+  }
+  if ((data.version as number) > ARCHIVE_VERSION) {
+    throw new Error(`The export is version ${data.version}; this app reads up to version ${ARCHIVE_VERSION}.`);
+  }
+
+  const errors: string[] = [];
+  const archive: DataArchive = {
+    app: ARCHIVE_APP,
+    version: ARCHIVE_VERSION,
+    exportedAt: isDateString(data.exportedAt) ? data.exportedAt : new Date().toISOString(),
+    accounts: readList(data.accounts, 'accounts', errors, readAccount),
+    historicalData: readList(data.historicalData, 'historicalData', errors, readHistoricalPoint),
+    snapshots: readList(data.snapshots, 'snapshots', errors, readSnapshot),
+    goals: readList(data.goals, 'goals', errors, readGoal),
+  };
+
+  const accountIds = archive.accounts.map(account => account.id);
+  if (new Set(accountIds).size !== accountIds.length) errors.push('accounts contains duplicate ids');
+  const years = archive.historicalData.map(point => point.year);
+  if (new Set(years).size !== years.length) errors.push('historicalData contains duplicate years');
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 5).join('; ');
+    throw new Error(`The export is invalid: ${shown}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}.`);
+  }
+  return archive;
+};
+
+// --- Merge & Diff ---
+
+// Upserts `incoming` into `current` by key, keeping the current order and
+// appending new records
+const upsertBy = <T>(current: T[], incoming: T[], key: (item: T) => string, combine: (existing: T, item: T) => T = (_existing, item) => item): T[] => {
+  const incomingByKey = new Map(incoming.map(item => [key(item), item]));
+  const merged = current.map(item => {
+    const match = incomingByKey.get(key(item));
+    if (!match) return item;
+    incomingByKey.delete(key(item));
+    return combine(item, match);
+  });
+  return [...merged, ...incomingByKey.values()];
+};
+
+// Accounts present on both sides take the archive's settings; their balance
+// histories and ledgers are combined so nothing recorded since the export is lost
+const mergeAccount = (existing: Account, incoming: Account): Account => ({
+  ...incoming,
+  balanceHistory: mergeBalanceEntries(existing.balanceHistory, incoming.balanceHistory),
+  cashFlows: upsertBy(existing.cashFlows || [], incoming.cashFlows || [], flow => flow.id).sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  ),
+});
+
+// The data set that results from importing `archive` in the given mode
+export const applyArchive = (current: ArchiveData, archive: ArchiveData, mode: ArchiveImportMode): ArchiveData => {
+  if (mode === 'replace') {
+    return {
+      accounts: archive.accounts,
+      historicalData: archive.historicalData,
+      snapshots: archive.snapshots,
+      goals: archive.goals,
+    };
+  }
+  return {
+    accounts: upsertBy(current.accounts.map(toArchiveAccount), archive.accounts, account => account.id, mergeAccount),
+    historicalData: upsertBy(current.historicalData, archive.historicalData, point => String(point.year)),
+    // One snapshot per day, as recordSnapshot enforces
+    snapshots: upsertBy(current.snapshots, archive.snapshots, snapshot => snapshot.date),
+    goals: upsertBy(current.goals, archive.goals, goal => goal.id),
+  };
+};
+
+const diffSection = <T>(current: T[], next: T[], key: (item: T) => string, label: (item: T) => string): ArchiveSectionDiff => {
+  const currentByKey = new Map(current.map(item => [key(item), item]));
+  const nextKeys = new Set(next.map(key));
+  const diff: ArchiveSectionDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  next.forEach(item => {
+    const existing = currentByKey.get(key(item));
+    if (!existing) diff.added.push(label(item));
+    else if (stableStringify(existing) !== stableStringify(item)) diff.updated.push(label(item));
+    else diff.unchanged++;
+  });
+  current.forEach(item => {
+    if (!nextKeys.has(key(item))) diff.removed.push(label(item));
+  });
+  return diff;
+};
+
+// Dry run: what importing would add, change and remove, without writing anything
+export const diffArchiveData = (current: ArchiveData, next: ArchiveData): ArchiveDiff => ({
+  accounts: diffSection(current.accounts.map(toArchiveAccount), next.accounts.map(toArchiveAccount), account => account.id, accountLabel),
+  historicalData: diffSection(current.historicalData, next.historicalData, point => String(point.year), point => String(point.year)),
+  snapshots: diffSection(current.snapshots, next.snapshots, snapshot => snapshot.date, snapshot => snapshot.date),
+  goals: diffSection(current.goals, next.goals, goal => goal.id, goal => goal.name),
+});
+
+export const hasArchiveChanges = (diff: ArchiveDiff): boolean =>
+  Object.values(diff).some(section => section.added.length + section.updated.length + section.removed.length > 0);
@@ -1,81 +1,214 @@
-import { Account, NetWorthSnapshot } from '../types';
+import { Account } from '../types';
 import * as XLSX from 'xlsx';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import { getAccountClassification } from './accountTypes';
+import { buildNetWorthSeries, getBalanceAt, getEarliestBalanceDate, getPeriodEnds } from './netWorthSeries';
+
+// Currency settings used to add base-currency columns to exports
+export interface ExportCurrencyOptions {
+  baseCurrency: string;
+  convert: CurrencyConverter;
+}
 
 // Export accounts to Excel
-export const exportAccountsToExcel = (accounts: Account[]) => {
+export const exportAccountsToExcel = (accounts: Account[], { baseCurrency, convert }: ExportCurrencyOptions) => {
   // Prepare data for export
-  const exportData = accounts.map(account => ({
-    Institution: account.institution,
-    Name: account.name || '',
-    Type: account.type,
-    'Current Balance': account.balanceHistory[account.balanceHistory.length - 1]?.balance || 0,
-    'Last Updated': account.balanceHistory[account.balanceHistory.length - 1]?.date || '',
-    'Balance History': JSON.stringify(account.balanceHistory)
-  }));
-
-  // Create workbook and worksheet
+  const exportData = accounts.map(account => {
+    const latestEntry = account.balanceHistory[account.balanceHistory.length - 1];
+    const currency = getAccountCurrency(account);
+    return {
+      Institution: account.institution,
+      Name: account.name || '',
+      Type: account.type,
+      Currency: currency,
+      'Current Balance': latestEntry?.balance || 0,
+      [`Current Balance (${baseCurrency})`]: latestEntry ? convert(latestEntry.balance, currency, new Date()) : 0,
+      'Last Updated': latestEntry?.date || '',
+      'Balance History': JSON.stringify(account.balanceHistory)
+    };
+  });
+
+  // One row per balance entry, converted at the rate for that entry's date
+  const historyData = accounts.flatMap(account => {
+    const currency = getAccountCurrency(account);
+    return account.balanceHistory.map(entry => ({
+      Institution: account.institution,
+      Name: account.name || '',
+      Date: entry.date,
+      Currency: currency,
+      Balance: entry.balance,
+      [`Balance (${baseCurrency})`]: convert(entry.balance, currency, entry.date),
+    }));
+  });
+
+  // Create workbook and worksheets
   const wb = XLSX.utils.book_new();
   const ws = XLSX.utils.json_to_sheet(exportData);
   XLSX.utils.book_append_sheet(wb, ws, 'Accounts');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(historyData), 'Balance History');
 
   // Generate and download file
   XLSX.writeFile(wb, 'networthy_accounts.xlsx');
 };
 
-// Export accounts to CSV
-export const exportAccountsToCSV = (accounts: Account[]) => {
-  const headers = ['Institution', 'Name', 'Type', 'Current Balance', 'Last Updated'];
-  const rows = accounts.map(account => [
-    account.institution,
-    account.name || '',
-    account.type,
-    account.balanceHistory[account.balanceHistory.length - 1]?.balance || 0,
-    account.balanceHistory[account.balanceHistory.length - 1]?.date || ''
-  ]);
+// --- CSV ---
+
+export type CsvLayout = 'long' | 'wide' | 'net_worth';
+
+export const CSV_LAYOUTS: { value: CsvLayout; label: string; description: string }[] = [
+  { value: 'long', label: 'Balance history (long)', description: 'One row per account per balance entry' },
+  { value: 'wide', label: 'Monthly balances (wide)', description: 'One row per month, one column per account' },
+  { value: 'net_worth', label: 'Monthly net worth', description: 'Assets, liabilities and net worth at each month end' },
+];
+
+export interface CsvExportOptions extends ExportCurrencyOptions {
+  layout: CsvLayout;
+  start?: Date; // inclusive
+  end?: Date; // inclusive; defaults to now
+  accountIds?: string[]; // empty or omitted exports every account
+}
 
-  const csvContent = [
-    headers.join(','),
-    ...rows.map(row => row.join(','))
-  ].join('\n');
+type CsvBuildOptions = Omit<CsvExportOptions, 'layout'>;
 
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+type CsvValue = string | number | boolean | null | undefined;
+
+// RFC 4180: fields containing a comma, quote or line break are wrapped in double
+// quotes, with embedded quotes doubled
+export const toCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Records are separated by CRLF as the RFC specifies
+export const toCsv = (rows: CsvValue[][]): string => rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   link.href = URL.createObjectURL(blob);
-  link.download = 'networthy_accounts.csv';
+  link.download = fileName;
   link.click();
 };
 
-// Backup data to local storage
-export const backupToLocalStorage = (accounts: Account[], snapshots: NetWorthSnapshot[]) => {
-  const backupData = {
-    accounts,
-    snapshots,
-    timestamp: new Date().toISOString()
-  };
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const getAccountLabel = (account: Account): string => `${account.institution}${account.name ? ` - ${account.name}` : ''}`;
+
+const filterAccounts = (accounts: Account[], accountIds?: string[]): Account[] =>
+  accountIds && accountIds.length > 0 ? accounts.filter(account => accountIds.includes(account.id)) : accounts;
+
+// Month ends from the start (or the first balance) to the end of the range
+const getMonthEnds = (accounts: Account[], start: Date | undefined, end: Date): Date[] => {
+  const rangeStart = start ?? getEarliestBalanceDate(accounts);
+  if (!rangeStart || rangeStart.getTime() > end.getTime()) return [];
+  return getPeriodEnds(rangeStart, end, 'month');
+};
+
+// One row per account per balance entry, in the account's currency and the base currency
+export const buildBalanceHistoryCsv = (accounts: Account[], { baseCurrency, convert, start, end = new Date(), accountIds }: CsvBuildOptions): string => {
+  const startTime = start ? startOfDay(start).getTime() : -Infinity;
+  const endTime = endOfDay(end).getTime();
+  const rows = filterAccounts(accounts, accountIds).flatMap(account => {
+    const currency = getAccountCurrency(account);
+    return [...account.balanceHistory]
+      .filter(entry => {
+        const time = new Date(entry.date).getTime();
+        return time >= startTime && time <= endTime;
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .map(entry => [
+        account.id,
+        account.institution,
+        account.name || '',
+        account.type,
+        getAccountClassification(account.type),
+        format(new Date(entry.date), 'yyyy-MM-dd'),
+        currency,
+        entry.balance,
+        roundCents(convert(entry.balance, currency, entry.date)),
+        !!entry.estimated,
+      ]);
+  });
+
+  return toCsv([
+    ['Account ID', 'Institution', 'Name', 'Type', 'Classification', 'Date', 'Currency', 'Balance', `Balance (${baseCurrency})`, 'Estimated'],
+    ...rows,
+  ]);
+};
+
+// Months × accounts pivot of balances in the base currency. Cells before an
+// account's first entry are left empty rather than zero.
+export const buildMonthlyBalancesCsv = (accounts: Account[], { baseCurrency, convert, start, end = new Date(), accountIds }: CsvBuildOptions): string => {
+  const selected = filterAccounts(accounts, accountIds);
+  const firstEntryTimes = selected.map(account => getEarliestBalanceDate([account])?.getTime() ?? Infinity);
+
+  // Accounts sharing a label get a number so every column header is unique
+  const seen = new Map<string, number>();
+  const headers = selected.map(account => {
+    const label = `${getAccountLabel(account)} (${baseCurrency})`;
+    const count = (seen.get(label) || 0) + 1;
+    seen.set(label, count);
+    return count > 1 ? `${label} ${count}` : label;
+  });
+
+  const rows = getMonthEnds(selected, start, endOfDay(end)).map(monthEnd => [
+    format(monthEnd, 'yyyy-MM'),
+    ...selected.map((account, index) =>
+      monthEnd.getTime() < firstEntryTimes[index]
+        ? null
+        : roundCents(convert(getBalanceAt(account, monthEnd), getAccountCurrency(account), monthEnd))
+    ),
+  ]);
+
+  return toCsv([['Month', ...headers], ...rows]);
+};
+
+// Net worth at each month end, the same series the trend chart draws
+export const buildNetWorthCsv = (accounts: Account[], { baseCurrency, convert, start, end = new Date(), accountIds }: CsvBuildOptions): string => {
+  const selected = filterAccounts(accounts, accountIds);
+  const rangeStart = start ?? getEarliestBalanceDate(selected) ?? undefined;
+  const series = rangeStart ? buildNetWorthSeries(selected, { interval: 'month', start: rangeStart, end: endOfDay(end), convert }) : [];
+
+  return toCsv([
+    ['Month', `Total Assets (${baseCurrency})`, `Total Liabilities (${baseCurrency})`, `Net Worth (${baseCurrency})`],
+    ...series.map(point => [
+      point.date.slice(0, 7),
+      roundCents(point.totalAssets),
+      roundCents(point.totalLiabilities),
+      roundCents(point.netWorth),
+    ]),
+  ]);
+};
 
-  localStorage.setItem('networthy_backup', JSON.stringify(backupData));
+const CSV_BUILDERS: Record<CsvLayout, (accounts: Account[], options: CsvBuildOptions) => string> = {
+  long: buildBalanceHistoryCsv,
+  wide: buildMonthlyBalancesCsv,
+  net_worth: buildNetWorthCsv,
 };
 
-// Restore data from local storage
-export const restoreFromLocalStorage = () => {
-  const backupData = localStorage.getItem('networthy_backup');
-  if (!backupData) return null;
-
-  try {
-    return JSON.parse(backupData);
-  } catch (error) {
-    console.error('Error restoring backup:', error);
-    return null;
-  }
+export const exportBalancesToCSV = (accounts: Account[], { layout, ...options }: CsvExportOptions) => {
+  const suffix = layout === 'long' ? 'balance_history' : layout === 'wide' ? 'monthly_balances' : 'net_worth';
+  downloadCsv(CSV_BUILDERS[layout](accounts, options), `networthy_${suffix}.csv`);
 };
 
-// Auto backup every 24 hours
-export const setupAutoBackup = (accounts: Account[], snapshots: NetWorthSnapshot[]) => {
-  const lastBackup = localStorage.getItem('networthy_last_backup');
-  const now = new Date().getTime();
+// Export accounts to CSV
+export const exportAccountsToCSV = (accounts: Account[], { baseCurrency, convert }: ExportCurrencyOptions) => {
+  const headers = ['Institution', 'Name', 'Type', 'Currency', 'Current Balance', `Current Balance (${baseCurrency})`, 'Last Updated'];
+  const rows = accounts.map(account => {
+    const latestEntry = account.balanceHistory[account.balanceHistory.length - 1];
+    const currency = getAccountCurrency(account);
+    return [
+      account.institution,
+      account.name || '',
+      account.type,
+      currency,
+      latestEntry?.balance || 0,
+      latestEntry ? convert(latestEntry.balance, currency, new Date()) : 0,
+      latestEntry?.date || ''
+    ];
+  });
 
-  if (!lastBackup || (now - parseInt(lastBackup)) > 24 * 60 * 60 * 1000) {
-    backupToLocalStorage(accounts, snapshots);
-    localStorage.setItem('networthy_last_backup', now.toString());
-  }
-}; 
\ No newline at end of file
+  downloadCsv(toCsv([headers, ...rows]), 'networthy_accounts.csv');
+};
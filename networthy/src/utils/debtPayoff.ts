@@ -0,0 +1,161 @@
+import { addMonths, format } from 'date-fns';
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export interface DebtInput {
+  accountId: string;
+  name: string;
+  balance: number; // positive amount owed, in the base currency
+  annualRate: number; // APR %
+  minimumPayment: number;
+}
+
+export interface DebtPayoffResult {
+  accountId: string;
+  name: string;
+  startingBalance: number;
+  interestPaid: number;
+  payoffMonth: number | null; // months from the start; null if never paid off
+  payoffDate: Date | null;
+}
+
+export interface PayoffTimelinePoint {
+  date: string; // yyyy-MM-dd
+  total: number;
+  [accountId: string]: number | string;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  feasible: boolean; // false when the budget does not cover the minimums
+  months: number | null;
+  debtFreeDate: Date | null;
+  totalInterest: number;
+  totalPaid: number;
+  debts: DebtPayoffResult[]; // in payoff priority order
+  timeline: PayoffTimelinePoint[];
+}
+
+export const PAYOFF_STRATEGIES: { id: PayoffStrategy; label: string; description: string }[] = [
+  { id: 'avalanche', label: 'Avalanche', description: 'Highest interest rate first. Pays the least interest.' },
+  { id: 'snowball', label: 'Snowball', description: 'Smallest balance first. Clears accounts soonest.' },
+  { id: 'custom', label: 'Custom', description: 'Your own order.' },
+];
+
+// Same cap as the amortization engine: 100 years without progress means never
+const MAX_MONTHS = 1200;
+
+// --- Ordering ---
+
+// Priority order for extra payments. Ties fall back to the other strategy's key
+// so results are stable. Custom order lists account ids; unlisted debts go last.
+export const orderDebts = (debts: DebtInput[], strategy: PayoffStrategy, customOrder: string[] = []): DebtInput[] => {
+  const sorted = [...debts];
+  switch (strategy) {
+    case 'avalanche':
+      return sorted.sort((a, b) => b.annualRate - a.annualRate || a.balance - b.balance);
+    case 'snowball':
+      return sorted.sort((a, b) => a.balance - b.balance || b.annualRate - a.annualRate);
+    case 'custom': {
+      const rank = (id: string) => {
+        const index = customOrder.indexOf(id);
+        return index === -1 ? customOrder.length : index;
+      };
+      return sorted.sort((a, b) => rank(a.accountId) - rank(b.accountId));
+    }
+  }
+};
+
+// --- Simulation ---
+
+// Month-by-month: interest accrues, every open debt gets its minimum, and the
+// rest of the budget (including minimums freed up by paid-off debts) goes to
+// the first open debt in priority order.
+export const simulatePayoff = (
+  debts: DebtInput[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+  start: Date = new Date()
+): PayoffPlan => {
+  const ordered = orderDebts(debts.filter(debt => debt.balance > 0), strategy, customOrder);
+  const balances = ordered.map(debt => debt.balance);
+  const results: DebtPayoffResult[] = ordered.map(debt => ({
+    accountId: debt.accountId,
+    name: debt.name,
+    startingBalance: debt.balance,
+    interestPaid: 0,
+    payoffMonth: null,
+    payoffDate: null,
+  }));
+
+  const snapshot = (month: number): PayoffTimelinePoint => {
+    const point: PayoffTimelinePoint = { date: format(addMonths(start, month), 'yyyy-MM-dd'), total: 0 };
+    ordered.forEach((debt, i) => {
+      point[debt.accountId] = balances[i];
+      point.total += balances[i];
+    });
+    return point;
+  };
+
+  const totalMinimums = ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+  const plan: PayoffPlan = {
+    strategy,
+    feasible: monthlyBudget >= totalMinimums,
+    months: null,
+    debtFreeDate: null,
+    totalInterest: 0,
+    totalPaid: 0,
+    debts: results,
+    timeline: [snapshot(0)],
+  };
+  if (ordered.length === 0) {
+    return { ...plan, months: 0, debtFreeDate: start };
+  }
+  if (!plan.feasible) return plan;
+
+  for (let month = 1; month <= MAX_MONTHS; month++) {
+    let available = monthlyBudget;
+
+    ordered.forEach((debt, i) => {
+      if (balances[i] <= 0) return;
+      const interest = balances[i] * (debt.annualRate / 100 / 12);
+      balances[i] += interest;
+      results[i].interestPaid += interest;
+      plan.totalInterest += interest;
+    });
+
+    ordered.forEach((debt, i) => {
+      if (balances[i] <= 0) return;
+      const payment = Math.min(balances[i], debt.minimumPayment, available);
+      balances[i] -= payment;
+      available -= payment;
+      plan.totalPaid += payment;
+    });
+
+    for (let i = 0; i < ordered.length && available > 0; i++) {
+      if (balances[i] <= 0) continue;
+      const payment = Math.min(balances[i], available);
+      balances[i] -= payment;
+      available -= payment;
+      plan.totalPaid += payment;
+    }
+
+    balances.forEach((balance, i) => {
+      if (balance <= 0.005 && results[i].payoffMonth === null) {
+        balances[i] = 0;
+        results[i].payoffMonth = month;
+        results[i].payoffDate = addMonths(start, month);
+      }
+    });
+    plan.timeline.push(snapshot(month));
+
+    if (balances.every(balance => balance <= 0)) {
+      plan.months = month;
+      plan.debtFreeDate = addMonths(start, month);
+      break;
+    }
+  }
+
+  return plan;
+};
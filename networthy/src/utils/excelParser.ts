@@ -36,9 +36,31 @@ const TYPE_MAPPING: { [excelType: string]: AccountType } = {
   'real estate': 'real_estate',
   'BIENES RAICES': 'real_estate',
   'PROPIEDAD': 'real_estate',
-  'liability': 'liability',
-  'DEUDA': 'liability',
-  'PRESTAMO': 'liability',
+  'BROKERAGE': 'brokerage',
+  'CORRETAJE': 'brokerage',
+  'RETIREMENT': 'retirement',
+  '401K': 'retirement',
+  'IRA': 'retirement',
+  'PENSION': 'retirement',
+  'JUBILACION': 'retirement',
+  'HSA': 'hsa',
+  'CREDIT CARD': 'credit_card',
+  'credit': 'credit_card',
+  'TARJETA': 'credit_card',
+  'TARJETA DE CREDITO': 'credit_card',
+  'STUDENT LOAN': 'student_loan',
+  'PRESTAMO ESTUDIANTIL': 'student_loan',
+  'AUTO LOAN': 'auto_loan',
+  'CAR LOAN': 'auto_loan',
+  'PRESTAMO AUTO': 'auto_loan',
+  'MORTGAGE': 'mortgage',
+  'HIPOTECA': 'mortgage',
+  // Legacy catch-all debt type and generic debt words
+  'liability': 'other_liabilities',
+  'loan': 'other_liabilities',
+  'debt': 'other_liabilities',
+  'DEUDA': 'other_liabilities',
+  'PRESTAMO': 'other_liabilities',
 };
 
 // --- Helper Functions ---
@@ -88,7 +110,12 @@ const mapExcelType = (excelType: string | undefined): AccountType => {
   if (input.includes('asset') || input.includes('activo')) return 'other_assets';
   if (input.includes('crypto') || input.includes('cripto')) return 'crypto';
   if (input.includes('estate') || input.includes('property') || input.includes('raices')) return 'real_estate';
-  if (input.includes('debt') || input.includes('loan') || input.includes('deuda') || input.includes('prestamo')) return 'liability';
+  if (input.includes('retire') || input.includes('pension') || input.includes('jubilacion')) return 'retirement';
+  if (input.includes('mortgage') || input.includes('hipoteca')) return 'mortgage';
+  if (input.includes('credit') || input.includes('tarjeta')) return 'credit_card';
+  if (input.includes('student') || input.includes('estudiantil')) return 'student_loan';
+  if ((input.includes('auto') || input.includes('vehicle') || input.includes('vehiculo')) && (input.includes('loan') || input.includes('prestamo'))) return 'auto_loan';
+  if (input.includes('debt') || input.includes('loan') || input.includes('deuda') || input.includes('prestamo')) return 'other_liabilities';
   
   console.warn(`Using default type 'other_assets' for unrecognized type: "${excelType}"`);
   return 'other_assets';
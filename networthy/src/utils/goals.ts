@@ -0,0 +1,218 @@
+import { addDays, differenceInCalendarDays, eachMonthOfInterval, endOfMonth, format, subMonths } from 'date-fns';
+import { Account } from '../types';
+import { Goal, GoalMilestone, GoalScope } from '../types/Goal';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import { buildNetWorthSeries, getBalanceAt, getEarliestBalanceDate, isLiabilityAccount } from './netWorthSeries';
+
+// How many months of history the growth rate looks back over
+export const DEFAULT_GROWTH_LOOKBACK_MONTHS = 12;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export interface GoalProjection {
+  currentAmount: number;
+  progress: number; // 0-1, capped at 1
+  monthlyGrowth: number | null; // null without enough history to tell
+  projectedDate: Date | null; // null when the goal is never reached at the current rate
+  reached: boolean;
+}
+
+export type GoalStatus = 'reached' | 'on_track' | 'behind' | 'overdue';
+
+export interface GoalPace {
+  startDate: Date; // when progress started being measured (goal creation)
+  startAmount: number;
+  requiredMonthly: number | null; // null once the target date has passed
+  actualMonthly: number | null; // average monthly change since startDate
+  status: GoalStatus;
+}
+
+export interface GoalPathPoint {
+  date: string; // yyyy-MM-dd
+  required: number;
+  actual?: number; // only up to today
+}
+
+// --- Scope ---
+
+export const filterGoalAccounts = (accounts: Account[], scope: GoalScope): Account[] => {
+  switch (scope.kind) {
+    case 'accounts':
+      return accounts.filter(account => scope.accountIds.includes(account.id));
+    case 'tags':
+      return accounts.filter(account => (account.tags || []).some(tag => scope.tags.includes(tag)));
+    case 'all':
+    default:
+      return accounts;
+  }
+};
+
+export const describeGoalScope = (scope: GoalScope, accounts: Account[]): string => {
+  switch (scope.kind) {
+    case 'accounts': {
+      const names = accounts
+        .filter(account => scope.accountIds.includes(account.id))
+        .map(account => account.name || account.institution);
+      return names.length > 0 ? names.join(', ') : 'No accounts';
+    }
+    case 'tags':
+      return scope.tags.length > 0 ? `Tagged ${scope.tags.join(', ')}` : 'No tags';
+    case 'all':
+    default:
+      return 'Total net worth';
+  }
+};
+
+// Scoped net worth at a past date, converted at that date's rates
+export const getScopedAmountAt = (accounts: Account[], date: Date, convert?: CurrencyConverter): number =>
+  accounts.reduce((total, account) => {
+    const balance = getBalanceAt(account, date);
+    const converted = convert && balance !== 0 ? convert(balance, getAccountCurrency(account), date) : balance;
+    return isLiabilityAccount(account) ? total - converted : total + converted;
+  }, 0);
+
+// --- Growth & Projection ---
+
+// Average monthly change over the lookback window: least-squares slope of the
+// month-end values, so one unusual month does not dominate
+export const estimateMonthlyGrowth = (
+  accounts: Account[],
+  convert?: CurrencyConverter,
+  lookbackMonths: number = DEFAULT_GROWTH_LOOKBACK_MONTHS,
+  now: Date = new Date()
+): number | null => {
+  const earliest = getEarliestBalanceDate(accounts);
+  if (!earliest) return null;
+
+  // Months before the first balance would read as zero and inflate the slope
+  const lookbackStart = subMonths(now, lookbackMonths);
+  const start = earliest > lookbackStart ? earliest : lookbackStart;
+  const series = buildNetWorthSeries(accounts, { interval: 'month', start, end: now, convert });
+  if (series.length < 2) return null;
+
+  const n = series.length;
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, point) => sum + point.netWorth, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  series.forEach((point, x) => {
+    numerator += (x - meanX) * (point.netWorth - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+  return denominator === 0 ? null : numerator / denominator;
+};
+
+// Date `amount` is reached from `currentAmount` at `monthlyGrowth` per month
+export const projectDateForAmount = (
+  amount: number,
+  currentAmount: number,
+  monthlyGrowth: number | null,
+  now: Date = new Date()
+): Date | null => {
+  if (currentAmount >= amount) return now;
+  if (monthlyGrowth === null || monthlyGrowth <= 0) return null;
+  const months = (amount - currentAmount) / monthlyGrowth;
+  return addDays(now, Math.ceil(months * DAYS_PER_MONTH));
+};
+
+export const projectGoal = (
+  goal: Goal,
+  accounts: Account[],
+  currentAmount: number,
+  convert?: CurrencyConverter,
+  now: Date = new Date()
+): GoalProjection => {
+  const monthlyGrowth = estimateMonthlyGrowth(filterGoalAccounts(accounts, goal.scope), convert, DEFAULT_GROWTH_LOOKBACK_MONTHS, now);
+  return {
+    currentAmount,
+    progress: goal.targetAmount > 0 ? Math.max(0, Math.min(1, currentAmount / goal.targetAmount)) : 0,
+    monthlyGrowth,
+    projectedDate: projectDateForAmount(goal.targetAmount, currentAmount, monthlyGrowth, now),
+    reached: currentAmount >= goal.targetAmount,
+  };
+};
+
+// Days the projection lands after (positive) or before (negative) the target date
+export const getProjectionSlipDays = (goal: Goal, projectedDate: Date | null): number | null =>
+  projectedDate ? differenceInCalendarDays(projectedDate, new Date(goal.targetDate)) : null;
+
+// The first milestone not yet reached
+export const getNextMilestone = (milestones: GoalMilestone[], currentAmount: number): GoalMilestone | null =>
+  [...milestones].sort((a, b) => a.amount - b.amount).find(milestone => milestone.amount > currentAmount) || null;
+
+// --- Pace ---
+
+const monthsBetween = (start: Date, end: Date): number => differenceInCalendarDays(end, start) / DAYS_PER_MONTH;
+
+// Progress is measured from when the goal was created, or from the first balance
+// in scope when that is later
+const getGoalStartDate = (goal: Goal, accounts: Account[], now: Date): Date => {
+  const created = goal.createdAt ? new Date(goal.createdAt) : now;
+  const earliest = getEarliestBalanceDate(accounts);
+  const start = earliest && earliest > created ? earliest : created;
+  return start > now ? now : start;
+};
+
+// Required monthly savings to hit the target on time, against the pace so far.
+// Goals younger than a month use the recent growth rate as their pace.
+export const calculateGoalPace = (
+  goal: Goal,
+  accounts: Account[],
+  currentAmount: number,
+  convert?: CurrencyConverter,
+  now: Date = new Date()
+): GoalPace => {
+  const scopedAccounts = filterGoalAccounts(accounts, goal.scope);
+  const startDate = getGoalStartDate(goal, scopedAccounts, now);
+  const startAmount = getScopedAmountAt(scopedAccounts, startDate, convert);
+
+  const elapsedMonths = monthsBetween(startDate, now);
+  const actualMonthly = elapsedMonths >= 1
+    ? (currentAmount - startAmount) / elapsedMonths
+    : estimateMonthlyGrowth(scopedAccounts, convert, DEFAULT_GROWTH_LOOKBACK_MONTHS, now);
+
+  const remainingMonths = monthsBetween(now, new Date(goal.targetDate));
+  const remainingAmount = goal.targetAmount - currentAmount;
+  const requiredMonthly = remainingMonths > 0 ? Math.max(0, remainingAmount / remainingMonths) : null;
+
+  let status: GoalStatus;
+  if (remainingAmount <= 0) status = 'reached';
+  else if (requiredMonthly === null) status = 'overdue';
+  else status = actualMonthly !== null && actualMonthly >= requiredMonthly ? 'on_track' : 'behind';
+
+  return { startDate, startAmount, requiredMonthly, actualMonthly, status };
+};
+
+// Month-end points from the goal start to its target date: the straight-line
+// path needed to hit the target, and the actual scoped net worth so far
+export const buildGoalPath = (
+  goal: Goal,
+  accounts: Account[],
+  pace: GoalPace,
+  currentAmount: number,
+  convert?: CurrencyConverter,
+  now: Date = new Date()
+): GoalPathPoint[] => {
+  const targetDate = new Date(goal.targetDate);
+  if (targetDate <= pace.startDate) return [];
+
+  const scopedAccounts = filterGoalAccounts(accounts, goal.scope);
+  const totalDays = differenceInCalendarDays(targetDate, pace.startDate);
+  const requiredAt = (date: Date) =>
+    pace.startAmount + (goal.targetAmount - pace.startAmount) * (differenceInCalendarDays(date, pace.startDate) / totalDays);
+
+  const monthEnds = eachMonthOfInterval({ start: pace.startDate, end: targetDate })
+    .map(month => endOfMonth(month))
+    .filter(date => date > pace.startDate && date < targetDate);
+  const dates = [pace.startDate, ...monthEnds, targetDate];
+  // Today gets its own point so the actual line ends on the live total
+  if (now > pace.startDate && now < targetDate) dates.push(now);
+  dates.sort((a, b) => a.getTime() - b.getTime());
+
+  return dates.map(date => {
+    let actual: number | undefined;
+    if (date.getTime() === now.getTime()) actual = currentAmount;
+    else if (date < now) actual = getScopedAmountAt(scopedAccounts, date, convert);
+    return { date: format(date, 'yyyy-MM-dd'), required: requiredAt(date), actual };
+  });
+};
@@ -0,0 +1,204 @@
+import { format, isSameDay, isValid, parseISO } from 'date-fns';
+import { BalanceEntry, Holding } from '../types';
+
+// One price per symbol per day, in the currency of the accounts holding it.
+// Loaded from local CSV or JSON files; nothing is fetched over the network.
+export interface PriceQuote {
+  symbol: string;
+  date: string; // yyyy-MM-dd
+  price: number;
+}
+
+export interface PositionValue {
+  holding: Holding;
+  price: number | null; // null when the price table has no quote for the symbol
+  priceDate: string | null;
+  value: number; // quantity × price, or the cost basis when unpriced
+  unrealizedGain: number | null;
+}
+
+export interface HoldingsValuation {
+  positions: PositionValue[];
+  value: number;
+  costBasis: number;
+  unrealizedGain: number; // over priced positions only
+  missingSymbols: string[];
+  priceDate: string | null; // newest quote used
+}
+
+// --- Helper Functions ---
+
+export const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const toDateKey = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+
+const isQuote = (quote: PriceQuote): boolean =>
+  quote.symbol !== '' && Number.isFinite(quote.price) && quote.price >= 0 && /^\d{4}-\d{2}-\d{2}$/.test(quote.date);
+
+// --- Price Table ---
+
+// Same lookup as exchange rates: the latest quote on or before the date, falling
+// back to the earliest later one
+export const findPrice = (prices: PriceQuote[], symbol: string, date: string | Date = new Date()): PriceQuote | null => {
+  const key = normalizeSymbol(symbol);
+  const dateKey = toDateKey(date);
+  const candidates = prices
+    .filter(quote => quote.symbol === key)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (candidates.length === 0) return null;
+  const onOrBefore = candidates.filter(quote => quote.date <= dateKey);
+  return onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : candidates[0];
+};
+
+// A quote for the same symbol and date replaces the previous one
+export const mergePrices = (existing: PriceQuote[], incoming: PriceQuote[]): PriceQuote[] => {
+  const byKey = new Map<string, PriceQuote>();
+  [...existing, ...incoming].forEach(quote => byKey.set(`${quote.symbol}|${quote.date}`, quote));
+  return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.symbol.localeCompare(b.symbol));
+};
+
+// Newest quote of every symbol, for display
+export const getLatestPrices = (prices: PriceQuote[]): PriceQuote[] => {
+  const latest = new Map<string, PriceQuote>();
+  prices.forEach(quote => {
+    const current = latest.get(quote.symbol);
+    if (!current || quote.date > current.date) latest.set(quote.symbol, quote);
+  });
+  return Array.from(latest.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+};
+
+// --- Price Files ---
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+// Unparseable dates leave the date empty so isQuote rejects the row
+const toQuote = (symbol: unknown, price: unknown, date: unknown, fallbackDate: string): PriceQuote => {
+  const parsedDate = date ? parseISO(String(date)) : null;
+  return {
+    symbol: normalizeSymbol(String(symbol ?? '')),
+    price: typeof price === 'number' ? price : parseFloat(String(price ?? '').replace(/[$,\s]/g, '')),
+    date: parsedDate === null ? fallbackDate : isValid(parsedDate) ? toDateKey(parsedDate) : '',
+  };
+};
+
+// Accepts:
+// - CSV with a header row containing symbol and price columns (date optional)
+// - JSON: an array of {symbol, price, date?} or an object mapping symbol -> price
+// Rows without a date get `fallbackDate`. Invalid rows are skipped and counted.
+export const parsePriceFile = (
+  text: string,
+  fileName: string,
+  fallbackDate: string = format(new Date(), 'yyyy-MM-dd')
+): { quotes: PriceQuote[]; skipped: number } => {
+  let quotes: PriceQuote[];
+
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The price file is not valid JSON.');
+    }
+    if (Array.isArray(data)) {
+      quotes = data.map(row => {
+        const item = (row || {}) as Record<string, unknown>;
+        return toQuote(item.symbol ?? item.ticker, item.price ?? item.close, item.date, fallbackDate);
+      });
+    } else if (data && typeof data === 'object') {
+      quotes = Object.entries(data as Record<string, unknown>).map(([symbol, price]) =>
+        toQuote(symbol, price, null, fallbackDate)
+      );
+    } else {
+      throw new Error('Expected a list of prices or an object of symbol: price pairs.');
+    }
+  } else {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0) throw new Error('The price file is empty.');
+    const header = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+    const symbolIndex = header.findIndex(column => ['symbol', 'ticker', 'coin'].includes(column));
+    const priceIndex = header.findIndex(column => ['price', 'close', 'last'].includes(column));
+    const dateIndex = header.findIndex(column => column === 'date');
+    if (symbolIndex === -1 || priceIndex === -1) {
+      throw new Error('The CSV needs a header row with "symbol" and "price" columns.');
+    }
+    quotes = lines.slice(1).map(line => {
+      const fields = splitCsvLine(line);
+      return toQuote(fields[symbolIndex], fields[priceIndex], dateIndex === -1 ? null : fields[dateIndex], fallbackDate);
+    });
+  }
+
+  const valid = quotes.filter(isQuote);
+  return { quotes: valid, skipped: quotes.length - valid.length };
+};
+
+// --- Valuation ---
+
+export const valueHoldings = (holdings: Holding[], prices: PriceQuote[], date: string | Date = new Date()): HoldingsValuation => {
+  const positions = holdings.map(holding => {
+    const quote = findPrice(prices, holding.symbol, date);
+    const value = quote ? holding.quantity * quote.price : holding.costBasis;
+    return {
+      holding,
+      price: quote ? quote.price : null,
+      priceDate: quote ? quote.date : null,
+      value,
+      unrealizedGain: quote ? value - holding.costBasis : null,
+    };
+  });
+
+  return {
+    positions,
+    value: positions.reduce((sum, position) => sum + position.value, 0),
+    costBasis: holdings.reduce((sum, holding) => sum + holding.costBasis, 0),
+    unrealizedGain: positions.reduce((sum, position) => sum + (position.unrealizedGain ?? 0), 0),
+    missingSymbols: positions.filter(position => position.price === null).map(position => position.holding.symbol),
+    priceDate: positions.reduce<string | null>(
+      (latest, position) => (position.priceDate && (!latest || position.priceDate > latest) ? position.priceDate : latest),
+      null
+    ),
+  };
+};
+
+// Balance entry recording the holdings' value as of now. It is dated when it is
+// recorded, not on the prices used, so an old price file cannot land behind a
+// newer manual entry. An entry already made today is replaced, so revaluing
+// twice in a day does not add a second balance.
+export const getHoldingsBalanceEntry = (
+  holdings: Holding[],
+  prices: PriceQuote[],
+  history: BalanceEntry[],
+  now: Date = new Date()
+): BalanceEntry => {
+  const valuation = valueHoldings(holdings, prices, now);
+  const today = history.find(entry => !entry.estimated && isSameDay(parseISO(entry.date), now));
+  return { date: today ? today.date : now.toISOString(), balance: Math.round(valuation.value * 100) / 100 };
+};
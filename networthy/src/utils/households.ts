@@ -0,0 +1,99 @@
+import { Account } from '../types';
+import { Household, HouseholdInvite, HouseholdMember, HouseholdRole, OwnershipShare } from '../types/Household';
+import { ArchiveData } from './dataArchive';
+
+// Whose accounts the dashboard and account list show: the whole household, the
+// signed-in user's share, or everyone else's share
+export type OwnershipFilter = 'household' | 'mine' | 'partner';
+
+export const OWNERSHIP_FILTERS: { value: OwnershipFilter; label: string }[] = [
+  { value: 'household', label: 'Household' },
+  { value: 'mine', label: 'Mine' },
+  { value: 'partner', label: 'Partner' },
+];
+
+export interface HouseholdData {
+  household: Household | null;
+  members: HouseholdMember[];
+  invites: HouseholdInvite[]; // sent by the household, visible to its owner
+  receivedInvites: HouseholdInvite[]; // addressed to the signed-in user
+}
+
+export const EMPTY_HOUSEHOLD: HouseholdData = { household: null, members: [], invites: [], receivedInvites: [] };
+
+// --- Ownership ---
+
+// Accounts loaded before households existed carry no owner and belong to the
+// signed-in user
+const isOwnedBy = (account: Account, userId: string): boolean => !account.ownerId || account.ownerId === userId;
+
+// The fraction (0-1) of an account that belongs to `userId`. Personal accounts
+// belong wholly to their owner; joint accounts split by their ownership shares.
+export const getOwnerShare = (account: Account, userId: string): number => {
+  const shares = account.ownership || [];
+  if (shares.length === 0) return isOwnedBy(account, userId) ? 1 : 0;
+  const entry = shares.find(share => share.userId === userId);
+  return entry ? entry.share / 100 : 0;
+};
+
+// The fraction of an account counted under `filter`
+export const getFilterShare = (account: Account, userId: string, filter: OwnershipFilter): number => {
+  switch (filter) {
+    case 'household':
+      return 1;
+    case 'mine':
+      return getOwnerShare(account, userId);
+    case 'partner':
+      return 1 - getOwnerShare(account, userId);
+  }
+};
+
+// Accounts seen through `filter`, with balances and cash flows scaled to the
+// counted share so every total built from them respects joint ownership
+export const applyOwnershipFilter = (accounts: Account[], userId: string, filter: OwnershipFilter): Account[] => {
+  if (filter === 'household') return accounts;
+  return accounts.flatMap(account => {
+    const share = getFilterShare(account, userId, filter);
+    if (share <= 0) return [];
+    if (share >= 1) return [account];
+    return [
+      {
+        ...account,
+        balanceHistory: account.balanceHistory.map(entry => ({ ...entry, balance: entry.balance * share })),
+        cashFlows: (account.cashFlows || []).map(flow => ({ ...flow, amount: flow.amount * share })),
+      },
+    ];
+  });
+};
+
+// Shares must name distinct members, be positive and add up to 100%. An empty
+// list is valid and means the owner holds the whole account.
+export const validateOwnership = (shares: OwnershipShare[]): string | null => {
+  if (shares.length === 0) return null;
+  if (new Set(shares.map(share => share.userId)).size !== shares.length) return 'Each member can only have one share.';
+  if (shares.some(share => !Number.isFinite(share.share) || share.share <= 0)) return 'Shares must be greater than 0%.';
+  const total = shares.reduce((sum, share) => sum + share.share, 0);
+  if (Math.abs(total - 100) > 0.05) return `Shares add up to ${Number(total.toFixed(2))}%, not 100%.`;
+  return null;
+};
+
+// --- Access ---
+
+// Owners of an account can always change it; shared accounts can also be
+// changed by the household's owner and editors
+export const canEditAccount = (account: Account, userId: string, role: HouseholdRole | null): boolean =>
+  isOwnedBy(account, userId) || (!!account.householdId && (role === 'owner' || role === 'editor'));
+
+export const canDeleteAccount = (account: Account, userId: string): boolean => isOwnedBy(account, userId);
+
+// The signed-in user's own records. Exports, backups and imports stay limited
+// to them so restoring a file never takes over a partner's accounts.
+export const getOwnedData = <T extends ArchiveData>(data: T, userId: string): T => ({
+  ...data,
+  accounts: data.accounts.filter(account => isOwnedBy(account, userId)),
+});
+
+export const getMemberLabel = (members: HouseholdMember[], userId: string, currentUserId?: string): string => {
+  if (userId === currentUserId) return 'You';
+  return members.find(member => member.userId === userId)?.email || 'Former member';
+};
@@ -0,0 +1,107 @@
+import { Account, AccountType, BalanceEntry } from '../types';
+import { ParsedAccountData } from './excelParser';
+
+// A single account candidate built from one or more parsed spreadsheet rows
+export interface ImportGroup {
+  key: string;
+  institution: string;
+  type: AccountType;
+  rows: ParsedAccountData[];
+  balanceHistory: BalanceEntry[];
+}
+
+// Where an import group should end up when the import is committed
+export type ImportTarget =
+  | { kind: 'new' }
+  | { kind: 'existing'; accountId: string }
+  | { kind: 'skip' };
+
+// --- Helper Functions ---
+
+const normalize = (value: string | undefined): string => String(value || '').trim().toLowerCase();
+
+const sortByDate = (entries: BalanceEntry[]): BalanceEntry[] =>
+  [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+// Merges dated entries into an existing history. Entries with the same date string
+// replace the existing ones, mirroring addBalanceEntry, so re-importing is idempotent.
+export const mergeBalanceEntries = (history: BalanceEntry[], entries: BalanceEntry[]): BalanceEntry[] => {
+  const byDate = new Map<string, BalanceEntry>();
+  history.forEach(entry => byDate.set(entry.date, entry));
+  entries.forEach(entry => byDate.set(entry.date, entry));
+  return sortByDate(Array.from(byDate.values()));
+};
+
+// Groups parsed rows from all sheets into account candidates. Rows are matched on
+// institution + type; the nth duplicate inside one sheet becomes its own candidate.
+export const groupParsedAccounts = (rows: ParsedAccountData[]): ImportGroup[] => {
+  const groups = new Map<string, ImportGroup>();
+  const occurrencesPerSheet = new Map<string, number>();
+
+  rows.forEach(row => {
+    const baseKey = `${normalize(row.institution)}|${row.type}`;
+    const sheetKey = `${row.originalSheet}|${baseKey}`;
+    const occurrence = occurrencesPerSheet.get(sheetKey) ?? 0;
+    occurrencesPerSheet.set(sheetKey, occurrence + 1);
+
+    const key = occurrence === 0 ? baseKey : `${baseKey}#${occurrence + 1}`;
+    const existing = groups.get(key);
+    if (existing) {
+      existing.rows.push(row);
+      existing.balanceHistory = mergeBalanceEntries(existing.balanceHistory, row.balanceHistory);
+    } else {
+      groups.set(key, {
+        key,
+        institution: row.institution,
+        type: row.type,
+        rows: [row],
+        balanceHistory: sortByDate(row.balanceHistory),
+      });
+    }
+  });
+
+  return Array.from(groups.values());
+};
+
+// Suggests an existing account for an import group: one with the same
+// institution and type that no other group was matched to. Returns null when
+// nothing matches, so the group becomes a new account instead of landing on
+// an unrelated one.
+export const findMatchingAccount = (
+  group: ImportGroup,
+  accounts: Account[],
+  taken: Set<string> = new Set()
+): Account | null => {
+  const institution = normalize(group.institution);
+  return (
+    accounts.find(acc => normalize(acc.institution) === institution && acc.type === group.type && !taken.has(acc.id)) ||
+    null
+  );
+};
+
+// Builds the default target for every group based on the suggested matches.
+// Groups are dated on the same days (the end of each sheet's year), so two
+// groups merged into one account would overwrite each other; each account is
+// suggested for one group at most.
+export const suggestImportTargets = (groups: ImportGroup[], accounts: Account[]): Record<string, ImportTarget> => {
+  const targets: Record<string, ImportTarget> = {};
+  const taken = new Set<string>();
+  groups.forEach(group => {
+    const match = findMatchingAccount(group, accounts, taken);
+    if (match) taken.add(match.id);
+    targets[group.key] = match ? { kind: 'existing', accountId: match.id } : { kind: 'new' };
+  });
+  return targets;
+};
+
+// Existing accounts that more than one group is set to merge into
+export const getSharedTargets = (targets: Record<string, ImportTarget>): Set<string> => {
+  const seen = new Set<string>();
+  const shared = new Set<string>();
+  Object.values(targets).forEach(target => {
+    if (target.kind !== 'existing') return;
+    if (seen.has(target.accountId)) shared.add(target.accountId);
+    seen.add(target.accountId);
+  });
+  return shared;
+};
@@ -0,0 +1,173 @@
+import { differenceInCalendarDays, endOfMonth, subMonths } from 'date-fns';
+import { Account, FinancialInsight } from '../types';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import {
+  buildNetWorthSeries,
+  calculateNetWorth,
+  getBalanceAt,
+  getCurrentBalance,
+  getLatestBalanceEntry,
+  isLiabilityAccount,
+} from './netWorthSeries';
+
+export type InsightRuleId = 'stale_balances' | 'institution_concentration' | 'growing_debt' | 'net_worth_high';
+
+export interface InsightSettings {
+  enabled: Record<InsightRuleId, boolean>;
+  staleDays: number;
+  concentrationPercent: number;
+}
+
+export interface InsightContext {
+  accounts: Account[];
+  settings: InsightSettings;
+  convert?: CurrencyConverter;
+  formatAmount: (value: number) => string;
+  now: Date;
+}
+
+export interface InsightRule {
+  id: InsightRuleId;
+  label: string;
+  description: string;
+  evaluate: (context: InsightContext) => FinancialInsight[];
+}
+
+export const DEFAULT_INSIGHT_SETTINGS: InsightSettings = {
+  enabled: {
+    stale_balances: true,
+    institution_concentration: true,
+    growing_debt: true,
+    net_worth_high: true,
+  },
+  staleDays: 45,
+  concentrationPercent: 50,
+};
+
+// --- Helper Functions ---
+
+const getAccountLabel = (account: Account): string => account.name || account.institution;
+
+const toBase = (context: InsightContext, account: Account, balance: number, date: Date): number =>
+  context.convert ? context.convert(balance, getAccountCurrency(account), date) : balance;
+
+// --- Rules ---
+
+const staleBalances = ({ accounts, settings, now }: InsightContext): FinancialInsight[] =>
+  accounts.flatMap(account => {
+    const latest = getLatestBalanceEntry(account);
+    if (!latest) return [];
+    const days = differenceInCalendarDays(now, new Date(latest.date));
+    if (days < settings.staleDays) return [];
+    return [{
+      id: `stale_balances:${account.id}`,
+      ruleId: 'stale_balances',
+      type: 'warning' as const,
+      message: `${getAccountLabel(account)} has not been updated in ${days} days.`,
+      metric: `${days} days`,
+    }];
+  });
+
+// Share of total assets held at each institution
+const institutionConcentration = (context: InsightContext): FinancialInsight[] => {
+  const byInstitution = new Map<string, number>();
+  let totalAssets = 0;
+  context.accounts.forEach(account => {
+    if (isLiabilityAccount(account)) return;
+    const value = toBase(context, account, getCurrentBalance(account), context.now);
+    if (value <= 0) return;
+    byInstitution.set(account.institution, (byInstitution.get(account.institution) || 0) + value);
+    totalAssets += value;
+  });
+  // A single institution is always 100%; only flag a real choice between several
+  if (totalAssets <= 0 || byInstitution.size < 2) return [];
+
+  return Array.from(byInstitution.entries())
+    .filter(([, value]) => (value / totalAssets) * 100 > context.settings.concentrationPercent)
+    .map(([institution, value]) => {
+      const share = (value / totalAssets) * 100;
+      return {
+        id: `institution_concentration:${institution}`,
+        ruleId: 'institution_concentration',
+        type: 'suggestion' as const,
+        message: `${share.toFixed(0)}% of your assets are at ${institution}. Consider spreading them across institutions.`,
+        metric: `${share.toFixed(0)}%`,
+      };
+    });
+};
+
+// Liabilities whose balance went up in each of the last two months
+const growingDebt = (context: InsightContext): FinancialInsight[] => {
+  const checkpoints = [endOfMonth(subMonths(context.now, 2)), endOfMonth(subMonths(context.now, 1)), context.now];
+  return context.accounts.filter(isLiabilityAccount).flatMap(account => {
+    const balances = checkpoints.map(date => toBase(context, account, getBalanceAt(account, date), date));
+    const [twoMonthsAgo, lastMonth, current] = balances;
+    if (!(twoMonthsAgo > 0 && lastMonth > twoMonthsAgo && current > lastMonth)) return [];
+    const change = ((current - twoMonthsAgo) / twoMonthsAgo) * 100;
+    return [{
+      id: `growing_debt:${account.id}`,
+      ruleId: 'growing_debt',
+      type: 'warning' as const,
+      message: `${getAccountLabel(account)} has grown two months in a row, up ${context.formatAmount(current - twoMonthsAgo)}.`,
+      change,
+    }];
+  });
+};
+
+// Live net worth above every earlier month-end value
+const netWorthHigh = (context: InsightContext): FinancialInsight[] => {
+  const history = buildNetWorthSeries(context.accounts, { interval: 'month', end: context.now, convert: context.convert });
+  const previous = history.slice(0, -1);
+  if (previous.length === 0) return [];
+
+  const current = calculateNetWorth(context.accounts, context.convert, context.now).netWorth;
+  const previousHigh = Math.max(...previous.map(point => point.netWorth));
+  if (current <= previousHigh || current <= 0) return [];
+
+  return [{
+    id: 'net_worth_high',
+    ruleId: 'net_worth_high',
+    type: 'achievement',
+    message: `New net worth high of ${context.formatAmount(current)}, ${context.formatAmount(current - previousHigh)} above the previous high.`,
+    metric: context.formatAmount(current),
+    change: previousHigh > 0 ? ((current - previousHigh) / previousHigh) * 100 : undefined,
+  }];
+};
+
+export const INSIGHT_RULES: InsightRule[] = [
+  {
+    id: 'stale_balances',
+    label: 'Stale balances',
+    description: 'Accounts not updated within the set number of days',
+    evaluate: staleBalances,
+  },
+  {
+    id: 'institution_concentration',
+    label: 'Institution concentration',
+    description: 'A single institution holds more than the set share of assets',
+    evaluate: institutionConcentration,
+  },
+  {
+    id: 'growing_debt',
+    label: 'Growing debt',
+    description: 'Liabilities that increased month over month',
+    evaluate: growingDebt,
+  },
+  {
+    id: 'net_worth_high',
+    label: 'Net worth highs',
+    description: 'Net worth above every previous month',
+    evaluate: netWorthHigh,
+  },
+];
+
+// --- Main Function ---
+
+// Runs every enabled rule; warnings first, then suggestions, then achievements
+export const generateInsights = (context: InsightContext): FinancialInsight[] => {
+  const order: Record<FinancialInsight['type'], number> = { warning: 0, suggestion: 1, achievement: 2 };
+  return INSIGHT_RULES
+    .filter(rule => context.settings.enabled[rule.id])
+    .flatMap(rule => rule.evaluate(context))
+    .sort((a, b) => order[a.type] - order[b.type]);
+};
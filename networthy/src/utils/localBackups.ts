@@ -0,0 +1,97 @@
+import { differenceInCalendarDays, differenceInCalendarWeeks, format, startOfWeek } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { DataArchive } from './dataArchive';
+import { requestToPromise, withStore } from './localDatabase';
+
+// Full copies of a user's data kept in this browser, newest first. They are
+// restored through the same path as a JSON import.
+export type BackupReason = 'auto' | 'manual' | 'before_delete' | 'before_import';
+
+export interface LocalBackup {
+  id: string;
+  userId: string;
+  createdAt: string; // ISO
+  reason: BackupReason;
+  label: string;
+  archive: DataArchive;
+}
+
+export const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+  auto: 'Daily',
+  manual: 'Manual',
+  before_delete: 'Before delete',
+  before_import: 'Before import',
+};
+
+// Retention: the newest `latest` backups, plus the newest backup of each of the
+// last `days` days and of each of the last `weeks` weeks. Everything else is pruned.
+export const BACKUP_RETENTION = { latest: 10, days: 14, weeks: 8 };
+
+const AUTO_BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// --- Retention ---
+
+export const getBackupsToPrune = (backups: LocalBackup[], now: Date = new Date()): LocalBackup[] => {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keptDays = new Set<string>();
+  const keptWeeks = new Set<string>();
+
+  return newestFirst.filter((backup, index) => {
+    const created = new Date(backup.createdAt);
+    const dayKey = format(created, 'yyyy-MM-dd');
+    const weekKey = format(startOfWeek(created), 'yyyy-MM-dd');
+    let keep = index < BACKUP_RETENTION.latest;
+
+    if (differenceInCalendarDays(now, created) < BACKUP_RETENTION.days && !keptDays.has(dayKey)) {
+      keep = true;
+    }
+    if (differenceInCalendarWeeks(now, created) < BACKUP_RETENTION.weeks && !keptWeeks.has(weekKey)) {
+      keep = true;
+    }
+    if (keep) {
+      keptDays.add(dayKey);
+      keptWeeks.add(weekKey);
+    }
+    return !keep;
+  });
+};
+
+// --- Storage ---
+
+export const listBackups = async (userId: string): Promise<LocalBackup[]> => {
+  const backups = await withStore('backups', 'readonly', store =>
+    requestToPromise(store.index('userId').getAll(userId) as IDBRequest<LocalBackup[]>)
+  );
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteBackup = (backupId: string): Promise<void> =>
+  withStore('backups', 'readwrite', async store => {
+    await requestToPromise(store.delete(backupId));
+  });
+
+// Stores a backup and applies the retention policy to the user's backups
+export const saveBackup = async (
+  userId: string,
+  archive: DataArchive,
+  reason: BackupReason,
+  label: string = BACKUP_REASON_LABELS[reason]
+): Promise<LocalBackup> => {
+  const backup: LocalBackup = { id: uuidv4(), userId, createdAt: new Date().toISOString(), reason, label, archive };
+  await withStore('backups', 'readwrite', async store => {
+    await requestToPromise(store.put(backup));
+  });
+
+  const pruned = getBackupsToPrune(await listBackups(userId));
+  await withStore('backups', 'readwrite', async store => {
+    await Promise.all(pruned.map(item => requestToPromise(store.delete(item.id))));
+  });
+  return backup;
+};
+
+// Saves a daily backup when the newest one is more than a day old
+export const runAutoBackup = async (userId: string, archive: DataArchive): Promise<LocalBackup | null> => {
+  const [latest] = await listBackups(userId);
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < AUTO_BACKUP_INTERVAL_MS) return null;
+  return saveBackup(userId, archive, 'auto');
+};
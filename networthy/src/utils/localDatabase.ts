@@ -0,0 +1,63 @@
+// Thin promise wrapper around the browser's IndexedDB. All object stores live in
+// one database; add new stores to STORES and bump DB_VERSION to create them.
+const DB_NAME = 'networthy';
+const DB_VERSION = 2;
+
+export type StoreName = 'backups' | 'cache' | 'outbox';
+
+const STORES: Record<StoreName, { keyPath: string; indexes: string[] }> = {
+  backups: { keyPath: 'id', indexes: ['userId'] },
+  cache: { keyPath: 'userId', indexes: [] },
+  outbox: { keyPath: 'id', indexes: ['userId'] },
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openLocalDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  }
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          if (db.objectStoreNames.contains(name)) return;
+          const store = db.createObjectStore(name, { keyPath: STORES[name].keyPath });
+          STORES[name].indexes.forEach(index => store.createIndex(index, index));
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Runs `action` against one store and resolves once the transaction commits
+export const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openLocalDatabase();
+  const transaction = db.transaction(name, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await action(transaction.objectStore(name));
+  await done;
+  return result;
+};
@@ -0,0 +1,248 @@
+import { addMonths, format } from 'date-fns';
+import { Account, AccountType } from '../types';
+import { Goal } from '../types/Goal';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import { filterGoalAccounts } from './goals';
+import { getCurrentBalance, isLiabilityType } from './netWorthSeries';
+
+// Annual figures as percentages (7 means 7% a year)
+export interface ReturnAssumption {
+  expectedReturn: number;
+  volatility: number;
+}
+
+export type ReturnAssumptions = Record<AccountType, ReturnAssumption>;
+
+// Liabilities are carried at their balance; repayments come out of contributions
+export const DEFAULT_RETURN_ASSUMPTIONS: ReturnAssumptions = {
+  checkings: { expectedReturn: 0, volatility: 0 },
+  savings: { expectedReturn: 2, volatility: 0.5 },
+  cash: { expectedReturn: 0, volatility: 0 },
+  investment: { expectedReturn: 7, volatility: 15 },
+  brokerage: { expectedReturn: 7, volatility: 15 },
+  retirement: { expectedReturn: 7, volatility: 15 },
+  hsa: { expectedReturn: 6, volatility: 12 },
+  crypto: { expectedReturn: 10, volatility: 60 },
+  real_estate: { expectedReturn: 4, volatility: 8 },
+  other_assets: { expectedReturn: 2, volatility: 5 },
+  credit_card: { expectedReturn: 0, volatility: 0 },
+  student_loan: { expectedReturn: 0, volatility: 0 },
+  auto_loan: { expectedReturn: 0, volatility: 0 },
+  mortgage: { expectedReturn: 0, volatility: 0 },
+  other_liabilities: { expectedReturn: 0, volatility: 0 },
+};
+
+export interface ProjectionInputs {
+  allocation: Partial<Record<AccountType, number>>; // current base-currency value by type
+  assumptions: ReturnAssumptions;
+  monthlyContribution: number;
+  inflationRate: number; // annual %
+  years: number;
+  simulations: number;
+  seed: number;
+  withdrawalRate: number; // annual %, e.g. 4
+  annualSpending: number; // today's money
+}
+
+// Goal value as a share of each type's value, so goals can be tracked inside one simulation
+export interface GoalExposure {
+  goal: Goal;
+  shares: Partial<Record<AccountType, number>>;
+}
+
+export interface ProjectionBand {
+  date: string; // yyyy-MM-dd
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface GoalProbability {
+  goal: Goal;
+  probability: number | null; // 0-1; null when the target date is past the horizon
+}
+
+export interface ProjectionResult {
+  bands: ProjectionBand[]; // net worth in today's money
+  goalProbabilities: GoalProbability[];
+  fiNumber: number | null; // today's money
+  fiProbability: number; // share of paths reaching FI inside the horizon
+  fiDate: Date | null; // median FI date; null when under half of the paths get there
+}
+
+// --- Random Numbers ---
+
+// Small deterministic PRNG (mulberry32) so the same seed always gives the same chart
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample (Box-Muller)
+const sampleNormal = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+// --- Inputs From Accounts ---
+
+// Current balance per account type in the base currency
+export const getAllocationByType = (
+  accounts: Account[],
+  convert?: CurrencyConverter
+): Partial<Record<AccountType, number>> =>
+  accounts.reduce<Partial<Record<AccountType, number>>>((allocation, account) => {
+    const balance = getCurrentBalance(account);
+    const value = convert ? convert(balance, getAccountCurrency(account), new Date()) : balance;
+    allocation[account.type] = (allocation[account.type] || 0) + value;
+    return allocation;
+  }, {});
+
+export const getGoalExposures = (goals: Goal[], accounts: Account[], convert?: CurrencyConverter): GoalExposure[] => {
+  const totals = getAllocationByType(accounts, convert);
+  return goals.map(goal => {
+    const scoped = getAllocationByType(filterGoalAccounts(accounts, goal.scope), convert);
+    const shares: Partial<Record<AccountType, number>> = {};
+    (Object.keys(scoped) as AccountType[]).forEach(type => {
+      const total = totals[type] || 0;
+      shares[type] = total !== 0 ? (scoped[type] || 0) / total : 0;
+    });
+    return { goal, shares };
+  });
+};
+
+// --- Simulation ---
+
+// Runs `simulations` monthly paths. Each account type grows by a normally
+// distributed monthly return drawn from its assumption; contributions are split
+// across the asset types in proportion to today's allocation. Bands and FI are
+// reported in today's money; goal targets are compared in nominal terms on their
+// target date.
+export const runProjection = (
+  inputs: ProjectionInputs,
+  goals: GoalExposure[] = [],
+  start: Date = new Date()
+): ProjectionResult => {
+  const months = Math.max(1, Math.round(inputs.years * 12));
+  const types = (Object.keys(inputs.allocation) as AccountType[]).filter(type => inputs.allocation[type]);
+  const random = createSeededRandom(inputs.seed);
+
+  const assetTotal = types
+    .filter(type => !isLiabilityType(type))
+    .reduce((sum, type) => sum + Math.max(0, inputs.allocation[type] || 0), 0);
+  const assetTypes = types.filter(type => !isLiabilityType(type));
+  // With no assets yet, contributions go into the first asset type present (or are held as cash)
+  const contributionSplit = types.map(type => {
+    if (isLiabilityType(type)) return 0;
+    if (assetTotal > 0) return Math.max(0, inputs.allocation[type] || 0) / assetTotal;
+    return type === assetTypes[0] ? 1 : 0;
+  });
+  const unallocatedContribution = assetTypes.length === 0 ? inputs.monthlyContribution : 0;
+
+  const monthlyParams = types.map(type => {
+    const assumption = inputs.assumptions[type] || { expectedReturn: 0, volatility: 0 };
+    return {
+      mean: Math.pow(1 + assumption.expectedReturn / 100, 1 / 12) - 1,
+      stdDev: assumption.volatility / 100 / Math.sqrt(12),
+      sign: isLiabilityType(type) ? -1 : 1,
+    };
+  });
+  const monthlyInflation = Math.pow(1 + inputs.inflationRate / 100, 1 / 12) - 1;
+
+  const goalMonths = goals.map(({ goal }) => {
+    const target = new Date(goal.targetDate);
+    const monthIndex = (target.getFullYear() - start.getFullYear()) * 12 + (target.getMonth() - start.getMonth());
+    return monthIndex > months ? null : Math.max(0, monthIndex);
+  });
+  const goalHits = goals.map(() => 0);
+
+  const fiNumber = inputs.withdrawalRate > 0 && inputs.annualSpending > 0
+    ? inputs.annualSpending / (inputs.withdrawalRate / 100)
+    : null;
+  const fiMonths: number[] = [];
+
+  // realValues[month][path], month 0 is today
+  const realValues: number[][] = Array.from({ length: months + 1 }, () => new Array(inputs.simulations));
+
+  for (let path = 0; path < inputs.simulations; path++) {
+    const values = types.map(type => inputs.allocation[type] || 0);
+    let cash = 0;
+    let deflator = 1;
+    let fiMonth: number | null = null;
+
+    const netWorthOf = () => values.reduce((sum, value, i) => sum + monthlyParams[i].sign * value, 0) + cash;
+    const checkGoals = (month: number) => {
+      goals.forEach((exposure, g) => {
+        if (goalMonths[g] !== month) return;
+        const goalValue = types.reduce(
+          (sum, type, i) => sum + monthlyParams[i].sign * values[i] * (exposure.shares[type] || 0),
+          0
+        );
+        if (goalValue >= exposure.goal.targetAmount) goalHits[g] += 1;
+      });
+    };
+
+    realValues[0][path] = netWorthOf();
+    checkGoals(0);
+    if (fiNumber !== null && realValues[0][path] >= fiNumber) fiMonth = 0;
+
+    for (let month = 1; month <= months; month++) {
+      for (let i = 0; i < types.length; i++) {
+        const { mean, stdDev } = monthlyParams[i];
+        const monthlyReturn = stdDev > 0 ? mean + stdDev * sampleNormal(random) : mean;
+        values[i] = values[i] * (1 + monthlyReturn) + inputs.monthlyContribution * contributionSplit[i];
+      }
+      cash += unallocatedContribution;
+      deflator *= 1 + monthlyInflation;
+
+      const real = netWorthOf() / deflator;
+      realValues[month][path] = real;
+      checkGoals(month);
+      if (fiMonth === null && fiNumber !== null && real >= fiNumber) fiMonth = month;
+    }
+    if (fiMonth !== null) fiMonths.push(fiMonth);
+  }
+
+  const bands = realValues.map((pathValues, month) => {
+    const sorted = [...pathValues].sort((a, b) => a - b);
+    return {
+      date: format(addMonths(start, month), 'yyyy-MM-dd'),
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+
+  // Median over all paths, counting paths that never reach FI as "later than the horizon"
+  fiMonths.sort((a, b) => a - b);
+  const medianIndex = Math.floor((inputs.simulations - 1) / 2);
+  const fiDate = medianIndex < fiMonths.length ? addMonths(start, fiMonths[medianIndex]) : null;
+
+  return {
+    bands,
+    goalProbabilities: goals.map((exposure, g) => ({
+      goal: exposure.goal,
+      probability: goalMonths[g] === null ? null : inputs.simulations > 0 ? goalHits[g] / inputs.simulations : 0,
+    })),
+    fiNumber,
+    fiProbability: inputs.simulations > 0 ? fiMonths.length / inputs.simulations : 0,
+    fiDate,
+  };
+};
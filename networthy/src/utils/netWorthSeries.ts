@@ -0,0 +1,180 @@
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+} from 'date-fns';
+import { Account, AccountType, BalanceEntry } from '../types';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import { getAccountClassification } from './accountTypes';
+
+export type SeriesInterval = 'day' | 'week' | 'month';
+
+export interface NetWorthSeriesPoint {
+  date: string; // yyyy-MM-dd, the last day covered by the period
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+}
+
+export interface NetWorthSeriesOptions {
+  interval: SeriesInterval;
+  start?: Date;
+  end?: Date;
+  convert?: CurrencyConverter; // converts each balance at the period's date
+}
+
+// --- Classification ---
+
+// Single place that decides which side of the balance sheet an account is on.
+// calculateNetWorth and the series engine must agree, so both use this.
+export const isLiabilityType = (type: AccountType): boolean => getAccountClassification(type) === 'liability';
+
+export const isLiabilityAccount = (account: Account): boolean => isLiabilityType(account.type);
+
+// --- Current Totals ---
+
+export const getLatestBalanceEntry = (account: Account): BalanceEntry | null => {
+  if (!account.balanceHistory || account.balanceHistory.length === 0) {
+    return null;
+  }
+  const sortedHistory = [...account.balanceHistory].sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+  return sortedHistory[0];
+};
+
+export const getCurrentBalance = (account: Account): number => {
+  const latestEntry = getLatestBalanceEntry(account);
+  return latestEntry ? latestEntry.balance : 0;
+};
+
+// Totals in the base currency. Balances are converted at the rate for `date`
+// (today by default), or left as-is when no converter is given.
+export const calculateNetWorth = (
+  accounts: Account[],
+  convert?: CurrencyConverter,
+  date: Date = new Date()
+): { totalAssets: number; totalLiabilities: number; netWorth: number } => {
+  const totals = accounts.reduce(
+    (acc, account) => {
+      const balance = getCurrentBalance(account);
+      const currentBalance = convert ? convert(balance, getAccountCurrency(account), date) : balance;
+      if (isLiabilityAccount(account)) {
+        acc.totalLiabilities += currentBalance;
+      } else {
+        acc.totalAssets += currentBalance;
+      }
+      return acc;
+    },
+    { totalAssets: 0, totalLiabilities: 0 }
+  );
+
+  return {
+    ...totals,
+    netWorth: totals.totalAssets - totals.totalLiabilities,
+  };
+};
+
+// --- Helper Functions ---
+
+const sortHistory = (history: BalanceEntry[]): { time: number; balance: number }[] =>
+  (history || [])
+    .map(entry => ({ time: new Date(entry.date).getTime(), balance: entry.balance }))
+    .filter(entry => !isNaN(entry.time))
+    .sort((a, b) => a.time - b.time);
+
+// Earliest dated balance across all accounts, or null when there is no history
+export const getEarliestBalanceDate = (accounts: Account[]): Date | null => {
+  let earliest: number | null = null;
+  accounts.forEach(account => {
+    (account.balanceHistory || []).forEach(entry => {
+      const time = new Date(entry.date).getTime();
+      if (!isNaN(time) && (earliest === null || time < earliest)) earliest = time;
+    });
+  });
+  return earliest === null ? null : new Date(earliest);
+};
+
+// Balance of an account at a moment, carrying the last known entry forward.
+// Returns 0 before the first entry (the account did not exist yet).
+export const getBalanceAt = (account: Account, date: Date): number => {
+  const time = date.getTime();
+  let balance = 0;
+  for (const entry of sortHistory(account.balanceHistory)) {
+    if (entry.time > time) break;
+    balance = entry.balance;
+  }
+  return balance;
+};
+
+// End-of-period sample points between start and end. The last point is always
+// the end date itself so the series finishes on today's value.
+export const getPeriodEnds = (start: Date, end: Date, interval: SeriesInterval): Date[] => {
+  const range = { start: startOfDay(start), end };
+  let periodEnds: Date[];
+  switch (interval) {
+    case 'day':
+      periodEnds = eachDayOfInterval(range).map(day => endOfDay(day));
+      break;
+    case 'week':
+      periodEnds = eachWeekOfInterval(range).map(week => endOfWeek(week));
+      break;
+    case 'month':
+    default:
+      periodEnds = eachMonthOfInterval(range).map(month => endOfMonth(month));
+      break;
+  }
+  const clamped = periodEnds.filter(date => date.getTime() < end.getTime());
+  return [...clamped, end];
+};
+
+// --- Main Series Function ---
+
+// Rebuilds net worth over time from every account's balanceHistory. Each account
+// contributes its last known balance at the end of each period.
+export const buildNetWorthSeries = (
+  accounts: Account[],
+  { interval, start, end = new Date(), convert }: NetWorthSeriesOptions
+): NetWorthSeriesPoint[] => {
+  const seriesStart = start ?? getEarliestBalanceDate(accounts);
+  if (!seriesStart || seriesStart.getTime() > end.getTime()) return [];
+
+  const histories = accounts.map(account => ({
+    currency: getAccountCurrency(account),
+    isLiability: isLiabilityAccount(account),
+    entries: sortHistory(account.balanceHistory),
+    cursor: -1,
+  }));
+
+  return getPeriodEnds(seriesStart, end, interval).map(periodEnd => {
+    const time = periodEnd.getTime();
+    let totalAssets = 0;
+    let totalLiabilities = 0;
+
+    histories.forEach(history => {
+      // Period ends are increasing, so each account's cursor only moves forward
+      while (history.cursor + 1 < history.entries.length && history.entries[history.cursor + 1].time <= time) {
+        history.cursor += 1;
+      }
+      const rawBalance = history.cursor >= 0 ? history.entries[history.cursor].balance : 0;
+      const balance = convert && rawBalance !== 0 ? convert(rawBalance, history.currency, periodEnd) : rawBalance;
+      if (history.isLiability) {
+        totalLiabilities += balance;
+      } else {
+        totalAssets += balance;
+      }
+    });
+
+    return {
+      date: format(periodEnd, 'yyyy-MM-dd'),
+      totalAssets,
+      totalLiabilities,
+      netWorth: totalAssets - totalLiabilities,
+    };
+  });
+};
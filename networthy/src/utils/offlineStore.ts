@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, BalanceEntry, CashFlowEntry } from '../types';
+import { ArchiveData } from './dataArchive';
+import { mergeBalanceEntries } from './importMatching';
+import { appendCashFlow } from './cashFlows';
+import { requestToPromise, withStore } from './localDatabase';
+
+// Offline support: the provider keeps a copy of the user's data in IndexedDB and
+// loads it before (or instead of) Supabase. Mutations made without a connection
+// are applied to that copy and queued in a durable outbox that is replayed, in
+// order, once the browser is back online.
+
+// Account fields edited through updateAccountMetadata
+export const ACCOUNT_METADATA_FIELDS = ['institution', 'name', 'type', 'category', 'tags', 'notes', 'order', 'currency'] as const;
+
+export type AccountMetadataField = (typeof ACCOUNT_METADATA_FIELDS)[number];
+export type AccountMetadata = Partial<Pick<Account, AccountMetadataField>>;
+
+type OperationBase = {
+  id: string;
+  userId: string;
+  queuedAt: string; // ISO
+  sequence: number; // replay order
+};
+
+export type OutboxOperation = OperationBase &
+  (
+    | { kind: 'add_account'; account: Account }
+    | { kind: 'add_balance_entry'; accountId: string; entry: BalanceEntry; cashFlow?: CashFlowEntry }
+    // `base` holds the values the edit started from, for three-way merging
+    | { kind: 'update_account'; accountId: string; changes: AccountMetadata; base: AccountMetadata }
+  );
+
+export type BalanceEntryOperation = Extract<OutboxOperation, { kind: 'add_balance_entry' }>;
+
+// What a sync run sends in one request: consecutive balance entries travel
+// together as one batch, anything else on its own
+export type OutboxBatch =
+  | { kind: 'balance_entries'; operations: BalanceEntryOperation[] }
+  | { kind: 'single'; operation: Exclude<OutboxOperation, BalanceEntryOperation> };
+
+export type NewOutboxOperation = OutboxOperation extends infer T
+  ? T extends OutboxOperation
+    ? Omit<T, keyof OperationBase>
+    : never
+  : never;
+
+export interface SyncConflict {
+  id: string;
+  operationId: string;
+  description: string; // what was being synced
+  resolution: string; // what happened to it
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  lastSyncedAt: string | null;
+  conflicts: SyncConflict[];
+}
+
+interface CachedData extends ArchiveData {
+  userId: string;
+  savedAt: string;
+}
+
+let sequenceCounter = 0;
+
+// --- Helper Functions ---
+
+// Supabase errors are plain objects with a message rather than Error instances
+export const getErrorMessage = (err: unknown): string =>
+  err && typeof err === 'object' && 'message' in err ? String((err as { message: unknown }).message) : String(err);
+
+// Supabase reports a dropped connection as a fetch TypeError, sometimes wrapped
+// in its own error object
+export const isNetworkError = (err: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (err instanceof TypeError) return true;
+  return /failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(getErrorMessage(err));
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// The metadata fields present on `account`
+export const pickMetadata = (account: Partial<Account>): AccountMetadata =>
+  ACCOUNT_METADATA_FIELDS.reduce<AccountMetadata>((metadata, field) => {
+    if (field in account) (metadata as Record<string, unknown>)[field] = account[field];
+    return metadata;
+  }, {});
+
+export const describeOperation = (operation: OutboxOperation, accounts: Account[]): string => {
+  const accountId = operation.kind === 'add_account' ? operation.account.id : operation.accountId;
+  const account = accounts.find(item => item.id === accountId) || (operation.kind === 'add_account' ? operation.account : null);
+  const name = account ? `${account.institution}${account.name ? ` – ${account.name}` : ''}` : 'a deleted account';
+  switch (operation.kind) {
+    case 'add_account':
+      return `New account ${name}`;
+    case 'add_balance_entry':
+      return `Balance of ${operation.entry.balance} for ${name}`;
+    case 'update_account':
+      return `Changes to ${name}`;
+  }
+};
+
+// --- Conflict Resolution ---
+
+// Balance entries are keyed by date: the queued entry wins for its own date and
+// every other entry on the server is kept, so concurrent updates from two devices
+// both survive. Ledger entries are merged by id.
+export const mergeBalanceEntryInto = (
+  history: BalanceEntry[],
+  cashFlows: CashFlowEntry[],
+  entry: BalanceEntry,
+  cashFlow?: CashFlowEntry
+): { balanceHistory: BalanceEntry[]; cashFlows: CashFlowEntry[] } => {
+  return {
+    balanceHistory: mergeBalanceEntries(history, [entry]),
+    cashFlows: cashFlow && !cashFlows.some(flow => flow.id === cashFlow.id) ? appendCashFlow(cashFlows, cashFlow) : cashFlows,
+  };
+};
+
+// Three-way merge of an offline metadata edit. Fields only changed offline are
+// applied; fields also changed on the server since the edit began keep the server
+// value and are reported as conflicts.
+export const mergeMetadataChanges = (
+  server: AccountMetadata,
+  changes: AccountMetadata,
+  base: AccountMetadata
+): { updates: AccountMetadata; conflicts: AccountMetadataField[] } => {
+  const updates: AccountMetadata = {};
+  const conflicts: AccountMetadataField[] = [];
+  ACCOUNT_METADATA_FIELDS.forEach(field => {
+    if (!(field in changes) || sameValue(changes[field], base[field]) || sameValue(changes[field], server[field])) return;
+    if (sameValue(server[field], base[field])) {
+      (updates as Record<string, unknown>)[field] = changes[field];
+    } else {
+      conflicts.push(field);
+    }
+  });
+  return { updates, conflicts };
+};
+
+// Applies a queued operation to loaded accounts, so changes that have not
+// synced yet stay visible after data is refetched
+export const applyOperation = (accounts: Account[], operation: OutboxOperation): Account[] => {
+  switch (operation.kind) {
+    case 'add_account':
+      return accounts.some(account => account.id === operation.account.id) ? accounts : [...accounts, operation.account];
+    case 'add_balance_entry':
+      return accounts.map(account =>
+        account.id === operation.accountId
+          ? {
+              ...account,
+              ...mergeBalanceEntryInto(
+                account.balanceHistory,
+                account.cashFlows || [],
+                operation.entry,
+                operation.cashFlow
+              ),
+            }
+          : account
+      );
+    case 'update_account':
+      return accounts.map(account => (account.id === operation.accountId ? { ...account, ...operation.changes } : account));
+  }
+};
+
+// --- Local Cache ---
+
+export const loadCachedData = async (userId: string): Promise<ArchiveData | null> => {
+  const cached = await withStore('cache', 'readonly', store => requestToPromise(store.get(userId) as IDBRequest<CachedData | undefined>));
+  if (!cached) return null;
+  return { accounts: cached.accounts, historicalData: cached.historicalData, snapshots: cached.snapshots, goals: cached.goals };
+};
+
+export const saveCachedData = (userId: string, data: ArchiveData): Promise<void> =>
+  withStore('cache', 'readwrite', async store => {
+    const cached: CachedData = {
+      userId,
+      savedAt: new Date().toISOString(),
+      accounts: data.accounts,
+      historicalData: data.historicalData,
+      snapshots: data.snapshots,
+      goals: data.goals,
+    };
+    await requestToPromise(store.put(cached));
+  });
+
+// --- Outbox ---
+
+export const listOutbox = async (userId: string): Promise<OutboxOperation[]> => {
+  const operations = await withStore('outbox', 'readonly', store =>
+    requestToPromise(store.index('userId').getAll(userId) as IDBRequest<OutboxOperation[]>)
+  );
+  return operations.sort((a, b) => a.sequence - b.sequence);
+};
+
+export const enqueueOperation = async (userId: string, operation: NewOutboxOperation): Promise<OutboxOperation> => {
+  const queued = {
+    ...operation,
+    id: uuidv4(),
+    userId,
+    queuedAt: new Date().toISOString(),
+    sequence: Date.now() * 1000 + (sequenceCounter++ % 1000),
+  } as OutboxOperation;
+  await withStore('outbox', 'readwrite', async store => {
+    await requestToPromise(store.put(queued));
+  });
+  return queued;
+};
+
+// Splits the queue into batches without changing the replay order
+export const groupOutboxOperations = (operations: OutboxOperation[]): OutboxBatch[] =>
+  operations.reduce<OutboxBatch[]>((batches, operation) => {
+    const last = batches[batches.length - 1];
+    if (operation.kind !== 'add_balance_entry') batches.push({ kind: 'single', operation });
+    else if (last?.kind === 'balance_entries') last.operations.push(operation);
+    else batches.push({ kind: 'balance_entries', operations: [operation] });
+    return batches;
+  }, []);
+
+export const removeOperation = (operationId: string): Promise<void> =>
+  withStore('outbox', 'readwrite', async store => {
+    await requestToPromise(store.delete(operationId));
+  });
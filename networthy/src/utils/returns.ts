@@ -0,0 +1,180 @@
+import { Account } from '../types';
+import { CashFlow, Performance } from '../types/Performance';
+
+// A value observed at a point in time (a balance entry or a series point)
+export interface ValuationPoint {
+  date: string;
+  value: number;
+}
+
+export interface PerformanceWindow {
+  start?: Date;
+  end?: Date;
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// --- Helper Functions ---
+
+const toTime = (date: string | Date): number => (typeof date === 'string' ? new Date(date).getTime() : date.getTime());
+
+const sortByDate = <T extends { date: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => toTime(a.date) - toTime(b.date));
+
+const yearsBetween = (start: string | Date, end: string | Date): number => (toTime(end) - toTime(start)) / MS_PER_YEAR;
+
+// Value at a moment, carrying the last observation forward (0 before the first one)
+const valueAt = (valuations: ValuationPoint[], time: number): number => {
+  let value = 0;
+  for (const point of valuations) {
+    if (toTime(point.date) > time) break;
+    value = point.value;
+  }
+  return value;
+};
+
+// Net flows strictly after `from` and up to and including `to`
+const flowsBetween = (flows: CashFlow[], from: number, to: number): CashFlow[] =>
+  flows.filter(flow => {
+    const time = toTime(flow.date);
+    return time > from && time <= to;
+  });
+
+// --- Return Calculations ---
+
+// Compound annual growth rate as a fraction. Undefined for non-positive values.
+export const computeCagr = (startValue: number, endValue: number, years: number): number | null => {
+  if (startValue <= 0 || endValue <= 0 || years <= 0) return null;
+  return Math.pow(endValue / startValue, 1 / years) - 1;
+};
+
+// Turns a cumulative return (fraction) over `years` into an annual rate.
+// Windows shorter than a year are not extrapolated.
+export const annualizeReturn = (cumulativeReturn: number, years: number): number => {
+  if (years <= 1 || cumulativeReturn <= -1) return cumulativeReturn;
+  return Math.pow(1 + cumulativeReturn, 1 / years) - 1;
+};
+
+// Time-weighted return (fraction) chained over the periods between valuations.
+// Each period uses Modified Dietz so flows inside it are weighted by how long the
+// money was invested, which removes the effect of deposits and withdrawals.
+export const computeTimeWeightedReturn = (valuations: ValuationPoint[], flows: CashFlow[] = []): number => {
+  const points = sortByDate(valuations);
+  let growth = 1;
+
+  for (let i = 1; i < points.length; i++) {
+    const t0 = toTime(points[i - 1].date);
+    const t1 = toTime(points[i].date);
+    if (t1 <= t0) continue;
+
+    const periodFlows = flowsBetween(flows, t0, t1);
+    const netFlow = periodFlows.reduce((sum, flow) => sum + flow.amount, 0);
+    const weightedFlow = periodFlows.reduce((sum, flow) => sum + flow.amount * ((t1 - toTime(flow.date)) / (t1 - t0)), 0);
+    const base = points[i - 1].value + weightedFlow;
+    // A period that starts with nothing invested has no meaningful return
+    if (base <= 0) continue;
+
+    growth *= 1 + (points[i].value - points[i - 1].value - netFlow) / base;
+  }
+
+  return growth - 1;
+};
+
+// Annualized internal rate of return for dated flows (investor's view: money put in
+// is negative, money taken out and the final value are positive). Newton's method
+// with a bisection fallback; returns null when there is no sign change to solve.
+export const computeXirr = (flows: CashFlow[]): number | null => {
+  const sorted = sortByDate(flows).filter(flow => flow.amount !== 0);
+  if (sorted.length < 2) return null;
+  if (!sorted.some(f => f.amount > 0) || !sorted.some(f => f.amount < 0)) return null;
+
+  const t0 = toTime(sorted[0].date);
+  const terms = sorted.map(flow => ({ amount: flow.amount, years: (toTime(flow.date) - t0) / MS_PER_YEAR }));
+  const npv = (rate: number) => terms.reduce((sum, t) => sum + t.amount / Math.pow(1 + rate, t.years), 0);
+  const dNpv = (rate: number) => terms.reduce((sum, t) => sum - (t.years * t.amount) / Math.pow(1 + rate, t.years + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const derivative = dNpv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection between -99.99% and +1000%
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+// --- Performance Builders ---
+
+// Full performance summary for a valuation series and its external cash flows
+export const calculatePerformance = (
+  valuations: ValuationPoint[],
+  flows: CashFlow[] = [],
+  { start, end }: PerformanceWindow = {}
+): Performance | null => {
+  const sorted = sortByDate(valuations);
+  if (sorted.length === 0) return null;
+
+  const startTime = start ? start.getTime() : toTime(sorted[0].date);
+  const endTime = end ? end.getTime() : toTime(sorted[sorted.length - 1].date);
+  if (endTime <= startTime) return null;
+
+  const startValue = valueAt(sorted, startTime);
+  const endValue = valueAt(sorted, endTime);
+  const windowPoints: ValuationPoint[] = [
+    { date: new Date(startTime).toISOString(), value: startValue },
+    ...sorted.filter(p => toTime(p.date) > startTime && toTime(p.date) < endTime),
+    { date: new Date(endTime).toISOString(), value: endValue },
+  ];
+  const windowFlows = flowsBetween(flows, startTime, endTime);
+  const netContributions = windowFlows.reduce((sum, flow) => sum + flow.amount, 0);
+  const years = yearsBetween(new Date(startTime), new Date(endTime));
+
+  const twr = computeTimeWeightedReturn(windowPoints, windowFlows);
+  const xirr = computeXirr([
+    { date: new Date(startTime).toISOString(), amount: -startValue },
+    ...windowFlows.map(flow => ({ date: flow.date, amount: -flow.amount })),
+    { date: new Date(endTime).toISOString(), amount: endValue },
+  ]);
+  const cagr = computeCagr(startValue, endValue, years);
+
+  return {
+    totalReturn: endValue - startValue,
+    percentageChange: startValue === 0 ? 0 : ((endValue - startValue) / Math.abs(startValue)) * 100,
+    timeWeightedReturn: twr * 100,
+    annualizedReturn: annualizeReturn(twr, years) * 100,
+    moneyWeightedReturn: xirr === null ? null : xirr * 100,
+    cagr: cagr === null ? null : cagr * 100,
+    netContributions,
+    marketGain: endValue - startValue - netContributions,
+    startDate: new Date(startTime).toISOString(),
+    endDate: new Date(endTime).toISOString(),
+    startValue,
+    endValue,
+  };
+};
+
+// Performance of a single account from its balance history, in the account's currency
+export const calculateAccountPerformance = (
+  account: Account,
+  flows: CashFlow[] = [],
+  window: PerformanceWindow = {}
+): Performance | null => {
+  const valuations = (account.balanceHistory || []).map(entry => ({ date: entry.date, value: entry.balance }));
+  return calculatePerformance(valuations, flows, window);
+};
@@ -0,0 +1,317 @@
+import { format, isValid, parse } from 'date-fns';
+import { BalanceEntry, CashFlowEntry } from '../types';
+
+export interface StatementTransaction {
+  id: string; // FITID for OFX; the row's date, amount and description for CSV
+  date: string; // ISO, see toStatementDate
+  amount: number; // + into the account
+  description: string;
+}
+
+export interface ParsedStatement {
+  format: 'ofx' | 'csv';
+  institution: string | null;
+  accountNumber: string | null; // last four digits only
+  currency: string | null;
+  closingBalance: number | null;
+  closingDate: string | null; // ISO
+  transactions: StatementTransaction[];
+}
+
+export type CsvDateFormat = 'yyyy-MM-dd' | 'MM/dd/yyyy' | 'dd/MM/yyyy' | 'dd.MM.yyyy';
+
+// Which CSV columns hold what. Banks either use one signed amount column or
+// separate debit and credit columns.
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount: string;
+  debit: string;
+  credit: string;
+  balance: string; // running balance, used for the closing balance
+  dateFormat: CsvDateFormat;
+  invertAmounts: boolean; // credit card exports often show charges as positive
+}
+
+// A saved mapping for one institution, plus the account its statements go to
+export interface StatementProfile {
+  institution: string;
+  accountId: string | null;
+  mapping: CsvColumnMapping | null;
+}
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy'];
+
+const PROFILES_STORAGE_KEY = 'networthy_statement_profiles';
+
+// --- Helper Functions ---
+
+const normalizeKey = (value: string): string => value.trim().toLowerCase();
+
+// Amounts as banks and spreadsheets write them: "1,234.56", "1.234,56",
+// "(12.00)" or "12.00-" for negatives, with or without a currency symbol
+export const parseAmount = (value: string | undefined): number => {
+  if (!value) return NaN;
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || text.endsWith('-');
+  text = text.replace(/[()\s$€£]/g, '').replace(/-$/, '');
+  // "1.234,56" (decimal comma) vs "1,234.56"
+  if (/,\d{1,2}$/.test(text)) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+  const amount = parseFloat(text);
+  return negative ? -Math.abs(amount) : amount;
+};
+
+// Statement dates are calendar days, stored as noon UTC of the day (yyyy-MM-dd)
+// so the same file yields the same dates, and so the same ids, in every
+// timezone, and the day reads the same in local time from UTC-11 to UTC+11
+const toStatementDate = (day: string): string => `${day}T12:00:00.000Z`;
+
+const toStatementDay = (iso: string): string => iso.slice(0, 10);
+
+const lastFour = (value: string | null): string | null => (value ? value.replace(/\s/g, '').slice(-4) : null);
+
+// Closing balance falls back to the latest transaction date when the file has none
+const latestDate = (transactions: StatementTransaction[]): string | null =>
+  transactions.reduce<string | null>((latest, tx) => (!latest || tx.date > latest ? tx.date : latest), null);
+
+// --- OFX / QFX ---
+
+// OFX dates: YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:name]]. The time is dropped; a
+// statement date is a calendar day.
+const parseOfxDate = (value: string | null): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const day = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValid(parse(day, 'yyyy-MM-dd', new Date())) ? toStatementDate(day) : null;
+};
+
+// Reads a tag's value from OFX 1.x SGML (unclosed tags) or OFX 2.x XML
+const readTag = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+};
+
+const readBlocks = (text: string, tag: string): string[] => {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)(?:</${tag}>|(?=<${tag}>)|(?=</BANKTRANLIST>))`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) blocks.push(match[1]);
+  return blocks;
+};
+
+export const isOfx = (text: string, fileName: string): boolean =>
+  /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text) || /OFXHEADER/i.test(text);
+
+// Handles bank (STMTRS) and credit card (CCSTMTRS) statements
+export const parseOfx = (text: string): ParsedStatement => {
+  if (!/<OFX>/i.test(text)) throw new Error('This does not look like an OFX or QFX file.');
+
+  const transactions = readBlocks(text, 'STMTTRN')
+    .map(block => {
+      const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+      const amount = parseAmount(readTag(block, 'TRNAMT') || '');
+      const name = readTag(block, 'NAME') || '';
+      const memo = readTag(block, 'MEMO') || '';
+      const fitId = readTag(block, 'FITID');
+      if (!date || isNaN(amount)) return null;
+      return {
+        id: fitId || `${toStatementDay(date)}|${amount}|${name}|${memo}`,
+        date,
+        amount,
+        description: [name, memo].filter(Boolean).join(' - '),
+      };
+    })
+    .filter((tx): tx is StatementTransaction => tx !== null);
+
+  const ledgerBalance = readBlocks(text, 'LEDGERBAL')[0] || '';
+  const balance = parseAmount(readTag(ledgerBalance, 'BALAMT') || '');
+
+  return {
+    format: 'ofx',
+    institution: readTag(text, 'ORG'),
+    accountNumber: lastFour(readTag(text, 'ACCTID')),
+    currency: readTag(text, 'CURDEF'),
+    closingBalance: isNaN(balance) ? null : balance,
+    closingDate: parseOfxDate(readTag(ledgerBalance, 'DTASOF')) || latestDate(transactions),
+    transactions,
+  };
+};
+
+// --- CSV ---
+
+// Splits CSV text into rows, honouring quoted fields (which may contain the delimiter)
+export const parseCsvRows = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+const findColumn = (headers: string[], candidates: string[]): string =>
+  headers.find(header => candidates.some(candidate => normalizeKey(header).includes(candidate))) || '';
+
+// Guesses the date format of a column from sample values
+export const detectDateFormat = (sampleDates: string[]): CsvDateFormat => {
+  const sample = sampleDates.find(Boolean) || '';
+  if (/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(sample)) return 'dd.MM.yyyy';
+  if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(sample)) {
+    // Only a first part above 12 proves day-first; US order is the common default
+    return sampleDates.some(date => Number(date.split('/')[0]) > 12) ? 'dd/MM/yyyy' : 'MM/dd/yyyy';
+  }
+  return 'yyyy-MM-dd';
+};
+
+// Best guess at a mapping from common bank export headers
+export const detectCsvMapping = (headers: string[], sampleDates: string[] = []): CsvColumnMapping => {
+  const dateFormat = detectDateFormat(sampleDates);
+
+  return {
+    date: findColumn(headers, ['posting date', 'transaction date', 'date', 'fecha']),
+    description: findColumn(headers, ['description', 'payee', 'memo', 'details', 'concepto']),
+    amount: findColumn(headers, ['amount', 'importe', 'monto']),
+    debit: findColumn(headers, ['debit', 'withdrawal', 'cargo']),
+    credit: findColumn(headers, ['credit', 'deposit', 'abono']),
+    balance: findColumn(headers, ['balance', 'saldo']),
+    dateFormat,
+    invertAmounts: false,
+  };
+};
+
+export const parseCsvStatement = (rows: string[][], mapping: CsvColumnMapping): ParsedStatement => {
+  if (rows.length < 2) throw new Error('The CSV has no transactions.');
+  const headers = rows[0];
+  const column = (name: string) => (name ? headers.indexOf(name) : -1);
+  const dateIndex = column(mapping.date);
+  if (dateIndex === -1) throw new Error('Choose the date column.');
+  const amountIndex = column(mapping.amount);
+  const debitIndex = column(mapping.debit);
+  const creditIndex = column(mapping.credit);
+  if (amountIndex === -1 && debitIndex === -1 && creditIndex === -1) {
+    throw new Error('Choose an amount column, or debit and credit columns.');
+  }
+  const descriptionIndex = column(mapping.description);
+  const balanceIndex = column(mapping.balance);
+
+  const parsedRows = rows.slice(1).map(row => {
+    const parsedDate = parse(row[dateIndex] || '', mapping.dateFormat, new Date());
+    if (!isValid(parsedDate)) return null;
+
+    let amount = amountIndex !== -1
+      ? parseAmount(row[amountIndex])
+      : (parseAmount(row[creditIndex]) || 0) - Math.abs(parseAmount(row[debitIndex]) || 0);
+    if (isNaN(amount)) return null;
+    if (mapping.invertAmounts) amount = -amount;
+
+    return {
+      date: toStatementDate(format(parsedDate, 'yyyy-MM-dd')),
+      amount,
+      description: descriptionIndex !== -1 ? row[descriptionIndex] || '' : '',
+      balance: balanceIndex !== -1 ? parseAmount(row[balanceIndex]) : NaN,
+    };
+  }).filter((row): row is { date: string; amount: number; description: string; balance: number } => row !== null);
+
+  // The whole row is the id, so two different rows never share one. Identical
+  // rows on the same day (two equal coffees) get distinct, stable ids.
+  const occurrences = new Map<string, number>();
+  const transactions = parsedRows.map(row => {
+    const key = `${toStatementDay(row.date)}|${row.amount}|${row.description}`;
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return { id: `${key}|${occurrence}`, date: row.date, amount: row.amount, description: row.description };
+  });
+
+  // The running balance after the last transaction of the latest day. Exports
+  // are either oldest-first (last row on that day) or newest-first (first row).
+  const newestFirst = parsedRows.length > 1 && parsedRows[0].date > parsedRows[parsedRows.length - 1].date;
+  const withBalance = parsedRows.filter(row => !isNaN(row.balance));
+  const closing = withBalance.reduce<(typeof parsedRows)[number] | null>((best, row) => {
+    if (!best || row.date > best.date) return row;
+    return row.date === best.date && !newestFirst ? row : best;
+  }, null);
+
+  return {
+    format: 'csv',
+    institution: null,
+    accountNumber: null,
+    currency: null,
+    closingBalance: closing ? closing.balance : null,
+    closingDate: closing ? closing.date : latestDate(transactions),
+    transactions,
+  };
+};
+
+// --- Applying a Statement ---
+
+// Ledger ids derived from the transaction id, so the same statement imported
+// twice maps onto the same entries
+export const getStatementCashFlowId = (accountId: string, transaction: StatementTransaction): string =>
+  `stmt-${accountId}-${transaction.id}`;
+
+export const toCashFlowEntry = (accountId: string, transaction: StatementTransaction): CashFlowEntry => ({
+  id: getStatementCashFlowId(accountId, transaction),
+  date: transaction.date,
+  amount: transaction.amount,
+  kind: transaction.amount >= 0 ? 'contribution' : 'withdrawal',
+  note: transaction.description || undefined,
+});
+
+export const getClosingBalanceEntry = (statement: ParsedStatement): BalanceEntry | null =>
+  statement.closingBalance !== null && statement.closingDate
+    ? { date: statement.closingDate, balance: statement.closingBalance }
+    : null;
+
+export const formatStatementDate = (iso: string): string =>
+  format(parse(toStatementDay(iso), 'yyyy-MM-dd', new Date()), 'MMM d, yyyy');
+
+// --- Profiles ---
+
+export const loadStatementProfiles = (): Record<string, StatementProfile> => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, StatementProfile>) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const findStatementProfile = (institution: string | null): StatementProfile | null =>
+  institution ? loadStatementProfiles()[normalizeKey(institution)] || null : null;
+
+export const saveStatementProfile = (profile: StatementProfile): void => {
+  const profiles = loadStatementProfiles();
+  profiles[normalizeKey(profile.institution)] = profile;
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
@@ -0,0 +1,167 @@
+import { addMonths, differenceInCalendarDays, isSameMonth, startOfMonth } from 'date-fns';
+import { Account, BalanceEntry, ValuationModel, ValuationSettings } from '../types';
+import { CurrencyConverter, getAccountCurrency } from './currency';
+import { getCurrentBalance } from './netWorthSeries';
+
+export const VALUATION_MODELS: { id: ValuationModel; label: string; description: string }[] = [
+  { id: 'fixed_rate', label: 'Fixed %', description: 'Compounds by a fixed rate each year. Use a negative rate to depreciate.' },
+  { id: 'straight_line', label: 'Straight-line', description: 'Loses the same amount each year until the salvage value.' },
+  { id: 'declining_balance', label: 'Declining balance', description: 'Loses a fixed share of its remaining value each year.' },
+];
+
+export interface HomeEquity {
+  value: number;
+  mortgageBalance: number;
+  equity: number;
+}
+
+interface Anchor {
+  time: number;
+  balance: number;
+}
+
+const DAYS_PER_YEAR = 365.25;
+
+// --- Helper Functions ---
+
+const purchaseTime = (settings: ValuationSettings): number =>
+  new Date(`${settings.purchaseDate}T00:00:00`).getTime();
+
+const yearsSincePurchase = (settings: ValuationSettings, date: Date): number =>
+  Math.max(0, differenceInCalendarDays(date, new Date(purchaseTime(settings))) / DAYS_PER_YEAR);
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// Manual entries and appraisals, plus the purchase itself, pin the curve down
+const getAnchors = (history: BalanceEntry[], settings: ValuationSettings): Anchor[] => {
+  const anchors = history
+    .filter(entry => !entry.estimated)
+    .map(entry => ({ time: new Date(entry.date).getTime(), balance: entry.balance }));
+  const purchase = purchaseTime(settings);
+  if (!anchors.some(anchor => anchor.time <= purchase)) {
+    anchors.push({ time: purchase, balance: settings.purchasePrice });
+  }
+  return anchors.sort((a, b) => a.time - b.time);
+};
+
+// --- Models ---
+
+// Value the model gives on `date` if nothing but the purchase were known
+export const getModelValue = (settings: ValuationSettings, date: Date): number => {
+  const years = yearsSincePurchase(settings, date);
+  const price = settings.purchasePrice;
+  switch (settings.model) {
+    case 'fixed_rate':
+      return price * Math.pow(1 + settings.annualRate / 100, years);
+    case 'straight_line': {
+      const salvage = settings.salvageValue ?? 0;
+      const life = settings.usefulLifeYears || 1;
+      return Math.max(salvage, price - ((price - salvage) * years) / life);
+    }
+    case 'declining_balance':
+      return price * Math.pow(1 - Math.min(100, settings.annualRate) / 100, years);
+  }
+};
+
+// Carries a known value forward along the curve. Straight-line moves by the
+// model's change in amount, the compounding models by its ratio.
+const projectFrom = (anchor: Anchor, settings: ValuationSettings, date: Date): number => {
+  const anchorModel = getModelValue(settings, new Date(anchor.time));
+  const model = getModelValue(settings, date);
+  if (settings.model === 'straight_line' || anchorModel <= 0) {
+    return Math.max(0, anchor.balance + model - anchorModel);
+  }
+  return anchor.balance * (model / anchorModel);
+};
+
+// Estimate between anchors: follow the curve from the previous anchor and spread
+// the miss against the next anchor linearly, so the line meets every appraisal.
+// Returns null before the purchase.
+export const estimateValueAt = (history: BalanceEntry[], settings: ValuationSettings, date: Date): number | null => {
+  const anchors = getAnchors(history, settings);
+  const time = date.getTime();
+  let previousIndex = -1;
+  anchors.forEach((anchor, index) => {
+    if (anchor.time <= time) previousIndex = index;
+  });
+  if (previousIndex === -1) return null;
+
+  const previous = anchors[previousIndex];
+  const next = anchors[previousIndex + 1];
+  const projected = projectFrom(previous, settings, date);
+  if (!next) return projected;
+
+  const miss = next.balance - projectFrom(previous, settings, new Date(next.time));
+  const progress = (time - previous.time) / (next.time - previous.time);
+  return projected + miss * progress;
+};
+
+// --- History Generation ---
+
+// Only manual entries and appraisals are stored; estimated ones are derived
+export const getManualHistory = (history: BalanceEntry[]): BalanceEntry[] => history.filter(entry => !entry.estimated);
+
+// Rebuilds the estimated entries of a history: one on the first of every month
+// from the purchase up to `now`, skipping months that already have a manual
+// entry. Manual entries are never touched; without settings only they remain.
+export const rebuildEstimatedHistory = (
+  history: BalanceEntry[],
+  settings: ValuationSettings | null | undefined,
+  now: Date = new Date()
+): BalanceEntry[] => {
+  const manual = getManualHistory(history);
+  if (!settings || !(settings.purchasePrice > 0)) return manual;
+
+  const estimated: BalanceEntry[] = [];
+  const purchase = new Date(purchaseTime(settings));
+  const hasManualOn = (date: Date) => manual.some(entry => isSameMonth(new Date(entry.date), date));
+
+  if (!manual.some(entry => new Date(entry.date).getTime() <= purchase.getTime())) {
+    estimated.push({ date: purchase.toISOString(), balance: settings.purchasePrice, estimated: true });
+  }
+  for (let month = startOfMonth(addMonths(purchase, 1)); month <= now; month = addMonths(month, 1)) {
+    if (hasManualOn(month)) continue;
+    const value = estimateValueAt(manual, settings, month);
+    if (value !== null) {
+      estimated.push({ date: month.toISOString(), balance: roundCents(value), estimated: true });
+    }
+  }
+
+  return [...manual, ...estimated].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// The account as it is read: a valued asset's history with estimates up to
+// `now`, so an asset nobody has edited in months still follows its model
+export const withEstimatedHistory = (account: Account, now: Date = new Date()): Account =>
+  account.valuation
+    ? { ...account, balanceHistory: rebuildEstimatedHistory(account.balanceHistory, account.valuation, now) }
+    : account;
+
+// --- Equity ---
+
+// Value minus the linked mortgage, both in the base currency. Null when the
+// asset has no linked mortgage (or it no longer exists).
+export const getHomeEquity = (account: Account, accounts: Account[], convert: CurrencyConverter, date: Date = new Date()): HomeEquity | null => {
+  const mortgageId = account.valuation?.linkedMortgageId;
+  const mortgage = mortgageId ? accounts.find(item => item.id === mortgageId) : undefined;
+  if (!mortgage) return null;
+
+  const value = convert(getCurrentBalance(account), getAccountCurrency(account), date);
+  const mortgageBalance = convert(Math.abs(getCurrentBalance(mortgage)), getAccountCurrency(mortgage), date);
+  return { value, mortgageBalance, equity: value - mortgageBalance };
+};
+
+export const getTotalHomeEquity = (accounts: Account[], convert: CurrencyConverter, date: Date = new Date()): HomeEquity | null => {
+  const equities = accounts
+    .map(account => getHomeEquity(account, accounts, convert, date))
+    .filter((equity): equity is HomeEquity => equity !== null);
+  if (equities.length === 0) return null;
+  return equities.reduce(
+    (total, equity) => ({
+      value: total.value + equity.value,
+      mortgageBalance: total.mortgageBalance + equity.mortgageBalance,
+      equity: total.equity + equity.equity,
+    }),
+    { value: 0, mortgageBalance: 0, equity: 0 }
+  );
+};
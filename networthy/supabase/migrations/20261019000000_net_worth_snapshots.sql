@@ -0,0 +1,21 @@
+-- Daily net worth snapshots. At most one row per user per day: later writes on
+-- the same day replace the earlier snapshot (see recordSnapshot in NetWorthContext).
+create table if not exists public.net_worth_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  snapshot_date date not null,
+  total_assets numeric not null default 0,
+  total_liabilities numeric not null default 0,
+  net_worth numeric not null default 0,
+  accounts jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (user_id, snapshot_date)
+);
+
+alter table public.net_worth_snapshots enable row level security;
+
+create policy "Users manage their own snapshots"
+  on public.net_worth_snapshots
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- Per-account currency (ISO 4217). Existing accounts keep the previous implicit USD.
+alter table public.accounts
+  add column if not exists currency text not null default 'USD';
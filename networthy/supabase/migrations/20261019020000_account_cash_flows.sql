@@ -0,0 +1,3 @@
+-- Cash-flow ledger (contributions, withdrawals, transfers) stored next to balance_history.
+alter table public.accounts
+  add column if not exists cash_flows jsonb not null default '[]'::jsonb;
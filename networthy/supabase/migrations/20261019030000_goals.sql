@@ -0,0 +1,26 @@
+-- Several named goals per user, replacing the single row in user_goals.
+create table if not exists public.goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  target_amount numeric not null,
+  target_date date not null,
+  scope jsonb not null default '{"kind": "all"}'::jsonb,
+  milestones jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table public.goals enable row level security;
+
+create policy "Users manage their own goals"
+  on public.goals
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Carry the existing single goal over as a net worth goal. user_goals is no
+-- longer read by the app and can be dropped once this has run everywhere.
+insert into public.goals (user_id, name, target_amount, target_date)
+select ug.user_id, 'Net worth goal', ug.target_amount, ug.target_date
+from public.user_goals ug
+where not exists (select 1 from public.goals g where g.user_id = ug.user_id);
@@ -0,0 +1,5 @@
+-- Split the catch-all 'liability' type. Existing debt becomes 'other_liabilities';
+-- users can reclassify it as credit card, student loan, auto loan or mortgage.
+update public.accounts
+  set type = 'other_liabilities'
+  where type = 'liability';
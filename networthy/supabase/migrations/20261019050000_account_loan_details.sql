@@ -0,0 +1,3 @@
+-- Loan terms for amortizing liabilities: {principal, annualRate, termMonths, startDate}.
+alter table public.accounts
+  add column if not exists loan_details jsonb;
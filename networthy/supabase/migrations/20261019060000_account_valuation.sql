@@ -0,0 +1,5 @@
+-- Valuation model for real estate and other physical assets:
+-- {purchasePrice, purchaseDate, model, annualRate, usefulLifeYears?, salvageValue?, linkedMortgageId?}.
+-- Estimated balance_history entries generated from it carry "estimated": true.
+alter table public.accounts
+  add column if not exists valuation jsonb;
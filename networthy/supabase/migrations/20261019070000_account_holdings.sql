@@ -0,0 +1,4 @@
+-- Positions held in investment and crypto accounts: [{id, symbol, quantity, costBasis}].
+-- Prices stay on the device; the computed value is stored in balance_history.
+alter table public.accounts
+  add column if not exists holdings jsonb not null default '[]'::jsonb;
@@ -0,0 +1,172 @@
+-- Households let partners share accounts. Every account keeps its owner in
+-- user_id; setting household_id shares it with the household's members.
+-- ownership lists each member's share of a joint account: [{userId, share}]
+-- with shares in percent. An empty list means the owner holds all of it.
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.household_members (
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  email text not null,
+  joined_at timestamptz not null default now(),
+  primary key (household_id, user_id)
+);
+
+-- A user belongs to at most one household
+create unique index if not exists household_members_user_id_key on public.household_members (user_id);
+
+create table if not exists public.household_invites (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  -- Copied so invitees, who cannot read the household yet, can see what they join
+  household_name text not null,
+  email text not null,
+  role text not null check (role in ('editor', 'viewer')),
+  invited_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (household_id, email)
+);
+
+alter table public.accounts
+  add column if not exists household_id uuid references public.households (id) on delete set null,
+  add column if not exists ownership jsonb not null default '[]'::jsonb;
+
+-- Membership checks run as the definer so policies on household_members can
+-- use them without recursing into themselves
+create or replace function public.household_role(target_household uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.household_members
+  where household_id = target_household and user_id = auth.uid();
+$$;
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+alter table public.household_invites enable row level security;
+
+create policy "Members read their household"
+  on public.households
+  for select
+  using (public.household_role(id) is not null or created_by = auth.uid());
+
+create policy "Users create households"
+  on public.households
+  for insert
+  with check (created_by = auth.uid());
+
+create policy "Owners rename their household"
+  on public.households
+  for update
+  using (public.household_role(id) = 'owner');
+
+create policy "Owners delete their household"
+  on public.households
+  for delete
+  using (public.household_role(id) = 'owner');
+
+create policy "Members read fellow members"
+  on public.household_members
+  for select
+  using (public.household_role(household_id) is not null);
+
+-- Creators add themselves as owner; everyone else joins through an invite
+create policy "Creators join as owner"
+  on public.household_members
+  for insert
+  with check (
+    user_id = auth.uid()
+    and role = 'owner'
+    and exists (select 1 from public.households h where h.id = household_id and h.created_by = auth.uid())
+  );
+
+create policy "Owners change roles"
+  on public.household_members
+  for update
+  using (public.household_role(household_id) = 'owner');
+
+create policy "Owners remove members and members leave"
+  on public.household_members
+  for delete
+  using (public.household_role(household_id) = 'owner' or user_id = auth.uid());
+
+create policy "Owners manage invites"
+  on public.household_invites
+  for all
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner' and invited_by = auth.uid());
+
+create policy "Invitees see their invites"
+  on public.household_invites
+  for select
+  using (lower(email) = lower(auth.jwt() ->> 'email'));
+
+create policy "Invitees decline their invites"
+  on public.household_invites
+  for delete
+  using (lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Shared accounts are visible to every member and editable by owners and editors.
+-- These add to the existing per-user policies; deleting stays with the account owner.
+create policy "Members read shared accounts"
+  on public.accounts
+  for select
+  using (household_id is not null and public.household_role(household_id) is not null);
+
+create policy "Editors update shared accounts"
+  on public.accounts
+  for update
+  using (household_id is not null and public.household_role(household_id) in ('owner', 'editor'))
+  with check (household_id is not null and public.household_role(household_id) in ('owner', 'editor'));
+
+-- Accepting an invite adds the caller to the household with the invited role
+create or replace function public.accept_household_invite(invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.household_invites%rowtype;
+begin
+  select * into invite from public.household_invites
+  where id = invite_id and lower(email) = lower(auth.jwt() ->> 'email');
+
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  insert into public.household_members (household_id, user_id, role, email)
+  values (invite.household_id, auth.uid(), invite.role, auth.jwt() ->> 'email');
+
+  delete from public.household_invites where id = invite_id;
+end;
+$$;
+
+-- A member who leaves (or is removed) takes their accounts with them
+create or replace function public.unshare_departed_member_accounts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.accounts
+  set household_id = null, ownership = '[]'::jsonb
+  where user_id = old.user_id and household_id = old.household_id;
+  return old;
+end;
+$$;
+
+create trigger household_members_unshare_accounts
+  after delete on public.household_members
+  for each row execute function public.unshare_departed_member_accounts();
@@ -0,0 +1,41 @@
+-- Append-only history of account changes. before/after hold the changed fields
+-- (camelCase, as the app sees them); before is null for a new account and
+-- after is null for a deleted one. Undoing a change appends a new entry
+-- pointing at the one it reverts instead of editing the log.
+create table if not exists public.account_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  actor_email text not null default '',
+  account_id uuid not null,
+  household_id uuid references public.households (id) on delete set null,
+  account_label text not null,
+  action text not null check (action in ('create_account', 'update_account', 'delete_account', 'restore_account', 'undo')),
+  summary text not null,
+  before jsonb,
+  after jsonb,
+  undoes uuid references public.account_audit_log (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists account_audit_log_user_id_created_at_idx on public.account_audit_log (user_id, created_at desc);
+create index if not exists account_audit_log_account_id_idx on public.account_audit_log (account_id);
+
+alter table public.account_audit_log enable row level security;
+
+-- No update or delete policies: entries cannot be changed once written
+create policy "Users read their own changes and their household's"
+  on public.account_audit_log
+  for select
+  using (user_id = auth.uid() or (household_id is not null and public.household_role(household_id) is not null));
+
+create policy "Users record their own changes"
+  on public.account_audit_log
+  for insert
+  with check (user_id = auth.uid());
+
+-- Deleting an account marks it instead of removing the row, so it can be
+-- restored. The app purges rows deleted more than 30 days ago.
+alter table public.accounts
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists accounts_deleted_at_idx on public.accounts (user_id, deleted_at) where deleted_at is not null;
@@ -0,0 +1,87 @@
+-- Adds balance entries to any number of accounts in one transaction, so a
+-- batch either lands completely or not at all and concurrent writers cannot
+-- lose each other's entries (each account row is locked while it is merged).
+--
+-- entries: [{ "accountId": uuid, "date": ISO string, "balance": number or null,
+--             "cashFlow": ledger entry or null }, ...]
+--
+-- A balance replaces any entry with the same date string on its account, and a
+-- ledger entry is appended unless one with its id is already there, matching
+-- the app's merge rules. An entry without a balance only adds its ledger entry
+-- (statement transactions). Both arrays stay sorted by date.
+--
+-- Runs as the caller: an account the caller may not update, or one that has
+-- been deleted, fails the whole batch. Returns every changed account with the
+-- number of ledger entries that were new.
+create or replace function public.add_balance_entries(entries jsonb)
+returns table (account jsonb, cash_flows_added integer)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  target_id uuid;
+  item jsonb;
+  history jsonb;
+  flows jsonb;
+  updated public.accounts%rowtype;
+begin
+  if jsonb_typeof(entries) is distinct from 'array' then
+    raise exception 'entries must be an array';
+  end if;
+
+  -- Accounts in a fixed order so two batches touching the same accounts cannot deadlock
+  for target_id in
+    select distinct (e ->> 'accountId')::uuid from jsonb_array_elements(entries) e order by 1
+  loop
+    select coalesce(a.balance_history, '[]'::jsonb), coalesce(a.cash_flows, '[]'::jsonb)
+      into history, flows
+    from public.accounts a
+    where a.id = target_id and a.deleted_at is null
+    for update;
+
+    if not found then
+      raise exception 'Account % not found', target_id;
+    end if;
+
+    cash_flows_added := 0;
+
+    for item in
+      select e from jsonb_array_elements(entries) with ordinality as t(e, position)
+      where (e ->> 'accountId')::uuid = target_id
+      order by position
+    loop
+      if coalesce(jsonb_typeof(item -> 'balance'), 'null') not in ('number', 'null') or (item ->> 'date') is null then
+        raise exception 'Invalid balance entry for account %', target_id;
+      end if;
+
+      if jsonb_typeof(item -> 'balance') = 'number' then
+        select coalesce(jsonb_agg(h), '[]'::jsonb) into history
+        from jsonb_array_elements(history) h
+        where h ->> 'date' is distinct from item ->> 'date';
+        history := history || jsonb_build_array(jsonb_build_object('date', item ->> 'date', 'balance', item -> 'balance'));
+      end if;
+
+      if jsonb_typeof(item -> 'cashFlow') = 'object'
+        and not exists (select 1 from jsonb_array_elements(flows) f where f ->> 'id' = item -> 'cashFlow' ->> 'id')
+      then
+        flows := flows || jsonb_build_array(item -> 'cashFlow');
+        cash_flows_added := cash_flows_added + 1;
+      end if;
+    end loop;
+
+    select coalesce(jsonb_agg(h order by (h ->> 'date')::timestamptz), '[]'::jsonb) into history
+    from jsonb_array_elements(history) h;
+    select coalesce(jsonb_agg(f order by (f ->> 'date')::timestamptz), '[]'::jsonb) into flows
+    from jsonb_array_elements(flows) f;
+
+    update public.accounts a
+    set balance_history = history, cash_flows = flows
+    where a.id = target_id
+    returning a.* into updated;
+
+    account := to_jsonb(updated);
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,33 @@
+-- Household editors may update a shared account's balances and details, but
+-- who owns it, which household it is shared with, how it is split and whether
+-- it is deleted stay with the account owner. The update policy cannot tell
+-- columns apart, so a trigger rejects changes to them from anyone else.
+create or replace function public.protect_account_owner_columns()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  -- Definer functions (a member leaving a household) and foreign key actions
+  -- run as other roles and may still unshare accounts
+  if current_user <> 'authenticated' or old.user_id = auth.uid() then
+    return new;
+  end if;
+
+  if new.user_id is distinct from old.user_id
+    or new.household_id is distinct from old.household_id
+    or new.ownership is distinct from old.ownership
+    or new.deleted_at is distinct from old.deleted_at
+  then
+    raise exception 'Only the account owner can change its owner, household, ownership or deletion'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger protect_account_owner_columns
+  before update on public.accounts
+  for each row execute function public.protect_account_owner_columns();
@@ -0,0 +1,10 @@
+-- Estimated balance entries of valued assets are now derived when accounts are
+-- read, so they always reach the current month. Drop the stored copies; manual
+-- entries and appraisals stay as they are.
+update public.accounts a
+set balance_history = (
+  select coalesce(jsonb_agg(h order by position), '[]'::jsonb)
+  from jsonb_array_elements(a.balance_history) with ordinality as t(h, position)
+  where coalesce((h ->> 'estimated')::boolean, false) = false
+)
+where a.balance_history @> '[{"estimated": true}]'::jsonb;
@@ -0,0 +1,129 @@
+-- The audit log is written by the database rather than by the app, so every
+-- change to an account is recorded however it was made and clients can no
+-- longer add entries of their own. A change can carry two optional request
+-- headers: x-audit-note, naming the feature that made it ("Monthly check-in"),
+-- and x-audit-undoes, the id of the log entry it reverts.
+drop policy if exists "Users record their own changes" on public.account_audit_log;
+
+-- Entries hold the note; the app describes the changed values when showing them
+alter table public.account_audit_log rename column summary to note;
+alter table public.account_audit_log alter column note set default '';
+
+-- An account's audited fields, keyed as the app names them
+create or replace function public.audited_account_fields(account public.accounts)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'institution', account.institution,
+    'name', account.name,
+    'type', account.type,
+    'balanceHistory', account.balance_history,
+    'cashFlows', account.cash_flows,
+    'category', account.category,
+    'tags', account.tags,
+    'notes', account.notes,
+    'order', account."order",
+    'currency', account.currency,
+    'loanDetails', account.loan_details,
+    'valuation', account.valuation,
+    'holdings', account.holdings,
+    'householdId', account.household_id,
+    'ownership', account.ownership
+  );
+$$;
+
+-- Runs as the definer so it can write to the log, which has no insert policy.
+-- The result of an after trigger is ignored, so it always returns null.
+-- Soft deleting and restoring are logged as deletes and restores; rows purged
+-- after the restore window, or removed along with their user, are not logged.
+create or replace function public.record_account_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  headers jsonb := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::jsonb;
+  account public.accounts;
+  entry_action text;
+  old_fields jsonb;
+  new_fields jsonb;
+  entry_before jsonb;
+  entry_after jsonb;
+  entry_undoes uuid;
+begin
+  if tg_op = 'DELETE' then
+    if old.deleted_at is not null or pg_trigger_depth() > 1 then
+      return null;
+    end if;
+    account := old;
+    entry_action := 'delete_account';
+    entry_before := public.audited_account_fields(old);
+  elsif tg_op = 'INSERT' then
+    if new.deleted_at is not null then
+      return null;
+    end if;
+    account := new;
+    entry_action := 'create_account';
+    entry_after := public.audited_account_fields(new);
+  else
+    account := new;
+    old_fields := public.audited_account_fields(old);
+    new_fields := public.audited_account_fields(new);
+    if old.deleted_at is null and new.deleted_at is not null then
+      entry_action := 'delete_account';
+      entry_before := old_fields;
+    elsif old.deleted_at is not null and new.deleted_at is null then
+      entry_action := 'restore_account';
+      entry_after := new_fields;
+    elsif new.deleted_at is not null then
+      return null;
+    else
+      select jsonb_object_agg(n.key, old_fields -> n.key), jsonb_object_agg(n.key, n.value)
+        into entry_before, entry_after
+      from jsonb_each(new_fields) n
+      where n.value is distinct from old_fields -> n.key;
+      if entry_after is null then
+        return null;
+      end if;
+      entry_action := 'update_account';
+    end if;
+  end if;
+
+  -- Only an entry about the same account can be undone by this change
+  if headers ->> 'x-audit-undoes' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    select l.id into entry_undoes
+    from public.account_audit_log l
+    where l.id = (headers ->> 'x-audit-undoes')::uuid and l.account_id = account.id;
+    if entry_undoes is not null and entry_action = 'update_account' then
+      entry_action := 'undo';
+    end if;
+  end if;
+
+  insert into public.account_audit_log
+    (user_id, actor_email, account_id, household_id, account_label, action, note, before, after, undoes)
+  values (
+    coalesce(auth.uid(), account.user_id),
+    coalesce(auth.jwt() ->> 'email', ''),
+    account.id,
+    -- The household the account is shared with after the change; while a
+    -- household is being deleted this is already null
+    account.household_id,
+    account.institution || case when coalesce(account.name, '') <> '' then ' – ' || account.name else '' end,
+    entry_action,
+    left(coalesce(headers ->> 'x-audit-note', ''), 200),
+    entry_before,
+    entry_after,
+    entry_undoes
+  );
+
+  return null;
+end;
+$$;
+
+create trigger accounts_record_change
+  after insert or update or delete on public.accounts
+  for each row execute function public.record_account_change();
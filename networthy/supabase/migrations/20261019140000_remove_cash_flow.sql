@@ -0,0 +1,56 @@
+-- Removes a ledger entry in one transaction. A transfer is stored on both
+-- accounts under one id, so its other side is removed in the same write and a
+-- failure can no longer leave half a transfer behind.
+--
+-- Both accounts are locked in id order, as add_balance_entries does, so
+-- concurrent ledger writes neither deadlock nor lose each other's entries. A
+-- transfer whose other account has been deleted only loses the named side.
+--
+-- Runs as the caller. Returns every changed account.
+create or replace function public.remove_cash_flow(target_account_id uuid, cash_flow_id text)
+returns setof jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  partner_id uuid;
+  target_id uuid;
+  flows jsonb;
+  updated public.accounts%rowtype;
+begin
+  select (f ->> 'transferAccountId')::uuid into partner_id
+  from public.accounts a, jsonb_array_elements(coalesce(a.cash_flows, '[]'::jsonb)) f
+  where a.id = target_account_id and a.deleted_at is null
+    and f ->> 'id' = cash_flow_id and f ->> 'kind' = 'transfer';
+
+  for target_id in
+    select v.id from (values (target_account_id), (partner_id)) as v(id)
+    where v.id is not null
+    order by 1
+  loop
+    select coalesce(a.cash_flows, '[]'::jsonb) into flows
+    from public.accounts a
+    where a.id = target_id and a.deleted_at is null
+    for update;
+
+    if not found then
+      if target_id = target_account_id then
+        raise exception 'Account % not found', target_id;
+      end if;
+      continue;
+    end if;
+
+    select coalesce(jsonb_agg(f order by position), '[]'::jsonb) into flows
+    from jsonb_array_elements(flows) with ordinality as t(f, position)
+    where f ->> 'id' is distinct from cash_flow_id;
+
+    update public.accounts a
+    set cash_flows = flows
+    where a.id = target_id
+    returning a.* into updated;
+
+    return next to_jsonb(updated);
+  end loop;
+end;
+$$;
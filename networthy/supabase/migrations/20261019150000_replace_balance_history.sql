@@ -0,0 +1,65 @@
+-- Saves an edited balance history in place of the stored one. The editor sends
+-- the history it started from as well, and the save is refused when the stored
+-- history no longer matches it, so an entry added elsewhere in the meantime (a
+-- check-in, an import, another household member) is not silently dropped.
+--
+-- expected, history: [{ "date": ISO string, "balance": number }, ...]
+--
+-- Histories are compared regardless of order. The account row is locked while
+-- it is compared and written, and a deleted account cannot be edited.
+--
+-- Runs as the caller. Returns the updated account.
+create or replace function public.replace_balance_history(target_account_id uuid, expected jsonb, history jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  stored jsonb;
+  updated public.accounts%rowtype;
+begin
+  if jsonb_typeof(expected) is distinct from 'array' or jsonb_typeof(history) is distinct from 'array' then
+    raise exception 'expected and history must be arrays';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(history) h
+    where jsonb_typeof(h -> 'balance') is distinct from 'number' or (h ->> 'date') is null
+  ) then
+    raise exception 'Invalid balance entry for account %', target_account_id;
+  end if;
+
+  select coalesce(a.balance_history, '[]'::jsonb) into stored
+  from public.accounts a
+  where a.id = target_account_id and a.deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Account % not found', target_account_id;
+  end if;
+
+  -- Estimates are derived when accounts are read and never stored
+  if (
+    select coalesce(jsonb_agg(h order by h ->> 'date', h ->> 'balance'), '[]'::jsonb)
+    from jsonb_array_elements(stored) h
+  ) is distinct from (
+    select coalesce(jsonb_agg(h order by h ->> 'date', h ->> 'balance'), '[]'::jsonb)
+    from jsonb_array_elements(expected) h
+  ) then
+    raise exception 'The balance history was changed elsewhere; reload it and try again'
+      using errcode = '40001';
+  end if;
+
+  update public.accounts a
+  set balance_history = (
+    select coalesce(jsonb_agg(jsonb_build_object('date', h ->> 'date', 'balance', h -> 'balance')
+      order by (h ->> 'date')::timestamptz), '[]'::jsonb)
+    from jsonb_array_elements(history) h
+  )
+  where a.id = target_account_id
+  returning a.* into updated;
+
+  return to_jsonb(updated);
+end;
+$$;
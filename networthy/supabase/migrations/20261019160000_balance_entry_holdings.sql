@@ -0,0 +1,87 @@
+-- A balance entry may also replace the account's holdings, so saving holdings
+-- and the value they add up to is one locked write like any other balance
+-- entry rather than a read and a separate update.
+--
+-- entries: [{ "accountId": uuid, "date": ISO string, "balance": number or null,
+--             "cashFlow": ledger entry or null, "holdings": array (optional) }, ...]
+--
+-- Otherwise unchanged from 20261019100000_add_balance_entries.sql.
+create or replace function public.add_balance_entries(entries jsonb)
+returns table (account jsonb, cash_flows_added integer)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  target_id uuid;
+  item jsonb;
+  history jsonb;
+  flows jsonb;
+  positions jsonb;
+  updated public.accounts%rowtype;
+begin
+  if jsonb_typeof(entries) is distinct from 'array' then
+    raise exception 'entries must be an array';
+  end if;
+
+  -- Accounts in a fixed order so two batches touching the same accounts cannot deadlock
+  for target_id in
+    select distinct (e ->> 'accountId')::uuid from jsonb_array_elements(entries) e order by 1
+  loop
+    select coalesce(a.balance_history, '[]'::jsonb), coalesce(a.cash_flows, '[]'::jsonb), a.holdings
+      into history, flows, positions
+    from public.accounts a
+    where a.id = target_id and a.deleted_at is null
+    for update;
+
+    if not found then
+      raise exception 'Account % not found', target_id;
+    end if;
+
+    cash_flows_added := 0;
+
+    for item in
+      select e from jsonb_array_elements(entries) with ordinality as t(e, position)
+      where (e ->> 'accountId')::uuid = target_id
+      order by position
+    loop
+      if coalesce(jsonb_typeof(item -> 'balance'), 'null') not in ('number', 'null') or (item ->> 'date') is null
+        or (item ? 'holdings' and jsonb_typeof(item -> 'holdings') is distinct from 'array')
+      then
+        raise exception 'Invalid balance entry for account %', target_id;
+      end if;
+
+      if jsonb_typeof(item -> 'balance') = 'number' then
+        select coalesce(jsonb_agg(h), '[]'::jsonb) into history
+        from jsonb_array_elements(history) h
+        where h ->> 'date' is distinct from item ->> 'date';
+        history := history || jsonb_build_array(jsonb_build_object('date', item ->> 'date', 'balance', item -> 'balance'));
+      end if;
+
+      if jsonb_typeof(item -> 'cashFlow') = 'object'
+        and not exists (select 1 from jsonb_array_elements(flows) f where f ->> 'id' = item -> 'cashFlow' ->> 'id')
+      then
+        flows := flows || jsonb_build_array(item -> 'cashFlow');
+        cash_flows_added := cash_flows_added + 1;
+      end if;
+
+      if item ? 'holdings' then
+        positions := item -> 'holdings';
+      end if;
+    end loop;
+
+    select coalesce(jsonb_agg(h order by (h ->> 'date')::timestamptz), '[]'::jsonb) into history
+    from jsonb_array_elements(history) h;
+    select coalesce(jsonb_agg(f order by (f ->> 'date')::timestamptz), '[]'::jsonb) into flows
+    from jsonb_array_elements(flows) f;
+
+    update public.accounts a
+    set balance_history = history, cash_flows = flows, holdings = positions
+    where a.id = target_id
+    returning a.* into updated;
+
+    account := to_jsonb(updated);
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,55 @@
+-- Owners may change a member's role and nothing else: rewriting user_id would
+-- add someone to the household without an invite. Policies cannot compare a
+-- row with its previous version, so a trigger rejects changes to the other
+-- columns, and it keeps every household with at least one owner so someone
+-- can still rename, delete and manage it.
+drop policy if exists "Owners change roles" on public.household_members;
+
+create policy "Owners change roles"
+  on public.household_members
+  for update
+  using (public.household_role(household_id) = 'owner')
+  with check (public.household_role(household_id) = 'owner');
+
+create or replace function public.guard_household_members()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  -- Definer functions and foreign key actions (a deleted household or user)
+  -- run as other roles and may remove any member
+  if current_user <> 'authenticated' then
+    return case when tg_op = 'DELETE' then old else new end;
+  end if;
+
+  if tg_op = 'UPDATE' and (
+    new.household_id is distinct from old.household_id
+    or new.user_id is distinct from old.user_id
+    or new.email is distinct from old.email
+    or new.joined_at is distinct from old.joined_at
+  ) then
+    raise exception 'Only a member''s role can be changed'
+      using errcode = '42501';
+  end if;
+
+  if old.role = 'owner' and (tg_op = 'DELETE' or new.role <> 'owner') then
+    -- Locks the household so two owners cannot step down at the same time
+    perform 1 from public.households h where h.id = old.household_id for update;
+    if not exists (
+      select 1 from public.household_members m
+      where m.household_id = old.household_id and m.role = 'owner' and m.user_id <> old.user_id
+    ) then
+      raise exception 'The last owner cannot leave or step down; delete the household instead'
+        using errcode = '23514';
+    end if;
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+create trigger guard_household_members
+  before update or delete on public.household_members
+  for each row execute function public.guard_household_members();